@@ -2,12 +2,22 @@
 // This provides basic offline caching functionality
 
 const CACHE_NAME = 'finance-control-v1';
+const API_CACHE_NAME = 'finance-control-api-v1';
 const ASSETS_TO_CACHE = [
   '/',
   '/index.html',
   '/manifest.json'
 ];
 
+// API reads kept for offline use (the path itself and everything below it)
+const CACHED_API_PATHS = ['/api/wallets', '/api/categories'];
+
+// Header added to cached API responses with the time they were fetched from the server
+const CACHED_AT_HEADER = 'X-Cached-At';
+
+// Bumped whenever the API cache is cleared, so revalidations started earlier don't store outdated data
+let apiCacheGeneration = 0;
+
 // Install event - cache essential assets
 self.addEventListener('install', (event) => {
   console.log('Service Worker: Installing...');
@@ -35,7 +45,7 @@ self.addEventListener('activate', (event) => {
       .then((cacheNames) => {
         return Promise.all(
           cacheNames.map((cacheName) => {
-            if (cacheName !== CACHE_NAME) {
+            if (cacheName !== CACHE_NAME && cacheName !== API_CACHE_NAME) {
               console.log('Service Worker: Deleting old cache', cacheName);
               return caches.delete(cacheName);
             }
@@ -49,14 +59,68 @@ self.addEventListener('activate', (event) => {
   );
 });
 
+// Message event - lets the app clear cached API data (e.g., on logout)
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'clear-api-cache') {
+    event.waitUntil(clearApiCache());
+  }
+});
+
+function clearApiCache() {
+  apiCacheGeneration++;
+  return caches.delete(API_CACHE_NAME);
+}
+
+function isCachedApiRequest(url) {
+  return CACHED_API_PATHS.some((path) => url.pathname === path || url.pathname.startsWith(path + '/'));
+}
+
+// Copy a response adding the time it was fetched, so the app can show when data was last synced
+function stampResponse(response) {
+  return response.blob().then((body) => {
+    const headers = new Headers(response.headers);
+    headers.set(CACHED_AT_HEADER, new Date().toISOString());
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  });
+}
+
+// Stale-while-revalidate - answer from the cache right away and refresh it from the network
+function staleWhileRevalidate(event) {
+  const request = event.request;
+  const generation = apiCacheGeneration;
+
+  const networkFetch = fetch(request);
+  const revalidate = networkFetch
+    .then((response) => {
+      if (!response.ok || generation !== apiCacheGeneration) {
+        return;
+      }
+      return stampResponse(response.clone()).then((stamped) => {
+        if (generation !== apiCacheGeneration) {
+          return;
+        }
+        return caches.open(API_CACHE_NAME).then((cache) => cache.put(request, stamped));
+      });
+    })
+    .catch(() => {
+      // Offline - keep serving the cached copy
+    });
+
+  event.waitUntil(revalidate);
+  event.respondWith(
+    caches.open(API_CACHE_NAME)
+      .then((cache) => cache.match(request))
+      .then((cachedResponse) => cachedResponse || networkFetch)
+  );
+}
+
 // Fetch event - serve from cache, fallback to network
 self.addEventListener('fetch', (event) => {
   const request = event.request;
-  
-  // Skip non-GET requests
-  if (request.method !== 'GET') {
-    return;
-  }
 
   // Skip chrome-extension and other non-http(s) requests
   const url = new URL(request.url);
@@ -64,8 +128,30 @@ self.addEventListener('fetch', (event) => {
     return;
   }
 
-  // Skip API requests (don't cache dynamic data)
-  if (request.url.includes('/api/')) {
+  const isApiRequest = url.pathname.startsWith('/api/');
+
+  // Non-GET requests always go to the network (transactions created offline are queued by the app's outbox)
+  if (request.method !== 'GET') {
+    // A successful write makes cached API data outdated (token refreshes change nothing)
+    if (isApiRequest && url.pathname !== '/api/auth/refresh') {
+      event.respondWith(
+        fetch(request).then((response) => {
+          if (!response.ok) {
+            return response;
+          }
+          return clearApiCache().then(() => response);
+        })
+      );
+    }
+    return;
+  }
+
+  // Wallets, categories and transaction lists are readable offline
+  if (isApiRequest) {
+    if (isCachedApiRequest(url)) {
+      staleWhileRevalidate(event);
+    }
+    // Other API requests are not cached
     return;
   }
 
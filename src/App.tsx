@@ -1,7 +1,12 @@
-import React from 'react';
-import { Routes, Route, Navigate } from 'react-router-dom';
-import { useAuth } from './context/AuthContext';
+import React, { useEffect } from 'react';
+import { Routes, Route, Navigate, useLocation } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { useAuth, getReturnPath, type LoginLocationState } from './context/AuthContext';
 import { Sidebar } from './components/Sidebar';
+import { Toast, useToast } from './components/Toast';
+import { ApiError } from './lib/api';
+import { startOutboxSync } from './lib/outbox';
+import { onUndoableFailed } from './lib/undo';
 import { LoginPage } from './pages/LoginPage';
 import { RegisterPage } from './pages/RegisterPage';
 import { DashboardPage } from './pages/DashboardPage';
@@ -9,11 +14,16 @@ import { WalletsPage } from './pages/WalletsPage';
 import { WalletDetailPage } from './pages/WalletDetailPage';
 import { CategoriesPage } from './pages/CategoriesPage';
 import { ReportsPage } from './pages/ReportsPage';
+import { StatementPage } from './pages/StatementPage';
+import { SearchPage } from './pages/SearchPage';
+import { BudgetPage } from './pages/BudgetPage';
+import { RecurringPage } from './pages/RecurringPage';
+import { SettingsPage } from './pages/SettingsPage';
 import './App.css';
 
 /**
  * Private Route Component
- * Redirects to login if user is not authenticated
+ * Redirects to login if user is not authenticated, remembering the requested page
  */
 interface PrivateRouteProps {
   children: React.ReactNode;
@@ -21,6 +31,7 @@ interface PrivateRouteProps {
 
 const PrivateRoute: React.FC<PrivateRouteProps> = ({ children }) => {
   const { currentUser, isLoading } = useAuth();
+  const location = useLocation();
 
   if (isLoading) {
     return (
@@ -32,7 +43,8 @@ const PrivateRoute: React.FC<PrivateRouteProps> = ({ children }) => {
   }
 
   if (!currentUser) {
-    return <Navigate to="/login" replace />;
+    const state: LoginLocationState = { from: location };
+    return <Navigate to="/login" replace state={state} />;
   }
 
   return <>{children}</>;
@@ -40,7 +52,7 @@ const PrivateRoute: React.FC<PrivateRouteProps> = ({ children }) => {
 
 /**
  * Public Route Component
- * Redirects to dashboard if user is already authenticated
+ * Redirects to dashboard (or the page the user came from) if user is already authenticated
  */
 interface PublicRouteProps {
   children: React.ReactNode;
@@ -48,6 +60,7 @@ interface PublicRouteProps {
 
 const PublicRoute: React.FC<PublicRouteProps> = ({ children }) => {
   const { currentUser, isLoading } = useAuth();
+  const location = useLocation();
 
   if (isLoading) {
     return (
@@ -59,7 +72,7 @@ const PublicRoute: React.FC<PublicRouteProps> = ({ children }) => {
   }
 
   if (currentUser) {
-    return <Navigate to="/dashboard" replace />;
+    return <Navigate to={getReturnPath(location.state)} replace />;
   }
 
   return <>{children}</>;
@@ -67,14 +80,46 @@ const PublicRoute: React.FC<PublicRouteProps> = ({ children }) => {
 
 /**
  * Layout Component for authenticated pages
+ * Also replays transactions queued while offline and reports the outcome, and reports
+ * deletes that failed after the page that made them was left
  */
 const AppLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { t } = useTranslation();
+  const [toast, showToast, hideToast] = useToast();
+
+  useEffect(() => {
+    return startOutboxSync(({ synced, conflicts }) => {
+      if (conflicts.length > 0) {
+        showToast(t('outbox.conflict', { count: conflicts.length, message: conflicts[0].message }), 'error');
+      } else if (synced > 0) {
+        showToast(t('outbox.synced', { count: synced }), 'success');
+      }
+    }, () => {
+      // Entries stay queued and are tried again the next time the browser comes online
+      showToast(t('outbox.replayError'), 'error');
+    });
+  }, [showToast, t]);
+
+  useEffect(() => {
+    return onUndoableFailed((error) => {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('common.undoableFailed'), 'error');
+      }
+    });
+  }, [showToast, t]);
+
   return (
     <div className="app-layout">
-      <Sidebar />
+      <Sidebar showToast={showToast} />
       <main className="main-content">
         {children}
       </main>
+
+      {toast && (
+        <Toast message={toast.message} type={toast.type} action={toast.action} onClose={hideToast} />
+      )}
     </div>
   );
 };
@@ -157,12 +202,52 @@ function App() {
             </PrivateRoute>
           }
         />
+        <Route
+          path="/reports/statement"
+          element={
+            <PrivateRoute>
+              <AppLayout>
+                <StatementPage />
+              </AppLayout>
+            </PrivateRoute>
+          }
+        />
+        <Route
+          path="/search"
+          element={
+            <PrivateRoute>
+              <AppLayout>
+                <SearchPage />
+              </AppLayout>
+            </PrivateRoute>
+          }
+        />
         <Route
           path="/budget"
           element={
             <PrivateRoute>
               <AppLayout>
-                <DashboardPage />
+                <BudgetPage />
+              </AppLayout>
+            </PrivateRoute>
+          }
+        />
+        <Route
+          path="/recurring"
+          element={
+            <PrivateRoute>
+              <AppLayout>
+                <RecurringPage />
+              </AppLayout>
+            </PrivateRoute>
+          }
+        />
+        <Route
+          path="/settings"
+          element={
+            <PrivateRoute>
+              <AppLayout>
+                <SettingsPage />
               </AppLayout>
             </PrivateRoute>
           }
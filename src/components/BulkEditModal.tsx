@@ -0,0 +1,193 @@
+import React, { useState, type FormEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { getWalletTypeIcon } from '../lib/wallets';
+import type { BulkAction } from '../lib/bulkTransactions';
+import type { CategoryDto, TransactionDto, WalletDto } from '../types/dtos';
+
+export type BulkEditKind = 'category' | 'subcategory' | 'wallet' | 'date';
+
+interface BulkEditModalProps {
+  kind: BulkEditKind;
+  transactions: TransactionDto[]; // Selected transactions
+  categories: CategoryDto[];
+  wallets: WalletDto[]; // Move destinations (active wallets in the same currency)
+  isSubmitting: boolean;
+  onSubmit: (action: BulkAction) => void;
+  onCancel: () => void;
+  translateCategoryName: (name: string) => string;
+  translateSubcategoryName: (name: string) => string;
+}
+
+/**
+ * Modal for the value of a bulk action on the selected transactions
+ * Categories are offered for the transaction types in the selection, and
+ * subcategories only when every selected transaction has the same category
+ */
+export const BulkEditModal: React.FC<BulkEditModalProps> = ({
+  kind,
+  transactions,
+  categories,
+  wallets,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+  translateCategoryName,
+  translateSubcategoryName,
+}) => {
+  const { t } = useTranslation();
+
+  const types = new Set(transactions.map(tx => tx.type));
+  const typeCategories = categories.filter(cat => types.has(cat.type));
+  const categoryNames = new Set(transactions.map(tx => tx.category));
+  const sharedCategory = categoryNames.size === 1
+    ? categories.find(cat => cat.name === transactions[0]?.category && types.has(cat.type))
+    : undefined;
+
+  const [categoryId, setCategoryId] = useState<number | ''>('');
+  const [subcategory, setSubcategory] = useState('');
+  const [walletId, setWalletId] = useState<number | ''>(wallets[0]?.id ?? '');
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+
+  const selectedCategory = typeCategories.find(cat => cat.id === categoryId);
+  const subcategories = (kind === 'category' ? selectedCategory : sharedCategory)?.subcategories ?? [];
+
+  // A category only fits transactions of its type
+  const isValid = kind === 'category'
+    ? !!selectedCategory && types.size === 1
+    : kind === 'subcategory'
+      ? !!sharedCategory
+      : kind === 'wallet'
+        ? walletId !== ''
+        : !!date;
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!isValid) {
+      return;
+    }
+
+    switch (kind) {
+      case 'category':
+        if (selectedCategory) {
+          onSubmit({ kind, category: selectedCategory.name, subcategory: subcategory || undefined });
+        }
+        break;
+      case 'subcategory':
+        onSubmit({ kind, subcategory: subcategory || undefined });
+        break;
+      case 'wallet':
+        onSubmit({ kind, walletId: Number(walletId) });
+        break;
+      case 'date':
+        onSubmit({ kind, date });
+        break;
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <h2>{t(`bulk.titles.${kind}`)}</h2>
+        <p className="modal-subtitle">{t('bulk.modalSubtitle', { count: transactions.length })}</p>
+        <form onSubmit={handleSubmit}>
+          {kind === 'category' && (
+            types.size > 1 ? (
+              <p className="settings-hint">{t('bulk.mixedTypes')}</p>
+            ) : (
+              <div className="form-group">
+                <label htmlFor="bulkCategory">{t('transactions.category')}</label>
+                <select
+                  id="bulkCategory"
+                  value={categoryId}
+                  onChange={(e) => {
+                    setCategoryId(e.target.value ? Number(e.target.value) : '');
+                    setSubcategory('');
+                  }}
+                  required
+                >
+                  <option value="">{t('transactions.selectCategory')}</option>
+                  {typeCategories.map(cat => (
+                    <option key={cat.id} value={cat.id}>{translateCategoryName(cat.name)}</option>
+                  ))}
+                </select>
+              </div>
+            )
+          )}
+
+          {kind === 'subcategory' && !sharedCategory && (
+            <p className="settings-hint">{t('bulk.mixedCategories')}</p>
+          )}
+
+          {((kind === 'category' && selectedCategory) || (kind === 'subcategory' && sharedCategory)) && (
+            <div className="form-group">
+              <label htmlFor="bulkSubcategory">{t('transactions.subcategory')}</label>
+              <select
+                id="bulkSubcategory"
+                value={subcategory}
+                onChange={(e) => setSubcategory(e.target.value)}
+              >
+                <option value="">{t('common.none')}</option>
+                {subcategories.map(sub => (
+                  <option key={sub.id} value={sub.name}>{translateSubcategoryName(sub.name)}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {kind === 'wallet' && (
+            wallets.length === 0 ? (
+              <p className="settings-hint">{t('bulk.noOtherWallets')}</p>
+            ) : (
+              <div className="form-group">
+                <label htmlFor="bulkWallet">{t('bulk.toWallet')}</label>
+                <select
+                  id="bulkWallet"
+                  value={walletId}
+                  onChange={(e) => setWalletId(e.target.value ? Number(e.target.value) : '')}
+                >
+                  {wallets.map(w => (
+                    <option key={w.id} value={w.id}>
+                      {getWalletTypeIcon(w.type)} {w.name} ({w.currency})
+                    </option>
+                  ))}
+                </select>
+                <p className="settings-hint">{t('bulk.moveHint')}</p>
+              </div>
+            )
+          )}
+
+          {kind === 'date' && (
+            <div className="form-group">
+              <label htmlFor="bulkDate">{t('transactions.date')}</label>
+              <input
+                type="date"
+                id="bulkDate"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                required
+              />
+            </div>
+          )}
+
+          <div className="modal-actions">
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={onCancel}
+              disabled={isSubmitting}
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              type="submit"
+              className="btn btn-primary"
+              disabled={isSubmitting || !isValid}
+            >
+              {isSubmitting ? t('transactions.saving') : t('bulk.apply', { count: transactions.length })}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
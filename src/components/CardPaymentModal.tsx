@@ -0,0 +1,146 @@
+import React, { useState, type FormEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Dropdown } from './Dropdown';
+import { getWalletTypeIcon } from '../lib/wallets';
+import type { CreateTransferDto, WalletDto } from '../types/dtos';
+
+interface CardPaymentModalProps {
+  card: WalletDto;
+  wallets: WalletDto[];
+  suggestedAmount: number; // Amount still due on the last statement
+  isSubmitting: boolean;
+  onSubmit: (data: CreateTransferDto) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Modal for paying a credit card statement from another wallet
+ * The payment is a transfer, so the debit on the paying wallet and the credit on
+ * the card are linked
+ */
+export const CardPaymentModal: React.FC<CardPaymentModalProps> = ({
+  card,
+  wallets,
+  suggestedAmount,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}) => {
+  const { t } = useTranslation();
+
+  // Active, non-card wallets in the card's currency (no exchange rate needed)
+  const sourceWallets = wallets.filter(w =>
+    w.id !== card.id && !w.archived && w.type !== 'CREDIT_CARD' && w.currency === card.currency
+  );
+
+  // Form state
+  const [fromWalletId, setFromWalletId] = useState<number | ''>(
+    (sourceWallets.find(w => w.type === 'CHECKING') ?? sourceWallets[0])?.id ?? ''
+  );
+  const [amount, setAmount] = useState(suggestedAmount > 0 ? suggestedAmount.toFixed(2) : '');
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+
+    const parsedAmount = parseFloat(amount) || 0;
+    if (!fromWalletId || parsedAmount <= 0) {
+      return;
+    }
+
+    onSubmit({
+      fromWalletId,
+      toWalletId: card.id,
+      amount: parsedAmount,
+      date,
+      description: t('creditCard.paymentDescription', { card: card.name }),
+    });
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <h2>{t('creditCard.payStatement')}</h2>
+        <p className="modal-subtitle">{t('creditCard.payStatementDescription', { card: card.name })}</p>
+
+        {sourceWallets.length === 0 ? (
+          <>
+            <p className="transfer-empty">{t('creditCard.noPaymentWallets', { currency: card.currency })}</p>
+            <div className="modal-actions">
+              <button type="button" className="btn btn-secondary" onClick={onCancel}>
+                {t('common.close')}
+              </button>
+            </div>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <div className="form-group">
+              <label>{t('creditCard.payFrom')} *</label>
+              <Dropdown
+                options={sourceWallets.map(w => ({
+                  value: w.id,
+                  label: w.name,
+                  icon: getWalletTypeIcon(w.type),
+                  badge: w.currency,
+                }))}
+                value={fromWalletId}
+                onChange={(val) => setFromWalletId(val as number)}
+                placeholder={t('transfers.selectWallet')}
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="paymentAmount">
+                  {t('transactions.amount')} ({card.currency}) *
+                </label>
+                <input
+                  type="number"
+                  id="paymentAmount"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder="0.00"
+                  step="0.01"
+                  min="0.01"
+                  disabled={isSubmitting}
+                  required
+                />
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="paymentDate">{t('transactions.date')} *</label>
+                <input
+                  type="date"
+                  id="paymentDate"
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  disabled={isSubmitting}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="modal-actions">
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={onCancel}
+                disabled={isSubmitting}
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                type="submit"
+                className="btn btn-primary"
+                disabled={isSubmitting || !fromWalletId}
+              >
+                {isSubmitting ? t('creditCard.paying') : t('creditCard.pay')}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
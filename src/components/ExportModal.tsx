@@ -0,0 +1,93 @@
+import React, { useState, type FormEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { EXPORT_COLUMNS, EXPORT_FORMATS, type ExportFormat, type ExportOptions } from '../lib/export';
+import type { CsvDelimiter } from '../lib/csvImport';
+
+interface ExportModalProps {
+  description: string; // What is being exported (e.g. the wallet and its filters)
+  isExporting: boolean;
+  onExport: (format: ExportFormat, options: Omit<ExportOptions, 'fileName'>) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Modal for choosing the format of a transaction export
+ * CSV defaults to ';' in Portuguese, the delimiter Excel expects with pt-PT regional settings
+ */
+export const ExportModal: React.FC<ExportModalProps> = ({
+  description,
+  isExporting,
+  onExport,
+  onCancel,
+}) => {
+  const { t, i18n } = useTranslation();
+
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('CSV');
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>(i18n.language === 'pt' ? ';' : ',');
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const headers = Object.fromEntries(
+      EXPORT_COLUMNS.map(column => [column, t(`export.columns.${column}`)])
+    ) as ExportOptions['headers'];
+    onExport(exportFormat, { delimiter, headers });
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <h2>{t('export.title')}</h2>
+        <p className="modal-subtitle">{description}</p>
+        <form onSubmit={handleSubmit}>
+          <div className="form-group">
+            <label htmlFor="exportFormat">{t('export.format')}</label>
+            <select
+              id="exportFormat"
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+              disabled={isExporting}
+            >
+              {EXPORT_FORMATS.map((option) => (
+                <option key={option} value={option}>{t(`export.formats.${option}`)}</option>
+              ))}
+            </select>
+          </div>
+
+          {exportFormat === 'CSV' && (
+            <div className="form-group">
+              <label htmlFor="exportDelimiter">{t('import.delimiter')}</label>
+              <select
+                id="exportDelimiter"
+                value={delimiter}
+                onChange={(e) => setDelimiter(e.target.value as CsvDelimiter)}
+                disabled={isExporting}
+              >
+                <option value=",">{t('import.delimiters.comma')}</option>
+                <option value=";">{t('export.semicolonExcel')}</option>
+                <option value={'\t'}>{t('import.delimiters.tab')}</option>
+              </select>
+            </div>
+          )}
+
+          <div className="modal-actions">
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={onCancel}
+              disabled={isExporting}
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              type="submit"
+              className="btn btn-primary"
+              disabled={isExporting}
+            >
+              {isExporting ? t('export.exporting') : t('export.download')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
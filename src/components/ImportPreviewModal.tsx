@@ -0,0 +1,342 @@
+import React, { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  CSV_DATE_FORMATS,
+  CSV_DELIMITERS,
+  CSV_SIGN_CONVENTIONS,
+  buildCsvRows,
+  getCsvColumns,
+  guessCsvMapping,
+  type CsvDateFormat,
+  type CsvDelimiter,
+  type CsvMapping,
+} from '../lib/csvImport';
+import { findDuplicateRows, type ImportRow } from '../lib/importRows';
+import { guessQifDateFormat, parseCamt053, parseOfx, parseQif, type ImportFormat } from '../lib/statementImport';
+import type { ImportResultDto, TransactionDto } from '../types/dtos';
+
+// i18n keys of the delimiter names
+const DELIMITER_KEYS: Record<CsvDelimiter, string> = {
+  ',': 'comma',
+  ';': 'semicolon',
+  '\t': 'tab',
+};
+
+interface ImportPreviewModalProps {
+  fileName: string;
+  format: ImportFormat;
+  fileText: string;
+  currency: string;
+  existingTransactions: TransactionDto[]; // Wallet transactions used to flag duplicates
+  isSubmitting: boolean;
+  result: ImportResultDto | null; // Set once the import finished with errors
+  onSubmit: (rows: ImportRow[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Preview of a bank file import (CSV, OFX, QIF or CAMT.053)
+ * For CSV the column mapping, delimiter and date format can be adjusted while watching
+ * the parsed rows; likely duplicates and unreadable rows start unticked, and rows
+ * whose bank ID was already imported can't be ticked
+ */
+export const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({
+  fileName,
+  format,
+  fileText,
+  currency,
+  existingTransactions,
+  isSubmitting,
+  result,
+  onSubmit,
+  onCancel,
+}) => {
+  const { t, i18n } = useTranslation();
+
+  // Only CSV needs a column mapping; QIF only needs the order of the date parts
+  const [mapping, setMapping] = useState<CsvMapping | null>(() => (format === 'CSV' ? guessCsvMapping(fileText) : null));
+  const [qifDateFormat, setQifDateFormat] = useState<CsvDateFormat>(() => (format === 'QIF' ? guessQifDateFormat(fileText) : 'MDY'));
+  // Rows ticked or unticked by hand (by line) - the rest follow the defaults
+  const [selectionOverrides, setSelectionOverrides] = useState<Record<number, boolean>>({});
+
+  const columns = useMemo(
+    () => (mapping ? getCsvColumns(fileText, mapping, (index) => t('import.column', { index })) : []),
+    [fileText, mapping, t]
+  );
+  const rows = useMemo(() => {
+    switch (format) {
+      case 'OFX': return parseOfx(fileText);
+      case 'QIF': return parseQif(fileText, qifDateFormat);
+      case 'CAMT053': return parseCamt053(fileText);
+      default: return mapping ? buildCsvRows(fileText, mapping) : [];
+    }
+  }, [format, fileText, mapping, qifDateFormat]);
+  const duplicates = useMemo(() => findDuplicateRows(rows, existingTransactions), [rows, existingTransactions]);
+
+  // Rows already imported (same bank ID) would be skipped by the server anyway
+  const isSelectable = (row: ImportRow): boolean => !row.error && duplicates.get(row.line) !== 'IMPORTED';
+  const isSelected = (row: ImportRow): boolean => {
+    if (!isSelectable(row)) {
+      return false;
+    }
+    return selectionOverrides[row.line] ?? !duplicates.has(row.line);
+  };
+  const selectedRows = rows.filter(isSelected);
+  const selectableCount = rows.filter(isSelectable).length;
+  const errorCount = rows.filter(row => row.error).length;
+
+  // A different mapping reads different rows, so hand-picked selections no longer apply
+  const updateMapping = (changes: Partial<CsvMapping>) => {
+    setMapping(current => current && { ...current, ...changes });
+    setSelectionOverrides({});
+  };
+
+  const updateQifDateFormat = (dateFormat: CsvDateFormat) => {
+    setQifDateFormat(dateFormat);
+    setSelectionOverrides({});
+  };
+
+  const toggleRow = (row: ImportRow) => {
+    setSelectionOverrides(current => ({ ...current, [row.line]: !isSelected(row) }));
+  };
+
+  const toggleAll = () => {
+    const selectAll = selectedRows.length < selectableCount;
+    setSelectionOverrides(Object.fromEntries(rows.map(row => [row.line, selectAll])));
+  };
+
+  const formatCurrency = (value: number): string => {
+    const locale = i18n.language === 'pt' ? 'pt-PT' : 'en-GB';
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency,
+    }).format(value);
+  };
+
+  const renderColumnSelect = (id: string, label: string, value: number, field: keyof CsvMapping, optional = false) => (
+    <div className="form-group">
+      <label htmlFor={id}>{label}</label>
+      <select
+        id={id}
+        value={value}
+        onChange={(e) => updateMapping({ [field]: parseInt(e.target.value, 10) })}
+        disabled={isSubmitting}
+      >
+        {(optional || value === -1) && <option value={-1}>{t('import.notMapped')}</option>}
+        {columns.map((name, index) => (
+          <option key={index} value={index}>{name}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  if (result) {
+    return (
+      <div className="modal-overlay" onClick={onCancel}>
+        <div className="modal import-preview-modal" onClick={(e) => e.stopPropagation()}>
+          <h2>{t('import.resultTitle')}</h2>
+          <p className="modal-subtitle">
+            {t('transactions.importSuccess', { created: result.created, skipped: result.skipped })}
+          </p>
+          {result.errors && result.errors.length > 0 && (
+            <ul className="import-errors">
+              {result.errors.map((error, index) => (
+                <li key={index}>{error}</li>
+              ))}
+            </ul>
+          )}
+          <div className="modal-actions">
+            <button type="button" className="btn btn-primary" onClick={onCancel}>
+              {t('common.close')}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+      <div className="modal import-preview-modal" onClick={(e) => e.stopPropagation()}>
+        <h2>{t('import.previewTitle')}</h2>
+        <p className="modal-subtitle">{t('import.previewDescription', { file: fileName })}</p>
+
+        {mapping && (
+          <>
+            <div className="import-mapping">
+              <div className="form-group">
+                <label htmlFor="importDelimiter">{t('import.delimiter')}</label>
+                <select
+                  id="importDelimiter"
+                  value={mapping.delimiter}
+                  onChange={(e) => updateMapping(guessCsvMapping(fileText, e.target.value as CsvDelimiter))}
+                  disabled={isSubmitting}
+                >
+                  {CSV_DELIMITERS.map((delimiter) => (
+                    <option key={delimiter} value={delimiter}>{t(`import.delimiters.${DELIMITER_KEYS[delimiter]}`)}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-group">
+                <label htmlFor="importDateFormat">{t('import.dateFormat')}</label>
+                <select
+                  id="importDateFormat"
+                  value={mapping.dateFormat}
+                  onChange={(e) => updateMapping({ dateFormat: e.target.value as CsvDateFormat })}
+                  disabled={isSubmitting}
+                >
+                  {CSV_DATE_FORMATS.map((dateFormat) => (
+                    <option key={dateFormat} value={dateFormat}>{t(`import.dateFormats.${dateFormat}`)}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-group">
+                <label htmlFor="importSign">{t('import.signConvention')}</label>
+                <select
+                  id="importSign"
+                  value={mapping.signConvention}
+                  onChange={(e) => updateMapping({ signConvention: e.target.value as CsvMapping['signConvention'] })}
+                  disabled={isSubmitting}
+                >
+                  {CSV_SIGN_CONVENTIONS.map((convention) => (
+                    <option key={convention} value={convention}>{t(`import.signConventions.${convention}`)}</option>
+                  ))}
+                </select>
+              </div>
+              <label className="import-header-toggle">
+                <input
+                  type="checkbox"
+                  checked={mapping.hasHeader}
+                  onChange={(e) => updateMapping({ hasHeader: e.target.checked })}
+                  disabled={isSubmitting}
+                />
+                {t('import.hasHeader')}
+              </label>
+            </div>
+
+            <div className="import-mapping">
+              {renderColumnSelect('importDateColumn', t('transactions.date'), mapping.dateColumn, 'dateColumn')}
+              {renderColumnSelect(
+                'importAmountColumn',
+                mapping.signConvention === 'SEPARATE_COLUMNS' ? t('import.debitColumn') : t('transactions.amount'),
+                mapping.amountColumn,
+                'amountColumn'
+              )}
+              {mapping.signConvention === 'SEPARATE_COLUMNS' &&
+                renderColumnSelect('importCreditColumn', t('import.creditColumn'), mapping.creditColumn, 'creditColumn')}
+              {renderColumnSelect('importDescriptionColumn', t('transactions.description'), mapping.descriptionColumn, 'descriptionColumn', true)}
+              {renderColumnSelect('importCategoryColumn', t('transactions.category'), mapping.categoryColumn, 'categoryColumn', true)}
+            </div>
+          </>
+        )}
+
+        {format === 'QIF' && (
+          <div className="import-mapping">
+            <div className="form-group">
+              <label htmlFor="importQifDateFormat">{t('import.dateFormat')}</label>
+              <select
+                id="importQifDateFormat"
+                value={qifDateFormat}
+                onChange={(e) => updateQifDateFormat(e.target.value as CsvDateFormat)}
+                disabled={isSubmitting}
+              >
+                {CSV_DATE_FORMATS.map((dateFormat) => (
+                  <option key={dateFormat} value={dateFormat}>{t(`import.dateFormats.${dateFormat}`)}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+
+        <div className="import-summary">
+          <span>{t('import.selectedCount', { selected: selectedRows.length, total: rows.length })}</span>
+          {duplicates.size > 0 && (
+            <span className="import-summary-duplicates">{t('import.duplicateCount', { count: duplicates.size })}</span>
+          )}
+          {errorCount > 0 && (
+            <span className="import-summary-errors">{t('import.errorCount', { count: errorCount })}</span>
+          )}
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="transfer-empty">{t('import.noRows')}</p>
+        ) : (
+          <div className="import-preview-table-wrapper">
+            <table className="import-preview-table">
+              <thead>
+                <tr>
+                  <th>
+                    <input
+                      type="checkbox"
+                      checked={selectedRows.length > 0 && selectedRows.length === selectableCount}
+                      onChange={toggleAll}
+                      disabled={isSubmitting}
+                      aria-label={t('import.selectAll')}
+                    />
+                  </th>
+                  <th>{t('import.line')}</th>
+                  <th>{t('transactions.date')}</th>
+                  <th>{t('transactions.description')}</th>
+                  <th>{t('transactions.category')}</th>
+                  <th className="import-amount-cell">{t('transactions.amount')}</th>
+                  <th>{t('import.status')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr
+                    key={row.line}
+                    className={row.error ? 'error' : duplicates.has(row.line) ? 'duplicate' : ''}
+                  >
+                    <td>
+                      <input
+                        type="checkbox"
+                        checked={isSelected(row)}
+                        onChange={() => toggleRow(row)}
+                        disabled={isSubmitting || !isSelectable(row)}
+                      />
+                    </td>
+                    <td className="import-line-cell">{row.line}</td>
+                    <td>{row.date}</td>
+                    <td>{row.description}</td>
+                    <td>{row.category || <span className="import-auto-category">{t('import.autoCategory')}</span>}</td>
+                    <td className={`import-amount-cell ${row.type.toLowerCase()}`}>
+                      {!row.error && `${row.type === 'CREDIT' ? '+' : '-'}${formatCurrency(row.amount)}`}
+                    </td>
+                    <td>
+                      {row.error ? (
+                        <span className="import-status error">{t(row.error)}</span>
+                      ) : duplicates.get(row.line) === 'IMPORTED' ? (
+                        <span className="import-status duplicate">{t('import.alreadyImported')}</span>
+                      ) : duplicates.has(row.line) ? (
+                        <span className="import-status duplicate">{t('import.possibleDuplicate')}</span>
+                      ) : (
+                        <span className="import-status new">{t('import.new')}</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="modal-actions">
+          <button type="button" className="btn btn-secondary" onClick={onCancel} disabled={isSubmitting}>
+            {t('common.cancel')}
+          </button>
+          <button
+            type="button"
+            className="btn btn-primary"
+            onClick={() => onSubmit(selectedRows)}
+            disabled={isSubmitting || selectedRows.length === 0}
+          >
+            {isSubmitting
+              ? t('transactions.importing')
+              : t('import.importSelected', { count: selectedRows.length })}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { useCurrency } from '../context/CurrencyContext';
+
+interface MissingRatesNoticeProps {
+  currencies: string[];
+}
+
+/**
+ * Warning shown when amounts in some currencies can't be converted to the base currency
+ * (and are therefore left out of the totals on the page)
+ */
+export const MissingRatesNotice: React.FC<MissingRatesNoticeProps> = ({ currencies }) => {
+  const { t } = useTranslation();
+  const { baseCurrency } = useCurrency();
+
+  if (currencies.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="missing-rates-notice">
+      <span className="missing-rates-icon">⚠️</span>
+      <span>
+        {t('settings.missingRates', { currencies: [...currencies].sort().join(', '), base: baseCurrency })}
+      </span>
+      <Link to="/settings" className="section-link">{t('settings.addRates')} →</Link>
+    </div>
+  );
+};
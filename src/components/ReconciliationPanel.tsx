@@ -0,0 +1,152 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import type { TransactionDto, WalletDto } from '../types/dtos';
+
+interface ReconciliationPanelProps {
+  wallet: WalletDto;
+  statementDate: string;
+  endingBalance: string;
+  transactions: TransactionDto[]; // Every transaction of the wallet up to the statement date
+  isLoading: boolean;
+  isFinishing: boolean;
+  updatingIds: number[]; // Transactions whose cleared status is being saved
+  onStatementDateChange: (date: string) => void;
+  onEndingBalanceChange: (balance: string) => void;
+  onToggleCleared: (transaction: TransactionDto) => void;
+  onFinish: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Reconciliation against a bank statement
+ * Transactions are ticked off as cleared until the cleared balance matches the
+ * statement's ending balance; finishing locks them as reconciled
+ */
+export const ReconciliationPanel: React.FC<ReconciliationPanelProps> = ({
+  wallet,
+  statementDate,
+  endingBalance,
+  transactions,
+  isLoading,
+  isFinishing,
+  updatingIds,
+  onStatementDateChange,
+  onEndingBalanceChange,
+  onToggleCleared,
+  onFinish,
+  onCancel,
+}) => {
+  const { t, i18n } = useTranslation();
+
+  // Reconciled transactions count towards the balance but can't be unticked
+  const openTransactions = transactions.filter(tx => tx.status !== 'RECONCILED');
+  const clearedTransactions = transactions.filter(tx => tx.status === 'CLEARED' || tx.status === 'RECONCILED');
+
+  const clearedBalance = clearedTransactions.reduce((balance, tx) => {
+    const amount = Number(tx.amount) || 0;
+    return tx.type === 'CREDIT' ? balance + amount : balance - amount;
+  }, Number(wallet.openingBalance) || 0);
+  const parsedEndingBalance = parseFloat(endingBalance);
+  const difference = (Number.isNaN(parsedEndingBalance) ? 0 : parsedEndingBalance) - clearedBalance;
+  // Compare in cents to avoid floating point noise
+  const isBalanced = endingBalance !== '' && Math.round(difference * 100) === 0;
+
+  const formatCurrency = (value: number): string => {
+    const locale = i18n.language === 'pt' ? 'pt-PT' : 'en-GB';
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: wallet.currency,
+    }).format(value);
+  };
+
+  return (
+    <div className="reconcile-panel">
+      <div className="reconcile-header">
+        <div>
+          <h3>🧾 {t('reconcile.title')}</h3>
+          <p className="quick-tool-description">{t('reconcile.description')}</p>
+        </div>
+        <button type="button" className="btn btn-secondary btn-sm" onClick={onCancel} disabled={isFinishing}>
+          {t('reconcile.exit')}
+        </button>
+      </div>
+
+      <div className="form-row">
+        <div className="form-group">
+          <label htmlFor="reconcileDate">{t('reconcile.statementDate')}</label>
+          <input
+            type="date"
+            id="reconcileDate"
+            value={statementDate}
+            onChange={(e) => e.target.value && onStatementDateChange(e.target.value)}
+            disabled={isFinishing}
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor="reconcileBalance">{t('reconcile.endingBalance')} ({wallet.currency})</label>
+          <input
+            type="number"
+            id="reconcileBalance"
+            value={endingBalance}
+            onChange={(e) => onEndingBalanceChange(e.target.value)}
+            placeholder="0.00"
+            step="0.01"
+            disabled={isFinishing}
+          />
+        </div>
+      </div>
+
+      <div className="reconcile-totals">
+        <div className="reconcile-total">
+          <span className="reconcile-total-label">{t('reconcile.clearedBalance')}</span>
+          <span className="reconcile-total-value">{formatCurrency(clearedBalance)}</span>
+        </div>
+        <div className={`reconcile-total ${isBalanced ? 'balanced' : 'unbalanced'}`}>
+          <span className="reconcile-total-label">{t('reconcile.difference')}</span>
+          <span className="reconcile-total-value">{formatCurrency(difference)}</span>
+        </div>
+        <button
+          type="button"
+          className="btn btn-primary"
+          onClick={onFinish}
+          disabled={!isBalanced || isFinishing}
+          title={isBalanced ? undefined : t('reconcile.notBalanced')}
+        >
+          {isFinishing ? t('reconcile.finishing') : t('reconcile.finish')}
+        </button>
+      </div>
+
+      {isLoading ? (
+        <p className="reconcile-empty">{t('common.loading')}</p>
+      ) : openTransactions.length === 0 ? (
+        <p className="reconcile-empty">{t('reconcile.noOpenTransactions')}</p>
+      ) : (
+        <ul className="reconcile-list">
+          {openTransactions.map((tx) => (
+            <li key={tx.id} className={`reconcile-item ${tx.status === 'CLEARED' ? 'cleared' : ''}`}>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={tx.status === 'CLEARED'}
+                  onChange={() => onToggleCleared(tx)}
+                  disabled={isFinishing || updatingIds.includes(tx.id)}
+                />
+                <span className="reconcile-item-date">{tx.date}</span>
+                <span className="reconcile-item-description">{tx.description || tx.category}</span>
+                <span className={`reconcile-item-amount ${tx.type.toLowerCase()}`}>
+                  {tx.type === 'CREDIT' ? '+' : '-'}{formatCurrency(Number(tx.amount) || 0)}
+                </span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {transactions.length > openTransactions.length && (
+        <p className="reconcile-empty">
+          {t('reconcile.alreadyReconciled', { count: transactions.length - openTransactions.length })}
+        </p>
+      )}
+    </div>
+  );
+};
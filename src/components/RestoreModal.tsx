@@ -0,0 +1,112 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { getRestoreStepCount, type RestorePlan } from '../lib/backup';
+
+interface RestoreModalProps {
+  plan: RestorePlan;
+  isRestoring: boolean;
+  progress: number; // Create requests done so far
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Modal summarising what restoring a backup will create before it runs
+ * Entities that already exist in the account are listed as skipped
+ */
+export const RestoreModal: React.FC<RestoreModalProps> = ({
+  plan,
+  isRestoring,
+  progress,
+  onConfirm,
+  onCancel,
+}) => {
+  const { t } = useTranslation();
+
+  const { backup } = plan;
+  const stepCount = getRestoreStepCount(plan);
+  const backupSubcategories = backup.categories.reduce((count, category) => count + category.subcategories.length, 0);
+
+  const rows = [
+    { key: 'categories', created: plan.newCategories.length, existing: backup.categories.length - plan.newCategories.length },
+    { key: 'subcategories', created: plan.newSubcategories.length, existing: backupSubcategories - plan.newSubcategories.length },
+    { key: 'wallets', created: plan.newWallets.length, existing: plan.existingWalletIds.size },
+    { key: 'transactions', created: plan.newTransactions.length, existing: plan.skippedTransactions },
+    { key: 'transfers', created: plan.newTransfers.length, existing: plan.skippedTransfers },
+  ];
+
+  return (
+    <div className="modal-overlay" onClick={isRestoring ? undefined : onCancel}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <h2>{t('backup.restoreTitle')}</h2>
+        <p className="modal-subtitle">
+          {t('backup.restoreSubtitle', {
+            username: backup.profile.username,
+            date: format(new Date(backup.exportedAt), 'dd/MM/yyyy HH:mm'),
+          })}
+        </p>
+
+        <table className="restore-summary">
+          <thead>
+            <tr>
+              <th></th>
+              <th>{t('backup.toCreate')}</th>
+              <th>{t('backup.alreadyExist')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ key, created, existing }) => (
+              <tr key={key}>
+                <td>{t(`backup.entities.${key}`)}</td>
+                <td className={created > 0 ? 'restore-summary-new' : ''}>{created}</td>
+                <td>{existing}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {plan.newWallets.length > 0 && (
+          <p className="settings-hint">
+            {t('backup.newWallets', { names: plan.newWallets.map(wallet => wallet.name).join(', ') })}
+          </p>
+        )}
+        {stepCount === 0 ? (
+          <p className="settings-hint">{t('backup.nothingToRestore')}</p>
+        ) : (
+          <p className="settings-hint">{t('backup.restoreHint')}</p>
+        )}
+
+        {isRestoring && (
+          <div className="restore-progress">
+            <div
+              className="restore-progress-bar"
+              style={{ width: `${stepCount > 0 ? (progress / stepCount) * 100 : 100}%` }}
+            />
+          </div>
+        )}
+
+        <div className="modal-actions">
+          <button
+            type="button"
+            className="btn btn-secondary"
+            onClick={onCancel}
+            disabled={isRestoring}
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            type="button"
+            className="btn btn-primary"
+            onClick={onConfirm}
+            disabled={isRestoring || stepCount === 0}
+          >
+            {isRestoring
+              ? t('backup.restoring', { done: progress, total: stepCount })
+              : t('backup.restore')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React, { useState, type FormEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+
+interface SaveViewModalProps {
+  defaultName: string; // Suggested from the page and its filters
+  onSave: (name: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Modal for naming the current filters as a view pinned in the sidebar
+ */
+export const SaveViewModal: React.FC<SaveViewModalProps> = ({
+  defaultName,
+  onSave,
+  onCancel,
+}) => {
+  const { t } = useTranslation();
+  const [name, setName] = useState(defaultName);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (name.trim()) {
+      onSave(name.trim());
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <h2>{t('savedViews.title')}</h2>
+        <p className="modal-subtitle">{t('savedViews.description')}</p>
+        <form onSubmit={handleSubmit}>
+          <div className="form-group">
+            <label htmlFor="savedViewName">{t('savedViews.name')}</label>
+            <input
+              type="text"
+              id="savedViewName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t('savedViews.namePlaceholder')}
+              maxLength={60}
+              autoFocus
+              required
+            />
+          </div>
+
+          <div className="modal-actions">
+            <button type="button" className="btn btn-secondary" onClick={onCancel}>
+              {t('common.cancel')}
+            </button>
+            <button type="submit" className="btn btn-primary" disabled={!name.trim()}>
+              {t('common.save')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
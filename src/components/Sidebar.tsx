@@ -1,19 +1,89 @@
-import React, { useState } from 'react';
-import { NavLink, useNavigate } from 'react-router-dom';
+import React, { useState, useEffect } from 'react';
+import { Link, NavLink, useLocation, useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '../context/AuthContext';
+import { getLastSyncedAt, onSyncStatusChange } from '../lib/api';
+import { loadSavedViews, onSavedViewsChange, removeSavedView, type SavedView } from '../lib/savedViews';
+import { scheduleUndoable } from '../lib/undo';
 import { LanguageSelector } from './LanguageSelector';
+import type { ShowToast } from './Toast';
 import logoImg from '../assets/logo_finance_control.png';
 
+interface SidebarProps {
+  showToast: ShowToast; // Toast of the layout (e.g. to undo removing a saved view)
+}
+
 /**
  * Sidebar Component
  * Modern sidebar navigation with mobile hamburger menu
  */
-export const Sidebar: React.FC = () => {
+export const Sidebar: React.FC<SidebarProps> = ({ showToast }) => {
   const { currentUser, logout } = useAuth();
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const navigate = useNavigate();
+  const location = useLocation();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [lastSyncedAt, setLastSyncedAt] = useState<Date | null>(getLastSyncedAt);
+  const [savedViews, setSavedViews] = useState<SavedView[]>(() => loadSavedViews(currentUser));
+  // Views hidden while their removal can still be undone
+  const [removingViewIds, setRemovingViewIds] = useState<string[]>([]);
+
+  // Track connectivity and the last time data came from the server
+  useEffect(() => {
+    const updateOnlineStatus = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateOnlineStatus);
+    window.addEventListener('offline', updateOnlineStatus);
+    const unsubscribe = onSyncStatusChange(() => setLastSyncedAt(getLastSyncedAt()));
+
+    return () => {
+      window.removeEventListener('online', updateOnlineStatus);
+      window.removeEventListener('offline', updateOnlineStatus);
+      unsubscribe();
+    };
+  }, []);
+
+  // Saved views change when a page saves one
+  useEffect(() => {
+    return onSavedViewsChange(() => setSavedViews(loadSavedViews(currentUser)));
+  }, [currentUser]);
+
+  /**
+   * Remove a saved view
+   * The view leaves the sidebar right away and is removed once the undo window has passed
+   */
+  const handleRemoveView = (view: SavedView) => {
+    const showView = () => {
+      setRemovingViewIds(prev => prev.filter(id => id !== view.id));
+    };
+
+    const cancelRemove = scheduleUndoable({
+      commit: async () => {
+        removeSavedView(currentUser, view.id);
+        showView();
+      },
+    });
+
+    setRemovingViewIds(prev => [...prev, view.id]);
+    showToast(t('savedViews.removed', { name: view.name }), 'success', {
+      label: t('common.undo'),
+      onClick: () => {
+        if (cancelRemove()) {
+          showView();
+        }
+      },
+    });
+  };
+
+  const formatSyncTime = (date: Date): string => {
+    const locale = i18n.language === 'pt' ? 'pt-PT' : 'en-GB';
+    return date.toLocaleString(locale, {
+      day: '2-digit',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
 
   const handleLogout = (): void => {
     logout();
@@ -97,6 +167,14 @@ export const Sidebar: React.FC = () => {
               <span className="nav-icon">🏷️</span>
               <span className="nav-label">{t('sidebar.categories')}</span>
             </NavLink>
+            <NavLink 
+              to="/recurring" 
+              className={({ isActive }) => `nav-item ${isActive ? 'active' : ''}`}
+              onClick={closeMobileMenu}
+            >
+              <span className="nav-icon">🔁</span>
+              <span className="nav-label">{t('sidebar.recurring')}</span>
+            </NavLink>
           </div>
 
           <div className="nav-section">
@@ -109,6 +187,14 @@ export const Sidebar: React.FC = () => {
               <span className="nav-icon">📈</span>
               <span className="nav-label">{t('sidebar.reports')}</span>
             </NavLink>
+            <NavLink 
+              to="/search" 
+              className={({ isActive }) => `nav-item ${isActive ? 'active' : ''}`}
+              onClick={closeMobileMenu}
+            >
+              <span className="nav-icon">🔍</span>
+              <span className="nav-label">{t('sidebar.search')}</span>
+            </NavLink>
             <NavLink 
               to="/budget" 
               className={({ isActive }) => `nav-item ${isActive ? 'active' : ''}`}
@@ -117,9 +203,59 @@ export const Sidebar: React.FC = () => {
               <span className="nav-icon">🎯</span>
               <span className="nav-label">{t('sidebar.budget')}</span>
             </NavLink>
+            {/* Saved views - only the exact address (filters included) shows as active */}
+            {savedViews.filter(view => !removingViewIds.includes(view.id)).map(view => (
+              <div key={view.id} className="nav-saved-view">
+                <Link
+                  to={view.path}
+                  className={`nav-item ${`${location.pathname}${location.search}` === view.path ? 'active' : ''}`}
+                  onClick={closeMobileMenu}
+                  title={view.name}
+                >
+                  <span className="nav-icon">📌</span>
+                  <span className="nav-label">{view.name}</span>
+                </Link>
+                <button
+                  type="button"
+                  className="nav-saved-view-remove"
+                  onClick={() => handleRemoveView(view)}
+                  title={t('savedViews.remove')}
+                  aria-label={t('savedViews.remove')}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="nav-section">
+            <span className="nav-section-title">{t('sidebar.preferences')}</span>
+            <NavLink 
+              to="/settings" 
+              className={({ isActive }) => `nav-item ${isActive ? 'active' : ''}`}
+              onClick={closeMobileMenu}
+            >
+              <span className="nav-icon">⚙️</span>
+              <span className="nav-label">{t('sidebar.settings')}</span>
+            </NavLink>
           </div>
         </nav>
 
+        {/* Connection status */}
+        <div className={`sidebar-sync-status ${isOnline ? 'online' : 'offline'}`}>
+          <span className="sync-status-dot"></span>
+          <div className="sync-status-details">
+            <span className="sync-status-label">
+              {isOnline ? t('sync.online') : t('sync.offline')}
+            </span>
+            <span className="sync-status-time">
+              {lastSyncedAt
+                ? t('sync.lastSynced', { time: formatSyncTime(lastSyncedAt) })
+                : t('sync.neverSynced')}
+            </span>
+          </div>
+        </div>
+
         {/* Language Selector */}
         <div className="sidebar-language">
           <LanguageSelector />
@@ -0,0 +1,117 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { getUnassignedAmount, type SplitLineInput } from '../lib/splits';
+import type { CategoryDto, SubcategoryDto } from '../types/dtos';
+
+interface SplitLinesEditorProps {
+  lines: SplitLineInput[];
+  onChange: (lines: SplitLineInput[]) => void;
+  categories: CategoryDto[]; // Categories of the transaction's type
+  total: number; // Transaction amount the lines must add up to
+  disabled?: boolean;
+  translateCategoryName: (category: CategoryDto) => string;
+  translateSubcategoryName: (subcategory: SubcategoryDto, category: CategoryDto) => string;
+}
+
+/**
+ * Editor for the category lines of a split transaction
+ * Shows how much of the total is still unassigned, and new lines start with that amount
+ */
+export const SplitLinesEditor: React.FC<SplitLinesEditorProps> = ({
+  lines,
+  onChange,
+  categories,
+  total,
+  disabled = false,
+  translateCategoryName,
+  translateSubcategoryName,
+}) => {
+  const { t } = useTranslation();
+
+  const unassigned = getUnassignedAmount(total, lines);
+
+  const updateLine = (index: number, changes: Partial<SplitLineInput>) => {
+    onChange(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const addLine = () => {
+    onChange([...lines, { categoryId: '', subcategoryId: '', amount: unassigned > 0 ? unassigned.toFixed(2) : '' }]);
+  };
+
+  const removeLine = (index: number) => {
+    onChange(lines.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="form-group split-editor">
+      <label>{t('splits.lines')} *</label>
+
+      {lines.map((line, index) => {
+        const category = categories.find(cat => cat.id === line.categoryId);
+        const subcategories = category?.subcategories || [];
+
+        return (
+          <div className="split-line" key={index}>
+            <select
+              value={line.categoryId}
+              onChange={(e) => updateLine(index, {
+                categoryId: e.target.value ? Number(e.target.value) : '',
+                subcategoryId: '',
+              })}
+              aria-label={t('transactions.category')}
+              disabled={disabled}
+            >
+              <option value="">{t('transactions.selectCategory')}</option>
+              {categories.map(cat => (
+                <option key={cat.id} value={cat.id}>{translateCategoryName(cat)}</option>
+              ))}
+            </select>
+            <select
+              value={line.subcategoryId}
+              onChange={(e) => updateLine(index, { subcategoryId: e.target.value ? Number(e.target.value) : '' })}
+              aria-label={t('transactions.subcategory')}
+              disabled={disabled || subcategories.length === 0}
+            >
+              <option value="">{t('common.none')}</option>
+              {category && subcategories.map(sub => (
+                <option key={sub.id} value={sub.id}>{translateSubcategoryName(sub, category)}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              value={line.amount}
+              onChange={(e) => updateLine(index, { amount: e.target.value })}
+              placeholder="0.00"
+              step="0.01"
+              min="0.01"
+              aria-label={t('transactions.amount')}
+              disabled={disabled}
+            />
+            <button
+              type="button"
+              className="split-line-remove"
+              onClick={() => removeLine(index)}
+              disabled={disabled || lines.length <= 2}
+              title={t('splits.removeLine')}
+            >
+              ×
+            </button>
+          </div>
+        );
+      })}
+
+      <div className="split-editor-footer">
+        <button type="button" className="btn btn-secondary btn-sm" onClick={addLine} disabled={disabled}>
+          + {t('splits.addLine')}
+        </button>
+        <span className={`split-editor-remaining ${unassigned === 0 ? 'balanced' : 'unbalanced'}`}>
+          {unassigned === 0
+            ? t('splits.balanced')
+            : unassigned > 0
+              ? t('splits.unassigned', { amount: unassigned.toFixed(2) })
+              : t('splits.overAssigned', { amount: (-unassigned).toFixed(2) })}
+        </span>
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,13 @@
 import React, { useState, useEffect, useCallback } from 'react';
+import { UNDO_WINDOW } from '../lib/undo';
+
+/**
+ * Button shown in a toast (e.g. "Undo"), with a countdown of the time left to use it
+ */
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
 
 /**
  * Toast Component Props
@@ -7,7 +16,8 @@ interface ToastProps {
   message: string;
   type: 'success' | 'error' | 'info';
   onClose: () => void;
-  duration?: number; // Duration in milliseconds (default: 3000)
+  action?: ToastAction;
+  duration?: number; // Duration in milliseconds (default: 3000, or the undo window with an action)
 }
 
 /**
@@ -18,16 +28,33 @@ export const Toast: React.FC<ToastProps> = ({
   message,
   type,
   onClose,
-  duration = 3000,
+  action,
+  duration = action ? UNDO_WINDOW : 3000,
 }) => {
-  // Auto-dismiss the toast after the duration
+  // Seconds left to use the action, restarted when a new action replaces it
+  const [countdown, setCountdown] = useState({ action, secondsLeft: Math.ceil(duration / 1000) });
+  if (countdown.action !== action) {
+    setCountdown({ action, secondsLeft: Math.ceil(duration / 1000) });
+  }
+
+  // Auto-dismiss the toast after the duration (restarted for a new message or action)
   useEffect(() => {
     const timer = setTimeout(() => {
       onClose();
     }, duration);
 
     return () => clearTimeout(timer);
-  }, [duration, onClose]);
+  }, [duration, onClose, message, action]);
+
+  useEffect(() => {
+    if (!action) return;
+
+    const interval = setInterval(() => {
+      setCountdown(prev => ({ ...prev, secondsLeft: Math.max(prev.secondsLeft - 1, 0) }));
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [action]);
 
   // Determine background color based on type
   const getBackgroundColor = (): string => {
@@ -51,6 +78,18 @@ export const Toast: React.FC<ToastProps> = ({
       }}
     >
       <span className="toast-message">{message}</span>
+      {action && (
+        <button
+          className="toast-action"
+          onClick={() => {
+            action.onClick();
+            onClose();
+          }}
+        >
+          {action.label}
+          <span className="toast-countdown">{countdown.secondsLeft}</span>
+        </button>
+      )}
       <button className="toast-close" onClick={onClose}>
         ×
       </button>
@@ -64,22 +103,24 @@ export const Toast: React.FC<ToastProps> = ({
 interface ToastState {
   message: string;
   type: 'success' | 'error' | 'info';
+  action?: ToastAction;
 }
 
+/**
+ * Function that shows a toast (for components that use another component's toast)
+ */
+export type ShowToast = (message: string, type: 'success' | 'error' | 'info', action?: ToastAction) => void;
+
 /**
  * Custom hook for managing toast notifications
  * Returns: [toast state, show toast function, hide toast function]
  */
-export const useToast = (): [
-  ToastState | null,
-  (message: string, type: 'success' | 'error' | 'info') => void,
-  () => void
-] => {
+export const useToast = (): [ToastState | null, ShowToast, () => void] => {
   const [toast, setToast] = useState<ToastState | null>(null);
 
   const showToast = useCallback(
-    (message: string, type: 'success' | 'error' | 'info') => {
-      setToast({ message, type });
+    (message: string, type: 'success' | 'error' | 'info', action?: ToastAction) => {
+      setToast({ message, type, action });
     },
     []
   );
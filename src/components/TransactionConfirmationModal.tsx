@@ -1,6 +1,8 @@
 import React, { useState, useMemo, type FormEvent } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Dropdown, type DropdownOption } from './Dropdown';
+import { SplitLinesEditor } from './SplitLinesEditor';
+import { buildSplits, type SplitLineInput } from '../lib/splits';
 import type { TransactionDraftDto, TransactionType, CategoryDto, SubcategoryDto } from '../types/dtos';
 
 // Mapeamento de nomes de categorias padrão para chaves de tradução
@@ -189,6 +191,10 @@ export const TransactionConfirmationModal: React.FC<TransactionConfirmationModal
   );
   const [subcategoryId, setSubcategoryId] = useState<number | ''>(initialSubcategoryId);
 
+  // Category lines when the draft is split (null for a single category)
+  const [splitLines, setSplitLines] = useState<SplitLineInput[] | null>(null);
+  const [splitError, setSplitError] = useState<string | null>(null);
+
   // Filter categories by type
   const filteredCategories = useMemo(
     () => categories.filter(cat => cat.type === type),
@@ -202,6 +208,9 @@ export const TransactionConfirmationModal: React.FC<TransactionConfirmationModal
   // Handle type change - reset category and subcategory
   const handleTypeChange = (newType: TransactionType) => {
     setType(newType);
+    if (splitLines) {
+      setSplitLines(splitLines.map(line => ({ ...line, categoryId: '', subcategoryId: '' })));
+    }
     const newFilteredCategories = categories.filter(cat => cat.type === newType);
     if (newFilteredCategories.length > 0) {
       const newCategoryId = newFilteredCategories[0].id;
@@ -229,9 +238,46 @@ export const TransactionConfirmationModal: React.FC<TransactionConfirmationModal
     }
   };
 
+  // Split the draft across categories, starting from its category with the whole amount
+  const toggleSplit = () => {
+    if (splitLines) {
+      const [firstLine] = splitLines;
+      setCategoryId(firstLine?.categoryId ?? '');
+      setSubcategoryId(firstLine?.subcategoryId ?? '');
+      setSplitLines(null);
+    } else {
+      setSplitLines([
+        { categoryId, subcategoryId, amount },
+        { categoryId: '', subcategoryId: '', amount: '' },
+      ]);
+    }
+    setSplitError(null);
+  };
+
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
 
+    if (splitLines) {
+      const result = buildSplits(splitLines, parseFloat(amount) || 0, filteredCategories);
+      if ('error' in result) {
+        setSplitError(t(result.error));
+        return;
+      }
+
+      // The transaction's own category is the first line's
+      const [firstLine] = result.splits;
+      onConfirm({
+        type,
+        amount: parseFloat(amount) || 0,
+        category: firstLine.category,
+        subcategory: firstLine.subcategory,
+        splits: result.splits,
+        date,
+        description: description.trim() || undefined,
+      });
+      return;
+    }
+
     const category = categories.find(c => c.id === categoryId);
     const subcategory = category?.subcategories?.find(s => s.id === subcategoryId);
 
@@ -288,37 +334,65 @@ export const TransactionConfirmationModal: React.FC<TransactionConfirmationModal
             </div>
           </div>
 
-          <div className="form-row">
-            <div className="form-group">
-              <label>{t('transactions.category')} *</label>
-              <Dropdown
-                options={filteredCategories.map((category): DropdownOption => ({
-                  value: category.id,
-                  label: translateCategoryName(category),
-                  badge: category.isDefault ? t('categories.default') : undefined,
-                }))}
-                value={categoryId}
-                onChange={(val) => handleCategoryChange(val as number)}
-                placeholder={t('transactions.selectCategory')}
-                disabled={isConfirming}
-                searchable
-              />
-            </div>
+          {splitLines ? (
+            <SplitLinesEditor
+              lines={splitLines}
+              onChange={(lines) => {
+                setSplitLines(lines);
+                setSplitError(null);
+              }}
+              categories={filteredCategories}
+              total={parseFloat(amount) || 0}
+              disabled={isConfirming}
+              translateCategoryName={translateCategoryName}
+              translateSubcategoryName={translateSubcategoryName}
+            />
+          ) : (
+            <div className="form-row">
+              <div className="form-group">
+                <label>{t('transactions.category')} *</label>
+                <Dropdown
+                  options={filteredCategories.map((category): DropdownOption => ({
+                    value: category.id,
+                    label: translateCategoryName(category),
+                    badge: category.isDefault ? t('categories.default') : undefined,
+                  }))}
+                  value={categoryId}
+                  onChange={(val) => handleCategoryChange(val as number)}
+                  placeholder={t('transactions.selectCategory')}
+                  disabled={isConfirming}
+                  searchable
+                />
+              </div>
 
-            <div className="form-group">
-              <label>{t('transactions.subcategory')}</label>
-              <Dropdown
-                options={selectedCategory ? availableSubcategories.map((subcategory): DropdownOption => ({
-                  value: subcategory.id,
-                  label: translateSubcategoryName(subcategory, selectedCategory),
-                })) : []}
-                value={subcategoryId}
-                onChange={(val) => setSubcategoryId(val as number)}
-                placeholder={t('transactions.selectSubcategory')}
-                disabled={isConfirming || !categoryId}
-                searchable
-              />
+              <div className="form-group">
+                <label>{t('transactions.subcategory')}</label>
+                <Dropdown
+                  options={selectedCategory ? availableSubcategories.map((subcategory): DropdownOption => ({
+                    value: subcategory.id,
+                    label: translateSubcategoryName(subcategory, selectedCategory),
+                  })) : []}
+                  value={subcategoryId}
+                  onChange={(val) => setSubcategoryId(val as number)}
+                  placeholder={t('transactions.selectSubcategory')}
+                  disabled={isConfirming || !categoryId}
+                  searchable
+                />
+              </div>
             </div>
+          )}
+
+          {splitError && <p className="split-error">{splitError}</p>}
+
+          <div className="split-toggle">
+            <button
+              type="button"
+              className="btn btn-secondary btn-sm"
+              onClick={toggleSplit}
+              disabled={isConfirming}
+            >
+              {splitLines ? t('splits.unsplit') : `✂️ ${t('splits.split')}`}
+            </button>
           </div>
 
           <div className="form-group">
@@ -357,7 +431,7 @@ export const TransactionConfirmationModal: React.FC<TransactionConfirmationModal
             <button
               type="submit"
               className="btn btn-primary"
-              disabled={isConfirming || !categoryId}
+              disabled={isConfirming || (!splitLines && !categoryId)}
             >
               {isConfirming ? t('transactions.creating') : t('common.confirm')}
             </button>
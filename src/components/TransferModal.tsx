@@ -0,0 +1,194 @@
+import React, { useState, type FormEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Dropdown } from './Dropdown';
+import type { CreateTransferDto, WalletDto } from '../types/dtos';
+
+interface TransferModalProps {
+  sourceWallet: WalletDto;
+  wallets: WalletDto[];
+  isSubmitting: boolean;
+  onSubmit: (data: CreateTransferDto) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Modal for moving money from the current wallet to another one
+ * Asks for an exchange rate when the two wallets use different currencies
+ */
+export const TransferModal: React.FC<TransferModalProps> = ({
+  sourceWallet,
+  wallets,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}) => {
+  const { t, i18n } = useTranslation();
+
+  // Every active wallet except the one the money leaves
+  const destinationWallets = wallets.filter(w => w.id !== sourceWallet.id && !w.archived);
+
+  // Form state
+  const [toWalletId, setToWalletId] = useState<number | ''>(destinationWallets[0]?.id ?? '');
+  const [amount, setAmount] = useState('');
+  const [exchangeRate, setExchangeRate] = useState('');
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [description, setDescription] = useState('');
+
+  const destinationWallet = destinationWallets.find(w => w.id === toWalletId);
+  const needsExchangeRate = !!destinationWallet && destinationWallet.currency !== sourceWallet.currency;
+
+  const parsedAmount = parseFloat(amount) || 0;
+  const parsedRate = needsExchangeRate ? parseFloat(exchangeRate) || 0 : 1;
+
+  const formatCurrency = (value: number, currency: string): string => {
+    const locale = i18n.language === 'pt' ? 'pt-PT' : 'en-GB';
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency,
+    }).format(value);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!toWalletId || parsedAmount <= 0 || parsedRate <= 0) {
+      return;
+    }
+
+    onSubmit({
+      fromWalletId: sourceWallet.id,
+      toWalletId,
+      amount: parsedAmount,
+      exchangeRate: needsExchangeRate ? parsedRate : undefined,
+      date,
+      description: description.trim() || undefined,
+    });
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <h2>{t('transfers.title')}</h2>
+        <p className="modal-subtitle">{t('transfers.description', { wallet: sourceWallet.name })}</p>
+
+        {destinationWallets.length === 0 ? (
+          <>
+            <p className="transfer-empty">{t('transfers.noOtherWallets')}</p>
+            <div className="modal-actions">
+              <button type="button" className="btn btn-secondary" onClick={onCancel}>
+                {t('common.close')}
+              </button>
+            </div>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <div className="form-row">
+              <div className="form-group">
+                <label>{t('transfers.toWallet')} *</label>
+                <Dropdown
+                  options={destinationWallets.map(w => ({
+                    value: w.id,
+                    label: w.name,
+                    icon: '👛',
+                    badge: w.currency,
+                  }))}
+                  value={toWalletId}
+                  onChange={(val) => setToWalletId(val as number)}
+                  placeholder={t('transfers.selectWallet')}
+                  disabled={isSubmitting}
+                />
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="transferAmount">
+                  {t('transactions.amount')} ({sourceWallet.currency}) *
+                </label>
+                <input
+                  type="number"
+                  id="transferAmount"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder="0.00"
+                  step="0.01"
+                  min="0.01"
+                  disabled={isSubmitting}
+                  required
+                />
+              </div>
+            </div>
+
+            {needsExchangeRate && destinationWallet && (
+              <div className="form-row">
+                <div className="form-group">
+                  <label htmlFor="transferRate">
+                    {t('transfers.exchangeRate', { from: sourceWallet.currency, to: destinationWallet.currency })} *
+                  </label>
+                  <input
+                    type="number"
+                    id="transferRate"
+                    value={exchangeRate}
+                    onChange={(e) => setExchangeRate(e.target.value)}
+                    placeholder="1.0000"
+                    step="any"
+                    min="0"
+                    disabled={isSubmitting}
+                    required
+                  />
+                </div>
+
+                <div className="form-group">
+                  <label>{t('transfers.received')}</label>
+                  <p className="transfer-converted">
+                    {formatCurrency(parsedAmount * parsedRate, destinationWallet.currency)}
+                  </p>
+                </div>
+              </div>
+            )}
+
+            <div className="form-group">
+              <label htmlFor="transferDate">{t('transactions.date')} *</label>
+              <input
+                type="date"
+                id="transferDate"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="transferDescription">{t('transactions.description')}</label>
+              <input
+                type="text"
+                id="transferDescription"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder={t('transfers.descriptionPlaceholder')}
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="modal-actions">
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={onCancel}
+                disabled={isSubmitting}
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                type="submit"
+                className="btn btn-primary"
+                disabled={isSubmitting || !toWalletId}
+              >
+                {isSubmitting ? t('transfers.transferring') : t('transfers.submit')}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,210 @@
+import React, { useState, type FormEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { WALLET_TYPES, getWalletTypeIcon, toUpdateWalletDto } from '../lib/wallets';
+import type { CreateWalletDto, WalletDto, WalletType } from '../types/dtos';
+
+interface WalletFormModalProps {
+  wallet?: WalletDto; // Wallet being edited - a new wallet is created when omitted
+  canChangeCurrency: boolean;
+  isSubmitting: boolean;
+  onSubmit: (data: CreateWalletDto) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Modal for creating or editing a wallet (name, type, currency and opening balance)
+ * The currency of an existing wallet can only change while it has no transactions
+ */
+export const WalletFormModal: React.FC<WalletFormModalProps> = ({
+  wallet,
+  canChangeCurrency,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}) => {
+  const { t } = useTranslation();
+
+  // Form state (prefilled from the wallet being edited)
+  const initial = wallet ? toUpdateWalletDto(wallet) : null;
+  const [name, setName] = useState(initial?.name ?? '');
+  const [type, setType] = useState<WalletType>(initial?.type ?? 'CHECKING');
+  const [currency, setCurrency] = useState(initial?.currency ?? 'EUR');
+  const [openingBalance, setOpeningBalance] = useState(initial ? String(initial.openingBalance) : '');
+  const [openingDate, setOpeningDate] = useState(initial?.openingDate ?? new Date().toISOString().split('T')[0]);
+
+  // Credit card settings
+  const [creditLimit, setCreditLimit] = useState(initial?.creditLimit !== undefined ? String(initial.creditLimit) : '');
+  const [closingDay, setClosingDay] = useState(String(initial?.statementClosingDay ?? ''));
+  const [dueDay, setDueDay] = useState(String(initial?.paymentDueDay ?? ''));
+  const isCreditCard = type === 'CREDIT_CARD';
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      name: name.trim(),
+      type,
+      currency,
+      openingBalance: parseFloat(openingBalance) || 0,
+      openingDate,
+      creditLimit: isCreditCard ? parseFloat(creditLimit) || 0 : undefined,
+      statementClosingDay: isCreditCard ? parseInt(closingDay, 10) || undefined : undefined,
+      paymentDueDay: isCreditCard ? parseInt(dueDay, 10) || undefined : undefined,
+    });
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <h2>{wallet ? t('wallets.editWallet') : t('wallets.createNewWallet')}</h2>
+        <p className="modal-subtitle">
+          {wallet ? t('wallets.editWalletDescription') : t('wallets.createNewWalletDescription')}
+        </p>
+        <form onSubmit={handleSubmit}>
+          <div className="form-group">
+            <label htmlFor="walletName">{t('wallets.walletName')}</label>
+            <input
+              type="text"
+              id="walletName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t('wallets.walletNamePlaceholder')}
+              disabled={isSubmitting}
+              autoFocus
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="walletType">{t('wallets.type')}</label>
+            <select
+              id="walletType"
+              value={type}
+              onChange={(e) => setType(e.target.value as WalletType)}
+              disabled={isSubmitting}
+            >
+              {WALLET_TYPES.map((walletType) => (
+                <option key={walletType} value={walletType}>
+                  {getWalletTypeIcon(walletType)} {t(`wallets.types.${walletType}`)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="walletCurrency">{t('wallets.currency')}</label>
+            <select
+              id="walletCurrency"
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value)}
+              disabled={isSubmitting || !canChangeCurrency}
+            >
+              <option value="EUR">🇪🇺 EUR - Euro</option>
+              <option value="USD">🇺🇸 USD - US Dollar</option>
+              <option value="GBP">🇬🇧 GBP - British Pound</option>
+              <option value="BRL">🇧🇷 BRL - Brazilian Real</option>
+            </select>
+            {!canChangeCurrency && (
+              <span className="wallet-form-hint">{t('wallets.currencyLocked')}</span>
+            )}
+          </div>
+
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="walletOpeningBalance">{t('wallets.openingBalance')}</label>
+              <input
+                type="number"
+                id="walletOpeningBalance"
+                value={openingBalance}
+                onChange={(e) => setOpeningBalance(e.target.value)}
+                placeholder="0.00"
+                step="0.01"
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="walletOpeningDate">{t('wallets.openingDate')}</label>
+              <input
+                type="date"
+                id="walletOpeningDate"
+                value={openingDate}
+                onChange={(e) => setOpeningDate(e.target.value)}
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+          </div>
+          <span className="wallet-form-hint">{t('wallets.openingBalanceHint')}</span>
+
+          {isCreditCard && (
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="walletCreditLimit">{t('creditCard.creditLimit')} *</label>
+                <input
+                  type="number"
+                  id="walletCreditLimit"
+                  value={creditLimit}
+                  onChange={(e) => setCreditLimit(e.target.value)}
+                  placeholder="0.00"
+                  step="0.01"
+                  min="0"
+                  disabled={isSubmitting}
+                  required
+                />
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="walletClosingDay">{t('creditCard.closingDay')} *</label>
+                <input
+                  type="number"
+                  id="walletClosingDay"
+                  value={closingDay}
+                  onChange={(e) => setClosingDay(e.target.value)}
+                  placeholder="25"
+                  min="1"
+                  max="31"
+                  disabled={isSubmitting}
+                  required
+                />
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="walletDueDay">{t('creditCard.dueDay')} *</label>
+                <input
+                  type="number"
+                  id="walletDueDay"
+                  value={dueDay}
+                  onChange={(e) => setDueDay(e.target.value)}
+                  placeholder="10"
+                  min="1"
+                  max="31"
+                  disabled={isSubmitting}
+                  required
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="modal-actions">
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={onCancel}
+              disabled={isSubmitting}
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              type="submit"
+              className="btn btn-primary"
+              disabled={isSubmitting}
+            >
+              {wallet
+                ? (isSubmitting ? t('wallets.saving') : t('common.save'))
+                : (isSubmitting ? t('common.creating') : t('wallets.createWallet'))}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -1,10 +1,15 @@
-import { createContext, useContext, useState, type ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useRef, type ReactNode } from 'react';
+import { useLocation, useNavigate, type Location } from 'react-router-dom';
 import {
-  storeCredentials,
+  storeTokens,
   clearCredentials,
+  clearOfflineData,
   getUsernameFromCredentials,
+  onAuthExpired,
   postJson,
 } from '../lib/api';
+import { clearQueryCache } from '../lib/queryCache';
+import type { AuthTokensDto } from '../types/dtos';
 
 /**
  * Auth Context Type Definition
@@ -17,6 +22,15 @@ interface AuthContextType {
   logout: () => void;
 }
 
+/**
+ * Router state passed to /login
+ * "from" is the page to return to after login; "sessionExpired" explains why the user was sent there
+ */
+export interface LoginLocationState {
+  from?: Location;
+  sessionExpired?: boolean;
+}
+
 // Create the context with undefined default (will be provided by AuthProvider)
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
@@ -33,31 +47,61 @@ interface AuthProviderProps {
  */
 export function AuthProvider({ children }: AuthProviderProps) {
   // Current authenticated username (null if not logged in)
-  // Initialize from stored credentials synchronously
+  // Initialize from the stored access token synchronously
   const [currentUser, setCurrentUser] = useState<string | null>(() => {
     return getUsernameFromCredentials();
   });
   
   // No loading state needed - we initialize synchronously from sessionStorage
 
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  // Latest location, read by the auth-expired listener without re-subscribing on every navigation
+  const locationRef = useRef(location);
+  useEffect(() => {
+    locationRef.current = location;
+  }, [location]);
+
+  // Log out and send the user to /login when the API reports the session has expired
+  useEffect(() => {
+    return onAuthExpired(() => {
+      const current = locationRef.current;
+      clearCredentials();
+      clearQueryCache();
+      // The cached API data belongs to this user - the next one to log in must not see it
+      clearOfflineData();
+      setCurrentUser(null);
+
+      // Several requests may fail at once - only redirect (and remember the page) the first time
+      if (current.pathname === '/login') {
+        return;
+      }
+      const state: LoginLocationState = { from: current, sessionExpired: true };
+      navigate('/login', { replace: true, state });
+    });
+  }, [navigate]);
+
   /**
    * Login function
-   * Stores credentials and validates them against the API
+   * Exchanges the credentials for an access/refresh token pair (the password is never stored)
    * @param username - User's username
    * @param password - User's password
    * @returns Promise<boolean> - true if login successful, false otherwise
    */
   const login = async (username: string, password: string): Promise<boolean> => {
     try {
-      // Validate credentials by calling the login endpoint with username and password in body
-      await postJson('/api/auth/login', { username, password }, false);
+      // Exchange username and password for a token pair
+      const tokens = await postJson<AuthTokensDto>('/api/auth/login', { username, password }, false);
 
-      // If we get here, credentials are valid - store them
-      storeCredentials(username, password);
-      setCurrentUser(username);
+      // If we get here, credentials are valid - store the tokens only
+      storeTokens(tokens);
+      clearQueryCache();
+      clearOfflineData();
+      setCurrentUser(getUsernameFromCredentials() ?? username);
       return true;
     } catch (error) {
-      // Clear any stored credentials
+      // Clear any stored tokens
       clearCredentials();
       setCurrentUser(null);
       throw error; // Re-throw to let the caller handle the error message
@@ -66,10 +110,12 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
   /**
    * Logout function
-   * Clears stored credentials and resets auth state
+   * Clears stored tokens, cached data and resets auth state
    */
   const logout = (): void => {
     clearCredentials();
+    clearQueryCache();
+    clearOfflineData();
     setCurrentUser(null);
   };
 
@@ -84,6 +130,19 @@ export function AuthProvider({ children }: AuthProviderProps) {
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
 }
 
+/**
+ * Get the path to return to after login from the /login router state
+ * Falls back to the dashboard when the user came straight to the login page
+ */
+// eslint-disable-next-line react-refresh/only-export-components
+export function getReturnPath(state: unknown): string {
+  const from = (state as LoginLocationState | null)?.from;
+  if (!from || from.pathname === '/login') {
+    return '/dashboard';
+  }
+  return `${from.pathname}${from.search}${from.hash}`;
+}
+
 /**
  * Custom hook to use the Auth Context
  * Must be used within an AuthProvider
@@ -0,0 +1,121 @@
+import { createContext, useCallback, useContext, useState, type ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import {
+  convertAmount,
+  loadCurrencySettings,
+  rebaseCurrencySettings,
+  saveCurrencySettings,
+  type CurrencySettings,
+  type ExchangeRates,
+} from '../lib/currency';
+
+/**
+ * Currency Context Type Definition
+ * Provides the base currency, the exchange-rate table and conversion to the base currency
+ */
+interface CurrencyContextType {
+  baseCurrency: string;
+  rates: ExchangeRates;
+  setBaseCurrency: (currency: string) => void;
+  setRate: (currency: string, rate: number) => void;
+  removeRate: (currency: string) => void;
+  importRates: (rates: ExchangeRates) => void;
+  convert: (amount: number | undefined | null, currency: string) => number | null;
+}
+
+// Create the context with undefined default (will be provided by CurrencyProvider)
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+/**
+ * Currency Provider Props
+ */
+interface CurrencyProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Currency Provider Component
+ * Must be rendered inside AuthProvider - settings are stored per user
+ */
+export function CurrencyProvider({ children }: CurrencyProviderProps) {
+  const { currentUser } = useAuth();
+
+  // Settings of the user they were loaded for
+  const [state, setState] = useState(() => ({
+    username: currentUser,
+    settings: loadCurrencySettings(currentUser),
+  }));
+
+  // Reload when a different user logs in
+  let { settings } = state;
+  if (state.username !== currentUser) {
+    settings = loadCurrencySettings(currentUser);
+    setState({ username: currentUser, settings });
+  }
+
+  // Stable between renders while the settings don't change, so pages can use it in memoized totals
+  const convert = useCallback(
+    (amount: number | undefined | null, currency: string) => convertAmount(amount, currency, settings),
+    [settings]
+  );
+
+  const updateSettings = (next: CurrencySettings): void => {
+    saveCurrencySettings(currentUser, next);
+    setState({ username: currentUser, settings: next });
+  };
+
+  /**
+   * Change the base currency (existing rates are converted to the new base when possible)
+   */
+  const setBaseCurrency = (currency: string): void => {
+    updateSettings(rebaseCurrencySettings(settings, currency));
+  };
+
+  /**
+   * Add or update the rate of a currency (base-currency units per unit)
+   */
+  const setRate = (currency: string, rate: number): void => {
+    updateSettings({ ...settings, rates: { ...settings.rates, [currency]: rate } });
+  };
+
+  const removeRate = (currency: string): void => {
+    const rates = { ...settings.rates };
+    delete rates[currency];
+    updateSettings({ ...settings, rates });
+  };
+
+  /**
+   * Merge imported rates into the table (the base currency itself is ignored)
+   */
+  const importRates = (imported: ExchangeRates): void => {
+    const rates = { ...settings.rates, ...imported };
+    delete rates[settings.baseCurrency];
+    updateSettings({ ...settings, rates });
+  };
+
+  // Context value to be provided to consumers
+  const value: CurrencyContextType = {
+    baseCurrency: settings.baseCurrency,
+    rates: settings.rates,
+    setBaseCurrency,
+    setRate,
+    removeRate,
+    importRates,
+    convert,
+  };
+
+  return <CurrencyContext.Provider value={value}>{children}</CurrencyContext.Provider>;
+}
+
+/**
+ * Custom hook to use the Currency Context
+ * Must be used within a CurrencyProvider
+ */
+// eslint-disable-next-line react-refresh/only-export-components
+export function useCurrency(): CurrencyContextType {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+}
@@ -3,8 +3,41 @@
  * Provides helper functions for making authenticated API requests
  */
 
-// Storage key for credentials
-const CREDENTIALS_KEY = 'fc_credentials';
+import type {
+  AuthTokensDto,
+  BudgetDto,
+  CreateBudgetDto,
+  CreateReconciliationDto,
+  CreateRecurringTransactionDto,
+  ImportResultDto,
+  ImportTransactionsDto,
+  ReconciliationDto,
+  RecurringTransactionDto,
+  TransactionDto,
+  TransactionStatus,
+  UpdateWalletDto,
+  UserDto,
+  WalletDto,
+} from '../types/dtos';
+
+// Storage keys for the access/refresh token pair
+const ACCESS_TOKEN_KEY = 'fc_access_token';
+const REFRESH_TOKEN_KEY = 'fc_refresh_token';
+
+// Storage key used by older versions for Basic credentials (removed on login/logout)
+const LEGACY_CREDENTIALS_KEY = 'fc_credentials';
+
+// Window event dispatched when the server rejects the session (see onAuthExpired)
+const AUTH_EXPIRED_EVENT = 'fc:auth-expired';
+
+// Storage key for the time data was last received from the server
+const LAST_SYNCED_KEY = 'fc_last_synced_at';
+
+// Window event dispatched when the last sync time changes (see onSyncStatusChange)
+const SYNC_STATUS_EVENT = 'fc:sync-status';
+
+// Header the service worker adds to API responses served from its offline cache
+const CACHED_AT_HEADER = 'X-Cached-At';
 
 // Get API base URL from environment variable or use default
 const getApiUrl = (): string => {
@@ -12,57 +45,155 @@ const getApiUrl = (): string => {
 };
 
 /**
- * Get the stored credentials from sessionStorage
- * Returns the base64 encoded "username:password" string
+ * Get the stored access token from sessionStorage
+ */
+export const getAccessToken = (): string | null => {
+  return sessionStorage.getItem(ACCESS_TOKEN_KEY);
+};
+
+/**
+ * Get the stored refresh token from sessionStorage
  */
-export const getStoredCredentials = (): string | null => {
-  return sessionStorage.getItem(CREDENTIALS_KEY);
+const getRefreshToken = (): string | null => {
+  return sessionStorage.getItem(REFRESH_TOKEN_KEY);
 };
 
 /**
- * Store credentials in sessionStorage as base64 encoded string
+ * Store the access/refresh token pair in sessionStorage
+ * Only tokens are persisted - never the user's password
  */
-export const storeCredentials = (username: string, password: string): void => {
-  const credentials = btoa(`${username}:${password}`);
-  sessionStorage.setItem(CREDENTIALS_KEY, credentials);
+export const storeTokens = (tokens: AuthTokensDto): void => {
+  sessionStorage.setItem(ACCESS_TOKEN_KEY, tokens.accessToken);
+  sessionStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+  sessionStorage.removeItem(LEGACY_CREDENTIALS_KEY);
 };
 
 /**
- * Clear stored credentials from sessionStorage
+ * Clear stored tokens from sessionStorage
  */
 export const clearCredentials = (): void => {
-  sessionStorage.removeItem(CREDENTIALS_KEY);
+  sessionStorage.removeItem(ACCESS_TOKEN_KEY);
+  sessionStorage.removeItem(REFRESH_TOKEN_KEY);
+  sessionStorage.removeItem(LEGACY_CREDENTIALS_KEY);
 };
 
 /**
- * Get the username from stored credentials
+ * Get the time data was last received from the server, if ever
  */
-export const getUsernameFromCredentials = (): string | null => {
-  const credentials = getStoredCredentials();
-  if (!credentials) return null;
-  
+export const getLastSyncedAt = (): Date | null => {
+  const stored = localStorage.getItem(LAST_SYNCED_KEY);
+  return stored ? new Date(stored) : null;
+};
+
+/**
+ * Subscribe to changes of the last sync time
+ * @returns Function that removes the listener
+ */
+export const onSyncStatusChange = (listener: () => void): (() => void) => {
+  window.addEventListener(SYNC_STATUS_EVENT, listener);
+  return () => window.removeEventListener(SYNC_STATUS_EVENT, listener);
+};
+
+/**
+ * Remember when the data in a successful response left the server
+ * Responses served from the service worker cache carry the time they were originally fetched
+ */
+const recordSync = (response: Response): void => {
+  const cachedAt = response.headers.get(CACHED_AT_HEADER);
+  const syncedAt = cachedAt ? new Date(cachedAt) : new Date();
+  const lastSyncedAt = getLastSyncedAt();
+  if (Number.isNaN(syncedAt.getTime()) || (lastSyncedAt && lastSyncedAt >= syncedAt)) {
+    return;
+  }
+  localStorage.setItem(LAST_SYNCED_KEY, syncedAt.toISOString());
+  window.dispatchEvent(new Event(SYNC_STATUS_EVENT));
+};
+
+/**
+ * Drop API data kept for offline use (service worker cache and last sync time)
+ * Called on logout, login and when the session expires so the next user never sees it
+ */
+export const clearOfflineData = (): void => {
+  navigator.serviceWorker?.controller?.postMessage({ type: 'clear-api-cache' });
+  localStorage.removeItem(LAST_SYNCED_KEY);
+  window.dispatchEvent(new Event(SYNC_STATUS_EVENT));
+};
+
+/**
+ * Decode the payload of a JWT without verifying it
+ * The signature is checked by the backend; the client only reads user info
+ */
+const decodeTokenPayload = (token: string): Record<string, unknown> | null => {
   try {
-    const decoded = atob(credentials);
-    const [username] = decoded.split(':');
-    return username;
+    const [, payload] = token.split('.');
+    if (!payload) return null;
+
+    // base64url -> base64 (with padding) before decoding
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+    const bytes = Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+    return JSON.parse(new TextDecoder().decode(bytes)) as Record<string, unknown>;
   } catch {
     return null;
   }
 };
 
 /**
- * Build headers for API requests
- * Automatically adds Authorization header if credentials are stored
+ * Get the username from the stored access token
+ * Reads the "username" claim, falling back to the standard "sub" claim
+ */
+export const getUsernameFromCredentials = (): string | null => {
+  const token = getAccessToken();
+  if (!token) return null;
+
+  const payload = decodeTokenPayload(token);
+  const username = payload?.username ?? payload?.sub;
+  return typeof username === 'string' ? username : null;
+};
+
+/**
+ * Check whether the stored access token is missing or past its "exp" claim
  */
-const buildHeaders = (includeAuth: boolean = true): HeadersInit => {
-  const headers: HeadersInit = {
-    'Content-Type': 'application/json',
+const isAccessTokenExpired = (): boolean => {
+  const token = getAccessToken();
+  if (!token) return true;
+
+  const exp = decodeTokenPayload(token)?.exp;
+  return typeof exp === 'number' && exp * 1000 <= Date.now();
+};
+
+/**
+ * Subscribe to auth-expired events
+ * Fired when an authenticated request is rejected with 401 (and the token can't be refreshed)
+ * or with 403 while the access token is expired
+ * @param listener - Called with the HTTP status that ended the session
+ * @returns Function that removes the listener
+ */
+export const onAuthExpired = (listener: (status: number) => void): (() => void) => {
+  const handler = (event: Event) => {
+    listener((event as CustomEvent<{ status: number }>).detail.status);
   };
+  window.addEventListener(AUTH_EXPIRED_EVENT, handler);
+  return () => window.removeEventListener(AUTH_EXPIRED_EVENT, handler);
+};
+
+/**
+ * Build headers for API requests
+ * Automatically adds Authorization header if an access token is stored
+ * @param includeAuth - Whether to include Authorization header (default: true)
+ * @param json - Whether to send a JSON Content-Type (default: true)
+ */
+const buildHeaders = (includeAuth: boolean = true, json: boolean = true): HeadersInit => {
+  const headers: HeadersInit = {};
+
+  if (json) {
+    headers['Content-Type'] = 'application/json';
+  }
 
   if (includeAuth) {
-    const credentials = getStoredCredentials();
-    if (credentials) {
-      headers['Authorization'] = `Basic ${credentials}`;
+    const token = getAccessToken();
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
     }
   }
 
@@ -82,11 +213,78 @@ export class ApiError extends Error {
   }
 }
 
+// In-flight refresh request, shared so concurrent 401s only refresh once
+let refreshPromise: Promise<boolean> | null = null;
+
+/**
+ * Exchange the stored refresh token for a new token pair
+ * Returns false (and clears the tokens) if the refresh token is missing or rejected
+ */
+const refreshAccessToken = (): Promise<boolean> => {
+  if (refreshPromise) {
+    return refreshPromise;
+  }
+
+  const refreshToken = getRefreshToken();
+  if (!refreshToken) {
+    return Promise.resolve(false);
+  }
+
+  refreshPromise = (async () => {
+    try {
+      const response = await fetch(`${getApiUrl()}/api/auth/refresh`, {
+        method: 'POST',
+        headers: buildHeaders(false),
+        body: JSON.stringify({ refreshToken }),
+      });
+      if (!response.ok) {
+        clearCredentials();
+        return false;
+      }
+      storeTokens(await response.json() as AuthTokensDto);
+      return true;
+    } catch {
+      // Network error - keep the tokens, the next request can try again
+      return false;
+    } finally {
+      refreshPromise = null;
+    }
+  })();
+
+  return refreshPromise;
+};
+
+/**
+ * Whether a response status means the session itself was rejected
+ * A 403 with a valid token is a per-resource permission error and is left to the caller
+ */
+const isSessionRejected = (status: number): boolean => {
+  return status === 401 || (status === 403 && isAccessTokenExpired());
+};
+
 /**
  * Handle API response and parse JSON
+ * For authenticated requests (a retry is given), a rejected session is refreshed and the
+ * request replayed once; if it is still rejected, an auth-expired event is emitted
  * Throws ApiError for non-OK responses
  */
-const handleResponse = async <T>(response: Response): Promise<T> => {
+const handleResponse = async <T>(
+  response: Response,
+  retry?: () => Promise<Response>
+): Promise<T> => {
+  if (retry) {
+    if (isSessionRejected(response.status) && await refreshAccessToken()) {
+      response = await retry();
+    }
+    if (isSessionRejected(response.status)) {
+      window.dispatchEvent(new CustomEvent(AUTH_EXPIRED_EVENT, { detail: { status: response.status } }));
+    }
+  }
+
+  if (response.ok) {
+    recordSync(response);
+  }
+
   if (!response.ok) {
     let message = `HTTP Error: ${response.status}`;
     try {
@@ -115,12 +313,13 @@ const handleResponse = async <T>(response: Response): Promise<T> => {
 export const getJson = async <T>(path: string, includeAuth: boolean = true): Promise<T> => {
   const url = `${getApiUrl()}${path}`;
   
-  const response = await fetch(url, {
+  // Headers are rebuilt on each call so a retry picks up a refreshed token
+  const send = () => fetch(url, {
     method: 'GET',
     headers: buildHeaders(includeAuth),
   });
 
-  return handleResponse<T>(response);
+  return handleResponse<T>(await send(), includeAuth ? send : undefined);
 };
 
 /**
@@ -136,29 +335,62 @@ export const postJson = async <T>(
 ): Promise<T> => {
   const url = `${getApiUrl()}${path}`;
 
-  const response = await fetch(url, {
+  const send = () => fetch(url, {
     method: 'POST',
     headers: buildHeaders(includeAuth),
     body: body ? JSON.stringify(body) : undefined,
   });
 
-  return handleResponse<T>(response);
+  return handleResponse<T>(await send(), includeAuth ? send : undefined);
 };
 
+/**
+ * Make a PUT request to the API
+ * @param path - API endpoint path (e.g., '/api/transactions/1')
+ * @param body - Request body (will be JSON stringified)
+ * @param includeAuth - Whether to include Authorization header (default: true)
+ */
+export const putJson = async <T>(
+  path: string,
+  body?: unknown,
+  includeAuth: boolean = true
+): Promise<T> => {
+  const url = `${getApiUrl()}${path}`;
+
+  const send = () => fetch(url, {
+    method: 'PUT',
+    headers: buildHeaders(includeAuth),
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  return handleResponse<T>(await send(), includeAuth ? send : undefined);
+};
+
+// Extra options of a request
+export interface RequestOptions {
+  keepalive?: boolean; // Keep sending the request if the page is closed meanwhile
+}
+
 /**
  * Make a DELETE request to the API
  * @param path - API endpoint path (e.g., '/api/transactions/1')
  * @param includeAuth - Whether to include Authorization header (default: true)
+ * @param options - Extra request options (e.g. keepalive for deletes sent when leaving a page)
  */
-export const deleteJson = async <T>(path: string, includeAuth: boolean = true): Promise<T> => {
+export const deleteJson = async <T>(
+  path: string,
+  includeAuth: boolean = true,
+  options: RequestOptions = {}
+): Promise<T> => {
   const url = `${getApiUrl()}${path}`;
 
-  const response = await fetch(url, {
+  const send = () => fetch(url, {
     method: 'DELETE',
     headers: buildHeaders(includeAuth),
+    keepalive: options.keepalive,
   });
 
-  return handleResponse<T>(response);
+  return handleResponse<T>(await send(), includeAuth ? send : undefined);
 };
 
 /**
@@ -175,19 +407,140 @@ export const postFormData = async <T>(
   const url = `${getApiUrl()}${path}`;
 
   // Build headers without Content-Type (browser will set it automatically for FormData)
-  const headers: HeadersInit = {};
-  if (includeAuth) {
-    const credentials = getStoredCredentials();
-    if (credentials) {
-      headers['Authorization'] = `Basic ${credentials}`;
-    }
-  }
-
-  const response = await fetch(url, {
+  const send = () => fetch(url, {
     method: 'POST',
-    headers,
+    headers: buildHeaders(includeAuth, false),
     body: formData,
   });
 
-  return handleResponse<T>(response);
+  return handleResponse<T>(await send(), includeAuth ? send : undefined);
+};
+
+/**
+ * Get the profile of the logged-in user
+ */
+export const getCurrentUser = async (): Promise<UserDto> => {
+  return getJson<UserDto>('/api/users/me');
+};
+
+/**
+ * Update a wallet (rename, change currency, archive or restore)
+ * @param walletId - ID of the wallet to update
+ * @param wallet - New wallet data
+ */
+export const updateWallet = async (walletId: number, wallet: UpdateWalletDto): Promise<WalletDto> => {
+  return putJson<WalletDto>(`/api/wallets/${walletId}`, wallet);
+};
+
+/**
+ * Delete a wallet together with its transactions
+ * @param walletId - ID of the wallet to delete
+ */
+export const deleteWallet = async (walletId: number): Promise<void> => {
+  await deleteJson(`/api/wallets/${walletId}`);
+};
+
+/**
+ * Mark a transaction as cleared (or uncleared) against a bank statement
+ * Reconciled transactions can't be changed
+ * @param transactionId - ID of the transaction
+ * @param status - New status
+ */
+export const setTransactionStatus = async (
+  transactionId: number,
+  status: Exclude<TransactionStatus, 'RECONCILED'>
+): Promise<TransactionDto> => {
+  return putJson<TransactionDto>(`/api/transactions/${transactionId}/status`, { status });
+};
+
+/**
+ * Finish a reconciliation, locking the cleared transactions
+ * @param walletId - ID of the reconciled wallet
+ * @param reconciliation - Statement date, ending balance and the cleared transactions
+ */
+export const createReconciliation = async (
+  walletId: number,
+  reconciliation: CreateReconciliationDto
+): Promise<ReconciliationDto> => {
+  return postJson<ReconciliationDto>(`/api/wallets/${walletId}/reconciliations`, reconciliation);
+};
+
+/**
+ * Import the rows confirmed in the import preview
+ * @param walletId - ID of the wallet to import into
+ * @param data - Confirmed rows
+ */
+export const importTransactions = async (
+  walletId: number,
+  data: ImportTransactionsDto
+): Promise<ImportResultDto> => {
+  return postJson<ImportResultDto>(`/api/wallets/${walletId}/import/transactions`, data);
+};
+
+/**
+ * Get the budgets defined for a month
+ * @param month - Budget month (format: YYYY-MM)
+ */
+export const getBudgets = async (month: string): Promise<BudgetDto[]> => {
+  return getJson<BudgetDto[]>(`/api/budgets?month=${encodeURIComponent(month)}`);
+};
+
+/**
+ * Create a new budget
+ * @param budget - Budget data (category, optional subcategory, amount and month)
+ */
+export const createBudget = async (budget: CreateBudgetDto): Promise<BudgetDto> => {
+  return postJson<BudgetDto>('/api/budgets', budget);
+};
+
+/**
+ * Delete a budget
+ * @param budgetId - ID of the budget to delete
+ * @param options - Extra request options
+ */
+export const deleteBudget = async (budgetId: number, options?: RequestOptions): Promise<void> => {
+  await deleteJson(`/api/budgets/${budgetId}`, true, options);
+};
+
+/**
+ * Get all recurring transactions of the current user
+ */
+export const getRecurringTransactions = async (): Promise<RecurringTransactionDto[]> => {
+  return getJson<RecurringTransactionDto[]>('/api/recurring-transactions');
+};
+
+/**
+ * Create a new recurring transaction
+ * @param recurring - Template data (transaction fields, frequency, mode and date range)
+ */
+export const createRecurringTransaction = async (
+  recurring: CreateRecurringTransactionDto
+): Promise<RecurringTransactionDto> => {
+  return postJson<RecurringTransactionDto>('/api/recurring-transactions', recurring);
+};
+
+/**
+ * Delete a recurring transaction (transactions already posted are kept)
+ * @param recurringId - ID of the recurring transaction to delete
+ */
+export const deleteRecurringTransaction = async (recurringId: number): Promise<void> => {
+  await deleteJson(`/api/recurring-transactions/${recurringId}`);
+};
+
+/**
+ * Post the next occurrence of a recurring transaction as a normal transaction
+ * @param recurringId - ID of the recurring transaction
+ * @returns The created transaction
+ */
+export const postRecurringOccurrence = async (recurringId: number): Promise<TransactionDto> => {
+  return postJson<TransactionDto>(`/api/recurring-transactions/${recurringId}/post`);
+};
+
+/**
+ * Skip the next occurrence of a recurring transaction without posting it
+ * @param recurringId - ID of the recurring transaction
+ * @returns The recurring transaction with its new next occurrence
+ */
+export const skipRecurringOccurrence = async (recurringId: number): Promise<RecurringTransactionDto> => {
+  return postJson<RecurringTransactionDto>(`/api/recurring-transactions/${recurringId}/skip`);
 };
@@ -0,0 +1,584 @@
+/**
+ * Backup helpers for Finance Control
+ * Builds the "download my data" archive and restores it through the regular create endpoints
+ */
+
+import { ApiError, deleteJson, getCurrentUser, getJson, importTransactions, postJson, putJson, setTransactionStatus, updateWallet } from './api';
+import { getCategories, getWallets, getWalletTransactions, invalidateCategories, invalidateWalletData } from './queries';
+import { toUpdateWalletDto } from './wallets';
+import type {
+  CategoryDto,
+  CreateTransactionDto,
+  CreateWalletDto,
+  SubcategoryDto,
+  TransactionDto,
+  TransactionSplitDto,
+  TransactionStatus,
+  TransactionType,
+  TransferDto,
+  WalletDto,
+  WalletType,
+} from '../types/dtos';
+
+// Identifies backup files, and the schema version this app writes and reads
+export const BACKUP_FORMAT = 'finance-control-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupProfile {
+  username: string;
+  email?: string;
+  createdAt?: string;
+}
+
+export interface BackupSubcategory {
+  name: string;
+  hidden: boolean;
+}
+
+export interface BackupCategory {
+  name: string;
+  type: TransactionType;
+  isDefault: boolean;
+  hidden: boolean;
+  subcategories: BackupSubcategory[];
+}
+
+export interface BackupTransaction {
+  type: TransactionType;
+  category: string;
+  subcategory?: string;
+  amount: number;
+  splits?: TransactionSplitDto[];
+  description?: string;
+  date: string; // Format: YYYY-MM-DD
+  status?: TransactionStatus; // Cleared and reconciled transactions are restored as cleared
+  externalId?: string;
+}
+
+export interface BackupWallet {
+  id: number; // ID in the account the backup was taken from, referenced by transfers
+  name: string;
+  currency: string;
+  type: WalletType;
+  openingBalance: number;
+  openingDate: string;
+  creditLimit?: number;
+  statementClosingDay?: number;
+  paymentDueDay?: number;
+  archived: boolean;
+  transactions: BackupTransaction[]; // Transfers are listed separately
+}
+
+export interface BackupTransfer {
+  fromWalletId: number; // Backup wallet IDs
+  toWalletId: number;
+  amount: number; // In the source wallet's currency
+  exchangeRate: number; // Destination units per source unit
+  date: string;
+  description?: string;
+}
+
+// The whole archive (version 1 schema)
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  profile: BackupProfile;
+  categories: BackupCategory[];
+  wallets: BackupWallet[];
+  transfers: BackupTransfer[];
+}
+
+// Everything currently in the account, used both to build a backup and to plan a restore
+interface AccountData {
+  categories: CategoryDto[];
+  hiddenCategories: CategoryDto[];
+  hiddenSubcategories: SubcategoryDto[];
+  wallets: { wallet: WalletDto; transactions: TransactionDto[] }[];
+}
+
+/**
+ * Load everything in the account, bypassing the cache
+ * Unlike the reports, a wallet whose transactions fail to load fails the whole
+ * load - a backup must not be silently incomplete
+ */
+const loadAccountData = async (): Promise<AccountData> => {
+  const [categories, hiddenCategories, hiddenSubcategories, wallets] = await Promise.all([
+    getCategories(undefined, { force: true }),
+    getJson<CategoryDto[]>('/api/categories/hidden'),
+    getJson<SubcategoryDto[]>('/api/categories/subcategories/hidden'),
+    getWallets({ force: true }),
+  ]);
+
+  const walletsData = await Promise.all(
+    wallets.map(async (wallet) => ({
+      wallet,
+      transactions: await getWalletTransactions(wallet.id, undefined, { force: true }),
+    }))
+  );
+
+  return { categories, hiddenCategories, hiddenSubcategories, wallets: walletsData };
+};
+
+const toBackupTransaction = (transaction: TransactionDto): BackupTransaction => ({
+  type: transaction.type,
+  category: transaction.category,
+  subcategory: transaction.subcategory || undefined,
+  amount: Number(transaction.amount) || 0,
+  splits: transaction.splits?.length ? transaction.splits : undefined,
+  description: transaction.description || undefined,
+  date: transaction.date.split('T')[0],
+  status: transaction.status,
+  externalId: transaction.externalId,
+});
+
+/**
+ * Build a backup of the whole account
+ * Both sides of a transfer become one transfer entry; a side whose counterpart is
+ * missing is kept as a plain transaction
+ * @param username - Logged-in user, used when the profile can't be loaded
+ */
+export const createBackup = async (username: string): Promise<BackupFile> => {
+  const [data, user] = await Promise.all([
+    loadAccountData(),
+    getCurrentUser().catch(() => null),
+  ]);
+
+  // Categories by ID, hidden ones included, each with all of its subcategories
+  const categoriesById = new Map<number, BackupCategory>();
+  const addCategory = (category: CategoryDto, hidden: boolean) => {
+    categoriesById.set(category.id, {
+      name: category.name,
+      type: category.type,
+      isDefault: category.isDefault,
+      hidden,
+      subcategories: (category.subcategories ?? []).map(sub => ({ name: sub.name, hidden })),
+    });
+  };
+  data.categories.forEach(category => addCategory(category, false));
+  data.hiddenCategories.forEach(category => addCategory(category, true));
+  data.hiddenSubcategories.forEach((sub) => {
+    const category = categoriesById.get(sub.categoryId);
+    if (category && !category.subcategories.some(existing => existing.name === sub.name)) {
+      category.subcategories.push({ name: sub.name, hidden: true });
+    }
+  });
+
+  // Pair up the two sides of each transfer
+  const transferSides = new Map<number, { from?: TransactionDto; to?: TransactionDto }>();
+  data.wallets.forEach(({ transactions }) => {
+    transactions.forEach((transaction) => {
+      if (transaction.transferId) {
+        const sides = transferSides.get(transaction.transferId) ?? {};
+        sides[transaction.type === 'DEBIT' ? 'from' : 'to'] = transaction;
+        transferSides.set(transaction.transferId, sides);
+      }
+    });
+  });
+
+  const transfers: BackupTransfer[] = [];
+  transferSides.forEach(({ from, to }) => {
+    if (from && to) {
+      const amount = Number(from.amount) || 0;
+      transfers.push({
+        fromWalletId: from.walletId,
+        toWalletId: to.walletId,
+        amount,
+        exchangeRate: amount > 0 ? (Number(to.amount) || 0) / amount : 1,
+        date: from.date.split('T')[0],
+        description: from.description || undefined,
+      });
+    }
+  });
+  const isPairedTransfer = (transaction: TransactionDto): boolean => {
+    const sides = transaction.transferId ? transferSides.get(transaction.transferId) : undefined;
+    return !!sides?.from && !!sides.to;
+  };
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile: {
+      username: user?.username ?? username,
+      email: user?.email,
+      createdAt: user?.createdAt,
+    },
+    categories: Array.from(categoriesById.values()),
+    wallets: data.wallets.map(({ wallet, transactions }) => {
+      const walletData = toUpdateWalletDto(wallet);
+      return {
+        id: wallet.id,
+        ...walletData,
+        transactions: transactions.filter(t => !isPairedTransfer(t)).map(toBackupTransaction),
+      };
+    }),
+    transfers,
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isDate = (value: unknown): boolean => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+const isAmount = (value: unknown): boolean => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+const isType = (value: unknown): boolean => value === 'DEBIT' || value === 'CREDIT';
+
+const isValidSplit = (value: unknown): boolean => {
+  return isRecord(value) && typeof value.category === 'string' && isAmount(value.amount);
+};
+
+const isValidTransaction = (value: unknown): boolean => {
+  return isRecord(value) && isType(value.type) && typeof value.category === 'string'
+    && isAmount(value.amount) && isDate(value.date)
+    && (value.splits === undefined || (Array.isArray(value.splits) && value.splits.every(isValidSplit)));
+};
+
+const isValidWallet = (value: unknown): boolean => {
+  return isRecord(value) && typeof value.id === 'number' && typeof value.name === 'string'
+    && typeof value.currency === 'string' && Array.isArray(value.transactions)
+    && value.transactions.every(isValidTransaction);
+};
+
+const isValidCategory = (value: unknown): boolean => {
+  return isRecord(value) && typeof value.name === 'string' && isType(value.type)
+    && Array.isArray(value.subcategories)
+    && value.subcategories.every(sub => isRecord(sub) && typeof sub.name === 'string');
+};
+
+/**
+ * Read and validate a backup file
+ * @param text - File contents
+ * @returns The backup, or the i18n key of the reason it can't be restored
+ */
+export const parseBackup = (text: string): { backup: BackupFile | null; error?: string } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { backup: null, error: 'backup.errors.invalidJson' };
+  }
+
+  if (!isRecord(data) || data.format !== BACKUP_FORMAT || typeof data.version !== 'number') {
+    return { backup: null, error: 'backup.errors.notBackup' };
+  }
+  if (data.version > BACKUP_VERSION) {
+    return { backup: null, error: 'backup.errors.newerVersion' };
+  }
+
+  const wallets = Array.isArray(data.wallets) ? data.wallets : null;
+  const isValid = wallets !== null
+    && wallets.every(isValidWallet)
+    && Array.isArray(data.categories) && data.categories.every(isValidCategory)
+    && Array.isArray(data.transfers) && data.transfers.every(transfer =>
+      isRecord(transfer) && isAmount(transfer.amount) && isDate(transfer.date)
+      && wallets.some(wallet => wallet.id === transfer.fromWalletId)
+      && wallets.some(wallet => wallet.id === transfer.toWalletId)
+    );
+  if (!isValid) {
+    return { backup: null, error: 'backup.errors.invalidData' };
+  }
+
+  return { backup: data as unknown as BackupFile };
+};
+
+// What a restore will create; everything else in the backup already exists
+export interface RestorePlan {
+  backup: BackupFile;
+  newCategories: BackupCategory[];
+  newSubcategories: { category: BackupCategory; subcategory: BackupSubcategory }[];
+  existingCategoryIds: Map<string, number>; // By category key
+  newWallets: BackupWallet[];
+  existingWalletIds: Map<number, number>; // Backup wallet ID → ID of the matching wallet
+  newTransactions: { wallet: BackupWallet; transaction: BackupTransaction }[];
+  newTransfers: BackupTransfer[];
+  skippedTransactions: number; // Already in the account
+  skippedTransfers: number;
+}
+
+const getCategoryKey = (type: TransactionType, name: string): string => `${type}|${name.trim().toLowerCase()}`;
+
+const getTransactionKey = (
+  transaction: Pick<TransactionDto, 'date' | 'type' | 'amount' | 'category' | 'description'>
+): string => {
+  const cents = Math.round((Number(transaction.amount) || 0) * 100);
+  return [transaction.date.split('T')[0], transaction.type, cents, transaction.category, transaction.description ?? ''].join('|');
+};
+
+/**
+ * Take one match out of a multiset of keys
+ * @returns Whether the key was there
+ */
+const takeKey = (keys: Map<string, number>, key: string): boolean => {
+  const count = keys.get(key) ?? 0;
+  if (count === 0) {
+    return false;
+  }
+  keys.set(key, count - 1);
+  return true;
+};
+
+const countKeys = (keys: string[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  keys.forEach(key => counts.set(key, (counts.get(key) ?? 0) + 1));
+  return counts;
+};
+
+/**
+ * Compare a backup with the account and work out what a restore would create
+ * Categories match on type and name, wallets on name and currency, and transactions
+ * on date, direction, amount, category and description - so restoring the same
+ * backup twice creates nothing the second time
+ * @param backup - Validated backup
+ */
+export const planRestore = async (backup: BackupFile): Promise<RestorePlan> => {
+  const data = await loadAccountData();
+
+  // Existing categories (hidden ones included) and their subcategory names
+  const existingCategoryIds = new Map<string, number>();
+  const existingSubcategories = new Set<string>();
+  const categoryKeysById = new Map<number, string>();
+  [...data.categories, ...data.hiddenCategories].forEach((category) => {
+    const key = getCategoryKey(category.type, category.name);
+    existingCategoryIds.set(key, category.id);
+    categoryKeysById.set(category.id, key);
+    (category.subcategories ?? []).forEach(sub => existingSubcategories.add(`${key}|${sub.name.trim().toLowerCase()}`));
+  });
+  data.hiddenSubcategories.forEach((sub) => {
+    const key = categoryKeysById.get(sub.categoryId);
+    if (key) {
+      existingSubcategories.add(`${key}|${sub.name.trim().toLowerCase()}`);
+    }
+  });
+
+  const newCategories = backup.categories.filter(category => !existingCategoryIds.has(getCategoryKey(category.type, category.name)));
+  const newSubcategories = backup.categories.flatMap(category =>
+    category.subcategories
+      .filter(sub => !existingSubcategories.has(`${getCategoryKey(category.type, category.name)}|${sub.name.trim().toLowerCase()}`))
+      .map(subcategory => ({ category, subcategory }))
+  );
+
+  // Wallets match on name and currency; their transactions are merged
+  const existingWalletIds = new Map<number, number>();
+  const existingKeys = new Map<number, Map<string, number>>();
+  const existingTransferKeys = new Map<number, Map<string, number>>();
+  backup.wallets.forEach((backupWallet) => {
+    const match = data.wallets.find(({ wallet }) =>
+      wallet.name.trim().toLowerCase() === backupWallet.name.trim().toLowerCase() && wallet.currency === backupWallet.currency
+      && !Array.from(existingWalletIds.values()).includes(wallet.id)
+    );
+    if (match) {
+      existingWalletIds.set(backupWallet.id, match.wallet.id);
+      existingKeys.set(backupWallet.id, countKeys(match.transactions.filter(t => !t.transferId).map(getTransactionKey)));
+      existingTransferKeys.set(backupWallet.id, countKeys(match.transactions
+        .filter(t => t.transferId && t.type === 'DEBIT')
+        .map(t => `${t.date.split('T')[0]}|${Math.round((Number(t.amount) || 0) * 100)}`)));
+    }
+  });
+
+  let skippedTransactions = 0;
+  const newTransactions = backup.wallets.flatMap(wallet =>
+    wallet.transactions.filter((transaction) => {
+      const keys = existingKeys.get(wallet.id);
+      if (keys && takeKey(keys, getTransactionKey(transaction))) {
+        skippedTransactions++;
+        return false;
+      }
+      return true;
+    }).map(transaction => ({ wallet, transaction }))
+  );
+
+  let skippedTransfers = 0;
+  const newTransfers = backup.transfers.filter((transfer) => {
+    const keys = existingTransferKeys.get(transfer.fromWalletId);
+    if (keys && takeKey(keys, `${transfer.date}|${Math.round(transfer.amount * 100)}`)) {
+      skippedTransfers++;
+      return false;
+    }
+    return true;
+  });
+
+  return {
+    backup,
+    newCategories,
+    newSubcategories,
+    existingCategoryIds,
+    newWallets: backup.wallets.filter(wallet => !existingWalletIds.has(wallet.id)),
+    existingWalletIds,
+    newTransactions,
+    newTransfers,
+    skippedTransactions,
+    skippedTransfers,
+  };
+};
+
+/**
+ * Number of create requests a restore makes (for progress)
+ */
+export const getRestoreStepCount = (plan: RestorePlan): number => {
+  return plan.newCategories.length + plan.newSubcategories.length + plan.newWallets.length
+    + plan.newTransactions.length + plan.newTransfers.length;
+};
+
+const toTransactionData = (transaction: BackupTransaction): CreateTransactionDto => ({
+  type: transaction.type,
+  category: transaction.category,
+  subcategory: transaction.subcategory,
+  amount: transaction.amount,
+  splits: transaction.splits,
+  description: transaction.description,
+  date: transaction.date,
+});
+
+/**
+ * Mark a restored transaction as cleared if it was cleared or reconciled
+ * (reconciliations aren't part of the backup, so they can't be redone)
+ */
+const restoreStatus = async (transactionId: number, transaction: BackupTransaction): Promise<void> => {
+  if (transaction.status === 'CLEARED' || transaction.status === 'RECONCILED') {
+    await setTransactionStatus(transactionId, 'CLEARED');
+  }
+};
+
+/**
+ * Create everything in a restore plan, in dependency order
+ * Stops at the first error; running the restore again resumes, since what was
+ * already created then matches existing entities
+ * @param plan - Plan from planRestore
+ * @param onProgress - Called after each create request
+ */
+export const restoreBackup = async (plan: RestorePlan, onProgress: (done: number) => void): Promise<void> => {
+  let done = 0;
+  const step = () => onProgress(++done);
+
+  try {
+    // Categories first (hidden ones are hidden again after creating them)
+    const categoryIds = new Map(plan.existingCategoryIds);
+    for (const category of plan.newCategories) {
+      const created = await postJson<CategoryDto>('/api/categories', {
+        name: category.name,
+        type: category.type,
+      });
+      categoryIds.set(getCategoryKey(category.type, category.name), created.id);
+      step();
+    }
+
+    for (const { category, subcategory } of plan.newSubcategories) {
+      const categoryId = categoryIds.get(getCategoryKey(category.type, category.name));
+      if (categoryId !== undefined) {
+        const created = await postJson<SubcategoryDto>('/api/categories/subcategories', {
+          name: subcategory.name,
+          categoryId,
+        });
+        if (subcategory.hidden && !category.hidden) {
+          await deleteJson(`/api/categories/subcategories/${created.id}`);
+        }
+      }
+      step();
+    }
+
+    for (const category of plan.newCategories.filter(c => c.hidden)) {
+      const categoryId = categoryIds.get(getCategoryKey(category.type, category.name));
+      if (categoryId !== undefined) {
+        await deleteJson(`/api/categories/${categoryId}`);
+      }
+    }
+
+    // Wallets, then their transactions and the transfers between them
+    const walletIds = new Map(plan.existingWalletIds);
+    const archivedWallets: { id: number; data: CreateWalletDto }[] = [];
+    for (const wallet of plan.newWallets) {
+      const walletData: CreateWalletDto = {
+        name: wallet.name,
+        currency: wallet.currency,
+        type: wallet.type,
+        openingBalance: wallet.openingBalance,
+        openingDate: wallet.openingDate,
+        creditLimit: wallet.creditLimit,
+        statementClosingDay: wallet.statementClosingDay,
+        paymentDueDay: wallet.paymentDueDay,
+      };
+      const created = await postJson<WalletDto>('/api/wallets', walletData);
+      walletIds.set(wallet.id, created.id);
+      if (wallet.archived) {
+        archivedWallets.push({ id: created.id, data: walletData });
+      }
+      step();
+    }
+
+    // Transactions with a bank ID go through the import endpoint, which keeps the ID so
+    // importing the same bank file again still skips them
+    const importedByWallet = new Map<number, BackupTransaction[]>();
+    for (const { wallet, transaction } of plan.newTransactions) {
+      const walletId = walletIds.get(wallet.id);
+      if (transaction.externalId && walletId !== undefined) {
+        importedByWallet.set(walletId, [...(importedByWallet.get(walletId) ?? []), transaction]);
+        continue;
+      }
+      const created = await postJson<TransactionDto>(`/api/wallets/${walletId}/transactions`, toTransactionData(transaction));
+      await restoreStatus(created.id, transaction);
+      step();
+    }
+
+    for (const [walletId, transactions] of importedByWallet) {
+      const result = await importTransactions(walletId, {
+        transactions: transactions.map((transaction, index) => ({
+          type: transaction.type,
+          amount: transaction.amount,
+          date: transaction.date,
+          description: transaction.description,
+          category: transaction.category,
+          externalId: transaction.externalId,
+          line: index + 1,
+        })),
+      });
+      if (result.errors && result.errors.length > 0) {
+        throw new ApiError(422, result.errors[0]);
+      }
+
+      // The import only takes the basics - find the imported transactions to restore the rest
+      const importedByExternalId = new Map(
+        (await getWalletTransactions(walletId, undefined, { force: true }))
+          .filter(tx => tx.externalId)
+          .map(tx => [tx.externalId, tx])
+      );
+      for (const transaction of transactions) {
+        const imported = importedByExternalId.get(transaction.externalId);
+        if (imported) {
+          if (transaction.subcategory || transaction.splits) {
+            await putJson<TransactionDto>(`/api/transactions/${imported.id}`, toTransactionData(transaction));
+          }
+          await restoreStatus(imported.id, transaction);
+        }
+        step();
+      }
+    }
+
+    const walletsById = new Map(plan.backup.wallets.map(wallet => [wallet.id, wallet]));
+    for (const transfer of plan.newTransfers) {
+      const fromWalletId = walletIds.get(transfer.fromWalletId);
+      const toWalletId = walletIds.get(transfer.toWalletId);
+      if (fromWalletId !== undefined && toWalletId !== undefined) {
+        const sameCurrency = walletsById.get(transfer.fromWalletId)?.currency === walletsById.get(transfer.toWalletId)?.currency;
+        await postJson<TransferDto>('/api/transfers', {
+          fromWalletId,
+          toWalletId,
+          amount: transfer.amount,
+          exchangeRate: sameCurrency ? undefined : transfer.exchangeRate,
+          date: transfer.date,
+          description: transfer.description,
+        });
+      }
+      step();
+    }
+
+    // Archive last, so archived wallets could still receive their transfers
+    for (const { id, data } of archivedWallets) {
+      await updateWallet(id, { ...data, archived: true });
+    }
+  } finally {
+    invalidateCategories();
+    invalidateWalletData();
+  }
+};
@@ -0,0 +1,208 @@
+/**
+ * Bulk transaction actions for Finance Control
+ * Applies one change to many transactions and keeps what is needed to undo it
+ */
+
+import { ApiError, deleteJson, importTransactions, postJson, putJson, setTransactionStatus } from './api';
+import { getWalletTransactions, invalidateWalletData } from './queries';
+import type { CreateTransactionDto, TransactionDto, UpdateTransactionDto } from '../types/dtos';
+
+export type BulkAction =
+  | { kind: 'category'; category: string; subcategory?: string }
+  | { kind: 'subcategory'; subcategory?: string }
+  | { kind: 'wallet'; walletId: number }
+  | { kind: 'date'; date: string };
+
+export interface BulkResult {
+  succeeded: number;
+  failed: number;
+  error?: string; // Message of the first failure
+  undo: () => Promise<BulkResult>; // Reverts the transactions that succeeded (its own undo does nothing)
+}
+
+/**
+ * Whether a transaction can take part in a bulk action
+ * Transfers only change as a whole and reconciled transactions are locked
+ */
+export const isBulkEditable = (transaction: TransactionDto): boolean => {
+  return !transaction.transferId && transaction.status !== 'RECONCILED';
+};
+
+const toTransactionData = (
+  transaction: TransactionDto,
+  changes: Partial<UpdateTransactionDto> = {}
+): UpdateTransactionDto & CreateTransactionDto => ({
+  type: transaction.type,
+  category: transaction.category,
+  subcategory: transaction.subcategory,
+  amount: Number(transaction.amount) || 0,
+  splits: transaction.splits?.length ? transaction.splits : undefined,
+  description: transaction.description,
+  date: transaction.date.split('T')[0],
+  ...changes,
+});
+
+/**
+ * Import a transaction with a bank ID into a wallet, so importing the same bank file
+ * again still skips it, and find the imported transaction
+ */
+const importTransaction = async (transaction: TransactionDto, walletId: number): Promise<TransactionDto> => {
+  const data = toTransactionData(transaction);
+  const result = await importTransactions(walletId, {
+    transactions: [{
+      type: data.type,
+      amount: data.amount,
+      date: data.date,
+      description: data.description,
+      category: data.category,
+      externalId: transaction.externalId,
+      line: 1,
+    }],
+  });
+  if (result.errors && result.errors.length > 0) {
+    throw new ApiError(422, result.errors[0]);
+  }
+  if (result.created === 0) {
+    // Skipped - the wallet already has a transaction with this bank ID
+    throw new Error(`Transaction ${transaction.externalId} is already in wallet ${walletId}`);
+  }
+
+  // The import only takes the basics and returns no transaction, so look it up by its bank ID
+  const params = new URLSearchParams({ fromDate: data.date, toDate: data.date });
+  const imported = (await getWalletTransactions(walletId, params, { force: true }))
+    .find(tx => tx.externalId === transaction.externalId);
+  if (!imported) {
+    throw new Error(`Imported transaction ${transaction.externalId} not found in wallet ${walletId}`);
+  }
+  if (data.subcategory || data.splits) {
+    return putJson<TransactionDto>(`/api/transactions/${imported.id}`, data);
+  }
+  return imported;
+};
+
+/**
+ * Create a copy of a transaction in a wallet, keeping its bank ID and keeping it cleared if it was
+ */
+const recreateTransaction = async (transaction: TransactionDto, walletId: number): Promise<TransactionDto> => {
+  const created = transaction.externalId
+    ? await importTransaction(transaction, walletId)
+    : await postJson<TransactionDto>(`/api/wallets/${walletId}/transactions`, toTransactionData(transaction));
+  if (transaction.status === 'CLEARED') {
+    return setTransactionStatus(created.id, 'CLEARED');
+  }
+  return created;
+};
+
+/**
+ * Run one step per item, one request at a time, and collect the undo steps of those that succeed
+ */
+const runSteps = async <T>(
+  items: T[],
+  step: (item: T) => Promise<() => Promise<void>>
+): Promise<BulkResult> => {
+  const undoSteps: (() => Promise<void>)[] = [];
+  let failed = 0;
+  let error: string | undefined;
+
+  try {
+    for (const item of items) {
+      try {
+        undoSteps.push(await step(item));
+      } catch (stepError) {
+        failed++;
+        error ??= stepError instanceof ApiError ? stepError.message : undefined;
+      }
+    }
+  } finally {
+    invalidateWalletData();
+  }
+
+  return {
+    succeeded: undoSteps.length,
+    failed,
+    error,
+    undo: () => runSteps(undoSteps.reverse(), async (undoStep) => {
+      await undoStep();
+      return async () => {};
+    }),
+  };
+};
+
+/**
+ * Apply a bulk action to transactions
+ * Each transaction is handled on its own, so one failure doesn't stop the others
+ * Moving to another wallet creates a copy there (with the same bank ID) and deletes
+ * the original, since transactions can't change wallet
+ * Deleting is not a bulk action: use deleteTransactions once its undo window has passed
+ * @param transactions - Transactions to change (should all be bulk-editable)
+ * @param action - Change to apply
+ */
+export const applyBulkAction = (transactions: TransactionDto[], action: BulkAction): Promise<BulkResult> => {
+  const update = async (transaction: TransactionDto, changes: Partial<UpdateTransactionDto>) => {
+    await putJson<TransactionDto>(`/api/transactions/${transaction.id}`, toTransactionData(transaction, changes));
+    return async () => {
+      await putJson<TransactionDto>(`/api/transactions/${transaction.id}`, toTransactionData(transaction));
+    };
+  };
+
+  return runSteps(transactions, async (transaction) => {
+    switch (action.kind) {
+      case 'category':
+        // The whole amount goes to the new category, so a split transaction stops being split
+        return update(transaction, { category: action.category, subcategory: action.subcategory, splits: undefined });
+      case 'subcategory':
+        // On a split transaction, the lines in the transaction's category change
+        return update(transaction, {
+          subcategory: action.subcategory,
+          splits: transaction.splits?.map(line => (
+            line.category === transaction.category ? { ...line, subcategory: action.subcategory } : line
+          )),
+        });
+      case 'date':
+        return update(transaction, { date: action.date });
+      case 'wallet': {
+        const moved = await recreateTransaction(transaction, action.walletId);
+        try {
+          await deleteJson(`/api/transactions/${transaction.id}`);
+        } catch (error) {
+          // Don't leave the transaction in both wallets
+          await deleteJson(`/api/transactions/${moved.id}`);
+          throw error;
+        }
+        return async () => {
+          await recreateTransaction(transaction, transaction.walletId);
+          await deleteJson(`/api/transactions/${moved.id}`);
+        };
+      }
+    }
+  });
+};
+
+/**
+ * Delete transactions
+ * The requests are sent together, with keepalive, so a delete sent while the tab
+ * closes still goes through
+ * @param transactions - Transactions to delete (should all be bulk-editable)
+ * @returns The transactions that could not be deleted, and the message of the first failure
+ */
+export const deleteTransactions = async (
+  transactions: TransactionDto[]
+): Promise<{ failed: TransactionDto[]; error?: string }> => {
+  const failed: TransactionDto[] = [];
+  let error: string | undefined;
+
+  try {
+    await Promise.all(transactions.map(async (transaction) => {
+      try {
+        await deleteJson(`/api/transactions/${transaction.id}`, true, { keepalive: true });
+      } catch (deleteError) {
+        failed.push(transaction);
+        error ??= deleteError instanceof ApiError ? deleteError.message : undefined;
+      }
+    }));
+  } finally {
+    invalidateWalletData();
+  }
+
+  return { failed, error };
+};
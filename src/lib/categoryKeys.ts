@@ -0,0 +1,79 @@
+/**
+ * Default category names for Finance Control
+ * The default categories and subcategories are stored in English; these maps give the
+ * translation key of each one (under defaultCategories / defaultSubcategories)
+ */
+
+// Mapeamento de nomes de categorias padrão para chaves de tradução
+export const categoryNameToKey: Record<string, string> = {
+  'Food & Dining': 'foodDining',
+  'Transportation': 'transportation',
+  'Shopping': 'shopping',
+  'Bills & Utilities': 'billsUtilities',
+  'Entertainment': 'entertainment',
+  'Health': 'health',
+  'Education': 'education',
+  'Other Expenses': 'otherExpenses',
+  'Salary': 'salary',
+  'Investments': 'investments',
+  'Freelance': 'freelance',
+  'Gifts Received': 'giftsReceived',
+  'Other Income': 'otherIncome',
+};
+
+// Mapeamento de nomes de subcategorias padrão para chaves de tradução
+export const subcategoryNameToKey: Record<string, string> = {
+  'Restaurants': 'restaurants',
+  'Groceries': 'groceries',
+  'Fast Food': 'fastFood',
+  'Coffee': 'coffee',
+  'Delivery': 'delivery',
+  'Fuel': 'fuel',
+  'Public Transport': 'publicTransport',
+  'Taxi/Uber': 'taxiUber',
+  'Parking': 'parking',
+  'Car Maintenance': 'carMaintenance',
+  'Clothing': 'clothing',
+  'Electronics': 'electronics',
+  'Home & Garden': 'homeGarden',
+  'Personal Care': 'personalCare',
+  'Gifts': 'gifts',
+  'Electricity': 'electricity',
+  'Water': 'water',
+  'Internet': 'internet',
+  'Phone': 'phone',
+  'Rent/Mortgage': 'rentMortgage',
+  'Movies': 'movies',
+  'Games': 'games',
+  'Concerts': 'concerts',
+  'Sports': 'sports',
+  'Subscriptions': 'subscriptions',
+  'Medical': 'medical',
+  'Pharmacy': 'pharmacy',
+  'Gym': 'gym',
+  'Insurance': 'insurance',
+  'Courses': 'courses',
+  'Books': 'books',
+  'School Supplies': 'schoolSupplies',
+  'Tuition': 'tuition',
+  'Miscellaneous': 'miscellaneous',
+  'Fees': 'fees',
+  'Donations': 'donations',
+  'Monthly Salary': 'monthlySalary',
+  'Bonus': 'bonus',
+  'Overtime': 'overtime',
+  'Commission': 'commission',
+  'Dividends': 'dividends',
+  'Interest': 'interest',
+  'Capital Gains': 'capitalGains',
+  'Rental Income': 'rentalIncome',
+  'Consulting': 'consulting',
+  'Projects': 'projects',
+  'Gigs': 'gigs',
+  'Birthday': 'birthday',
+  'Holiday': 'holiday',
+  'Other': 'other',
+  'Refunds': 'refunds',
+  'Cashback': 'cashback',
+  'Reimbursements': 'reimbursements',
+};
@@ -0,0 +1,47 @@
+/**
+ * Credit card helpers for Finance Control
+ * Statement cycle dates of credit-card wallets
+ */
+
+import { addMonths, format, getDaysInMonth, setDate, startOfDay, subMonths } from 'date-fns';
+
+/**
+ * The statement cycle a date falls in
+ */
+export interface StatementCycle {
+  lastClosingDate: string; // Closing date of the last closed statement (format: YYYY-MM-DD)
+  nextClosingDate: string; // Closing date of the statement currently open
+  dueDate: string; // Payment due date of the last closed statement
+}
+
+/**
+ * A day of the month clamped to the length of the month (e.g. day 31 in February is the 28th/29th)
+ */
+const getDayInMonth = (month: Date, day: number): Date => {
+  return setDate(month, Math.min(day, getDaysInMonth(month)));
+};
+
+/**
+ * Get the statement cycle of a credit card on a given date
+ * A statement closes at the end of its closing day; the payment is due on the first
+ * due day after the closing date
+ * @param closingDay - Day of the month the statement closes (1-31)
+ * @param dueDay - Day of the month the payment is due (1-31)
+ * @param today - Reference date (defaults to now)
+ */
+export const getStatementCycle = (closingDay: number, dueDay: number, today: Date = new Date()): StatementCycle => {
+  const day = startOfDay(today);
+
+  const closingThisMonth = getDayInMonth(day, closingDay);
+  const lastClosing = closingThisMonth < day ? closingThisMonth : getDayInMonth(subMonths(day, 1), closingDay);
+  const nextClosing = getDayInMonth(addMonths(lastClosing, 1), closingDay);
+
+  const dueInClosingMonth = getDayInMonth(lastClosing, dueDay);
+  const due = dueInClosingMonth > lastClosing ? dueInClosingMonth : getDayInMonth(addMonths(lastClosing, 1), dueDay);
+
+  return {
+    lastClosingDate: format(lastClosing, 'yyyy-MM-dd'),
+    nextClosingDate: format(nextClosing, 'yyyy-MM-dd'),
+    dueDate: format(due, 'yyyy-MM-dd'),
+  };
+};
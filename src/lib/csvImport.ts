@@ -0,0 +1,310 @@
+/**
+ * CSV import helpers for Finance Control
+ * Reads bank CSV exports into import rows using a column mapping chosen in the preview
+ */
+
+import type { ImportRow } from './importRows';
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+// Order of the day, month and year parts of a date (the separator doesn't matter)
+export type CsvDateFormat = 'YMD' | 'DMY' | 'MDY';
+
+// How the file tells income and expenses apart
+export type CsvSignConvention =
+  | 'NEGATIVE_IS_EXPENSE' // Most bank accounts: -12.50 is an expense
+  | 'POSITIVE_IS_EXPENSE' // Most credit card statements: purchases are positive
+  | 'SEPARATE_COLUMNS'; // One column for debits and another for credits
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [',', ';', '\t'];
+export const CSV_DATE_FORMATS: CsvDateFormat[] = ['DMY', 'YMD', 'MDY'];
+export const CSV_SIGN_CONVENTIONS: CsvSignConvention[] = ['NEGATIVE_IS_EXPENSE', 'POSITIVE_IS_EXPENSE', 'SEPARATE_COLUMNS'];
+
+// Which column holds each field (-1 when the file doesn't have it)
+export interface CsvMapping {
+  delimiter: CsvDelimiter;
+  hasHeader: boolean;
+  dateFormat: CsvDateFormat;
+  signConvention: CsvSignConvention;
+  dateColumn: number;
+  amountColumn: number; // The debit column with SEPARATE_COLUMNS
+  creditColumn: number; // Only used with SEPARATE_COLUMNS
+  descriptionColumn: number;
+  categoryColumn: number;
+}
+
+/**
+ * Split CSV text into records, honouring quoted fields (with "" escapes and line breaks)
+ * @param text - CSV file contents
+ * @param delimiter - Field delimiter
+ */
+export const parseCsv = (text: string, delimiter: CsvDelimiter): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Blank lines carry no data
+  return records
+    .map(fields => fields.map(value => value.trim()))
+    .filter(fields => fields.some(value => value !== ''));
+};
+
+/**
+ * Guess the delimiter from the first line (the one it splits into the most fields)
+ * @param text - CSV file contents
+ */
+export const detectCsvDelimiter = (text: string): CsvDelimiter => {
+  const firstLine = text.split(/\r?\n/)[0] ?? '';
+  const counts = CSV_DELIMITERS.map(delimiter => firstLine.split(delimiter).length);
+  return CSV_DELIMITERS[counts.indexOf(Math.max(...counts))];
+};
+
+/**
+ * Parse a date in the given part order
+ * Two-digit years are taken as 20xx
+ * @returns The date as YYYY-MM-DD, or null when it isn't a valid date
+ */
+export const parseCsvDate = (value: string, format: CsvDateFormat): string | null => {
+  const parts = value.split(/[^0-9]+/).filter(Boolean);
+  if (parts.length < 3) {
+    return null;
+  }
+
+  const [first, second, third] = parts.map(part => parseInt(part, 10));
+  const [year, month, day] =
+    format === 'YMD' ? [first, second, third] :
+    format === 'DMY' ? [third, second, first] :
+    [third, first, second];
+  const fullYear = year < 100 ? 2000 + year : year;
+
+  // Reject impossible dates such as 31/02 instead of rolling them over
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  if (date.getUTCFullYear() !== fullYear || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * Parse an amount written with either decimal separator ("1.234,56", "1,234.56", "-12,5")
+ * Amounts in parentheses or with a trailing minus are negative
+ * @returns The signed amount, or null when it isn't a number
+ */
+export const parseCsvAmount = (value: string): number | null => {
+  const trimmed = value.trim();
+  const isNegative = /^-|-$|^\(.*\)$/.test(trimmed);
+  let digits = trimmed.replace(/[^0-9.,]/g, '');
+  if (!/[0-9]/.test(digits)) {
+    return null;
+  }
+
+  const lastComma = digits.lastIndexOf(',');
+  const lastDot = digits.lastIndexOf('.');
+  if (lastComma !== -1 && lastDot !== -1) {
+    // Both separators: the last one is the decimal separator
+    const decimal = lastComma > lastDot ? ',' : '.';
+    const thousands = decimal === ',' ? '.' : ',';
+    digits = digits.split(thousands).join('').replace(decimal, '.');
+  } else if (lastComma !== -1) {
+    // A single comma followed by one or two digits is a decimal comma
+    const isDecimal = digits.indexOf(',') === lastComma && digits.length - lastComma - 1 <= 2;
+    digits = isDecimal ? digits.replace(',', '.') : digits.split(',').join('');
+  } else if (digits.indexOf('.') !== lastDot) {
+    // Several dots can only be thousands separators
+    digits = digits.split('.').join('');
+  }
+
+  const amount = parseFloat(digits);
+  if (Number.isNaN(amount)) {
+    return null;
+  }
+  return isNegative ? -amount : amount;
+};
+
+/**
+ * Guess the date format from sample values
+ * A first part over 12 can only be a day, a second part over 12 only a day in MDY
+ * @param values - Sample date values
+ * @param fallback - Format when the samples are ambiguous
+ */
+export const guessDateFormat = (values: string[], fallback: CsvDateFormat = 'DMY'): CsvDateFormat => {
+  for (const value of values) {
+    const parts = value.split(/[^0-9]+/).filter(Boolean);
+    if (parts.length < 3) {
+      continue;
+    }
+    if (parts[0].length === 4) {
+      return 'YMD';
+    }
+    if (parseInt(parts[0], 10) > 12) {
+      return 'DMY';
+    }
+    if (parseInt(parts[1], 10) > 12) {
+      return 'MDY';
+    }
+  }
+  return fallback;
+};
+
+/**
+ * Find the first header matching a pattern
+ * @returns The column index, or -1
+ */
+const findColumn = (header: string[], pattern: RegExp, exclude: number[] = []): number => {
+  return header.findIndex((name, index) => !exclude.includes(index) && pattern.test(name));
+};
+
+/**
+ * Guess the column mapping of a file from its header (English and Portuguese names)
+ * Files without a recognisable header fall back to the shape of the first row
+ * @param text - CSV file contents
+ * @param delimiter - Field delimiter (detected when omitted)
+ */
+export const guessCsvMapping = (text: string, delimiter: CsvDelimiter = detectCsvDelimiter(text)): CsvMapping => {
+  const records = parseCsv(text, delimiter);
+  const header = (records[0] ?? []).map(name => name.toLowerCase());
+
+  let dateColumn = findColumn(header, /date|data/);
+  let amountColumn = findColumn(header, /amount|valor|montante|value|quantia/);
+  const debitColumn = findColumn(header, /debit|débito|debito/);
+  const creditColumn = findColumn(header, /credit|crédito|credito/);
+  let descriptionColumn = findColumn(header, /desc|memo|payee|detail|narrat|movimento|histórico/, [dateColumn]);
+  const categoryColumn = findColumn(header, /categ/);
+  const hasHeader = dateColumn !== -1 || amountColumn !== -1 || debitColumn !== -1;
+
+  // Separate debit and credit columns are only used when there's no single amount column
+  const signConvention: CsvSignConvention =
+    amountColumn === -1 && debitColumn !== -1 && creditColumn !== -1 ? 'SEPARATE_COLUMNS' : 'NEGATIVE_IS_EXPENSE';
+  if (signConvention === 'SEPARATE_COLUMNS') {
+    amountColumn = debitColumn;
+  }
+
+  if (!hasHeader) {
+    // Date first, the last numeric field is the amount, the first other field the description
+    const sample = records[0] ?? [];
+    dateColumn = 0;
+    amountColumn = sample.map(value => parseCsvAmount(value) !== null && !/[/-].*[/-]/.test(value)).lastIndexOf(true);
+    descriptionColumn = sample.findIndex((_, index) => index !== dateColumn && index !== amountColumn);
+  }
+
+  const dataRecords = hasHeader ? records.slice(1) : records;
+
+  return {
+    delimiter,
+    hasHeader,
+    dateFormat: guessDateFormat(dataRecords.slice(0, 20).map(record => record[dateColumn] ?? '')),
+    signConvention,
+    dateColumn,
+    amountColumn,
+    creditColumn: signConvention === 'SEPARATE_COLUMNS' ? creditColumn : -1,
+    descriptionColumn,
+    categoryColumn,
+  };
+};
+
+/**
+ * Read the signed amount of a record (negative for expenses)
+ * @returns The amount, or null when the amount columns can't be read
+ */
+const readSignedAmount = (record: string[], mapping: CsvMapping): number | null => {
+  if (mapping.signConvention === 'SEPARATE_COLUMNS') {
+    const debit = record[mapping.amountColumn] ? parseCsvAmount(record[mapping.amountColumn]) : 0;
+    const credit = record[mapping.creditColumn] ? parseCsvAmount(record[mapping.creditColumn]) : 0;
+    if (debit === null || credit === null) {
+      return null;
+    }
+    // Some banks write debits as negative numbers in the debit column
+    return Math.abs(credit) - Math.abs(debit);
+  }
+
+  const amount = parseCsvAmount(record[mapping.amountColumn] ?? '');
+  if (amount === null) {
+    return null;
+  }
+  return mapping.signConvention === 'POSITIVE_IS_EXPENSE' ? -amount : amount;
+};
+
+/**
+ * Build the import rows of a CSV file with a column mapping
+ * Rows that can't be read are kept with an error so they show up in the preview
+ * @param text - CSV file contents
+ * @param mapping - Column mapping chosen in the preview
+ */
+export const buildCsvRows = (text: string, mapping: CsvMapping): ImportRow[] => {
+  const records = parseCsv(text, mapping.delimiter);
+  const dataRecords = mapping.hasHeader ? records.slice(1) : records;
+  const firstLine = mapping.hasHeader ? 2 : 1;
+
+  return dataRecords.map((record, index) => {
+    const date = parseCsvDate(record[mapping.dateColumn] ?? '', mapping.dateFormat);
+    const amount = readSignedAmount(record, mapping);
+
+    let error: string | undefined;
+    if (mapping.dateColumn === -1 || mapping.amountColumn === -1) {
+      error = 'import.errors.unmapped';
+    } else if (date === null) {
+      error = 'import.errors.invalidDate';
+    } else if (amount === null || amount === 0) {
+      error = 'import.errors.invalidAmount';
+    }
+
+    return {
+      line: firstLine + index,
+      date: date ?? '',
+      type: amount !== null && amount > 0 ? 'CREDIT' : 'DEBIT',
+      amount: Math.abs(amount ?? 0),
+      description: record[mapping.descriptionColumn] ?? '',
+      category: record[mapping.categoryColumn] ?? '',
+      error,
+    };
+  });
+};
+
+/**
+ * Header names to show in the column selects
+ * Files without a header get "Column 1", "Column 2", ... from the label callback
+ * @param text - CSV file contents
+ * @param mapping - Current mapping (for the delimiter and header flag)
+ * @param columnLabel - Label of an unnamed column
+ */
+export const getCsvColumns = (text: string, mapping: CsvMapping, columnLabel: (index: number) => string): string[] => {
+  const firstRecord = parseCsv(text, mapping.delimiter)[0] ?? [];
+  return firstRecord.map((name, index) => (mapping.hasHeader && name ? name : columnLabel(index + 1)));
+};
@@ -0,0 +1,133 @@
+/**
+ * Currency conversion helpers for Finance Control
+ * Cross-wallet totals are converted to the user's base currency with a manually
+ * maintained (or imported) exchange-rate table, stored per user in localStorage
+ */
+
+// Currencies a wallet can use
+export const SUPPORTED_CURRENCIES = ['EUR', 'USD', 'GBP', 'BRL'];
+
+const CURRENCY_SETTINGS_KEY = 'fc_currency_settings';
+
+// Exchange rates keyed by currency code: how many base-currency units one unit is worth
+export type ExchangeRates = Record<string, number>;
+
+/**
+ * The user's base currency and exchange-rate table
+ */
+export interface CurrencySettings {
+  baseCurrency: string;
+  rates: ExchangeRates;
+}
+
+const DEFAULT_SETTINGS: CurrencySettings = { baseCurrency: 'EUR', rates: {} };
+
+const getStorageKey = (username: string | null): string => {
+  return `${CURRENCY_SETTINGS_KEY}:${username ?? ''}`;
+};
+
+/**
+ * Load a user's currency settings (defaults to EUR with no rates)
+ * @param username - Current user
+ */
+export const loadCurrencySettings = (username: string | null): CurrencySettings => {
+  try {
+    const stored = localStorage.getItem(getStorageKey(username));
+    if (!stored) {
+      return DEFAULT_SETTINGS;
+    }
+    const parsed = JSON.parse(stored) as Partial<CurrencySettings>;
+    return {
+      baseCurrency: parsed.baseCurrency || DEFAULT_SETTINGS.baseCurrency,
+      rates: parsed.rates ?? {},
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+/**
+ * Save a user's currency settings
+ * @param username - Current user
+ * @param settings - Settings to store
+ */
+export const saveCurrencySettings = (username: string | null, settings: CurrencySettings): void => {
+  localStorage.setItem(getStorageKey(username), JSON.stringify(settings));
+};
+
+/**
+ * Convert an amount to the base currency
+ * @param amount - Amount in the original currency
+ * @param currency - Original currency code
+ * @param settings - Base currency and exchange rates
+ * @returns The converted amount, or null when there is no rate for the currency
+ */
+export const convertAmount = (
+  amount: number | undefined | null,
+  currency: string,
+  settings: CurrencySettings
+): number | null => {
+  const value = Number(amount) || 0;
+  if (currency === settings.baseCurrency) {
+    return value;
+  }
+  const rate = settings.rates[currency];
+  return rate ? value * rate : null;
+};
+
+/**
+ * Switch to a new base currency, re-expressing the existing rates against it
+ * Rates can only be kept when the new base currency itself has a rate
+ * @param settings - Current settings
+ * @param baseCurrency - New base currency code
+ */
+export const rebaseCurrencySettings = (settings: CurrencySettings, baseCurrency: string): CurrencySettings => {
+  if (baseCurrency === settings.baseCurrency) {
+    return settings;
+  }
+
+  const newBaseRate = settings.rates[baseCurrency];
+  if (!newBaseRate) {
+    return { baseCurrency, rates: {} };
+  }
+
+  const rates: ExchangeRates = { [settings.baseCurrency]: 1 / newBaseRate };
+  Object.entries(settings.rates).forEach(([currency, rate]) => {
+    if (currency !== baseCurrency) {
+      rates[currency] = rate / newBaseRate;
+    }
+  });
+  return { baseCurrency, rates };
+};
+
+/**
+ * Parse an exchange-rate table from CSV text
+ * One "CURRENCY,RATE" pair per line; a header line, ";" separators and decimal
+ * commas (e.g. "USD;0,92") are accepted
+ * @param text - File contents
+ * @returns The parsed rates and the number of lines that could not be read
+ */
+export const parseExchangeRates = (text: string): { rates: ExchangeRates; invalidLines: number } => {
+  const rates: ExchangeRates = {};
+  let invalidLines = 0;
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      return;
+    }
+
+    const match = trimmed.match(/^"?([A-Za-z]{3})"?\s*[,;\t]\s*"?([0-9]+(?:[.,][0-9]+)?)"?$/);
+    const rate = match ? parseFloat(match[2].replace(',', '.')) : NaN;
+    if (!match || !(rate > 0)) {
+      // The first line may be a header (e.g. "currency,rate")
+      if (index > 0) {
+        invalidLines++;
+      }
+      return;
+    }
+    rates[match[1].toUpperCase()] = rate;
+  });
+
+  return { rates, invalidLines };
+};
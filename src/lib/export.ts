@@ -0,0 +1,144 @@
+/**
+ * Transaction export helpers for Finance Control
+ * Builds CSV, JSON and XLSX files of transactions and downloads them
+ */
+
+import { format } from 'date-fns';
+import type { CsvDelimiter } from './csvImport';
+import type { WalletWithTransactions } from './queries';
+import { getCategoryLines } from './splits';
+import { buildXlsx } from './xlsx';
+import type { TransactionType } from '../types/dtos';
+
+export type ExportFormat = 'CSV' | 'JSON' | 'XLSX';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['CSV', 'XLSX', 'JSON'];
+
+// One exported transaction (or one category line of a split transaction)
+export interface ExportRow {
+  date: string; // Format: YYYY-MM-DD
+  wallet: string;
+  currency: string;
+  type: TransactionType;
+  category: string;
+  subcategory: string;
+  description: string;
+  amount: number; // Negative for expenses
+}
+
+// Column order of the CSV and XLSX files
+export const EXPORT_COLUMNS: (keyof ExportRow)[] = [
+  'date', 'wallet', 'currency', 'type', 'category', 'subcategory', 'description', 'amount',
+];
+
+export interface ExportOptions {
+  fileName: string; // Without extension
+  headers: Record<keyof ExportRow, string>; // Column titles (translated)
+  delimiter: CsvDelimiter; // CSV only - with ';' amounts use a decimal comma, as Excel in pt-PT expects
+}
+
+/**
+ * Flatten wallets and their transactions into export rows, oldest first
+ * A split transaction gives one row per category line, so totals per category add up
+ * @param walletsData - Wallets with the transactions to export
+ */
+export const toExportRows = (walletsData: WalletWithTransactions[]): ExportRow[] => {
+  return walletsData
+    .flatMap(({ wallet, transactions }) =>
+      transactions.flatMap(transaction => getCategoryLines(transaction).map((line): ExportRow => {
+        const amount = Number(line.amount) || 0;
+        return {
+          date: transaction.date.split('T')[0],
+          wallet: wallet.name,
+          currency: wallet.currency,
+          type: transaction.type,
+          category: line.category ?? '',
+          subcategory: line.subcategory ?? '',
+          description: transaction.description ?? '',
+          amount: transaction.type === 'DEBIT' ? -amount : amount,
+        };
+      }))
+    )
+    .sort((a, b) => a.date.localeCompare(b.date) || a.wallet.localeCompare(b.wallet));
+};
+
+/**
+ * Quote a CSV field when needed
+ * Text starting with a formula character is prefixed with ' so spreadsheets don't evaluate it
+ */
+const toCsvField = (value: string, delimiter: CsvDelimiter): string => {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /["\r\n]/.test(safe) || safe.includes(delimiter) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/**
+ * Build a CSV file of export rows (with a BOM so Excel reads it as UTF-8)
+ */
+export const buildCsvExport = (rows: ExportRow[], options: ExportOptions): string => {
+  const { delimiter, headers } = options;
+  const decimalSeparator = delimiter === ';' ? ',' : '.';
+
+  const lines = [
+    EXPORT_COLUMNS.map(column => toCsvField(headers[column], delimiter)).join(delimiter),
+    ...rows.map(row =>
+      EXPORT_COLUMNS.map(column =>
+        column === 'amount'
+          ? row.amount.toFixed(2).replace('.', decimalSeparator)
+          : toCsvField(String(row[column]), delimiter)
+      ).join(delimiter)
+    ),
+  ];
+
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+};
+
+/**
+ * Offer a file for download
+ * @param blob - File contents
+ * @param fileName - Name with extension
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * File name safe for every OS, with today's date
+ * @param name - Base name (e.g. the wallet name)
+ */
+export const getExportFileName = (name: string): string => {
+  const safeName = name.trim().replace(/[^\p{L}\p{N}_-]+/gu, '-').replace(/^-+|-+$/g, '') || 'transactions';
+  return `${safeName}-${format(new Date(), 'yyyy-MM-dd')}`;
+};
+
+/**
+ * Build an export file in the chosen format and download it
+ * @param rows - Rows to export
+ * @param exportFormat - File format
+ * @param options - File name, column titles and CSV delimiter
+ */
+export const downloadExport = (rows: ExportRow[], exportFormat: ExportFormat, options: ExportOptions): void => {
+  switch (exportFormat) {
+    case 'CSV':
+      downloadBlob(new Blob([buildCsvExport(rows, options)], { type: 'text/csv;charset=utf-8' }), `${options.fileName}.csv`);
+      break;
+    case 'JSON':
+      downloadBlob(new Blob([JSON.stringify(rows, null, 2)], { type: 'application/json' }), `${options.fileName}.json`);
+      break;
+    case 'XLSX':
+      downloadBlob(
+        buildXlsx(options.fileName, [
+          EXPORT_COLUMNS.map(column => options.headers[column]),
+          ...rows.map(row => EXPORT_COLUMNS.map(column => row[column])),
+        ]),
+        `${options.fileName}.xlsx`
+      );
+      break;
+  }
+};
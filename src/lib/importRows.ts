@@ -0,0 +1,85 @@
+/**
+ * Import row helpers for Finance Control
+ * Draft rows read from bank files before they are confirmed for import
+ */
+
+import type { ImportTransactionDto, TransactionDto, TransactionType } from '../types/dtos';
+
+// A transaction read from an import file, shown in the preview before importing
+export interface ImportRow {
+  line: number; // Line (or record) number in the file, for error messages
+  date: string; // Format: YYYY-MM-DD ('' when it couldn't be read)
+  type: TransactionType;
+  amount: number; // Always positive - the sign is in the type
+  description: string;
+  category: string; // Empty when the file has none - the server classifies it
+  externalId?: string; // Bank transaction ID, when the format has one
+  error?: string; // i18n key of the reason the row can't be imported
+}
+
+// Why a row is flagged as a duplicate
+export type DuplicateKind =
+  | 'IMPORTED' // A transaction with the same bank ID was already imported
+  | 'SIMILAR'; // A transaction with the same date, direction and amount exists
+
+/**
+ * Key identifying a transaction for duplicate detection (same day, direction and amount)
+ */
+const getDuplicateKey = (date: string, type: TransactionType, amount: number): string => {
+  return `${date}|${type}|${Math.round(amount * 100)}`;
+};
+
+/**
+ * Find the rows that are probably already in the wallet
+ * Rows with a bank ID are matched on it; the rest on date, direction and amount.
+ * Each existing transaction can only match one row, so two identical payments on
+ * the same day are only flagged if the wallet already has both
+ * @param rows - Rows read from the file
+ * @param existing - Transactions already in the wallet
+ * @returns Kind of duplicate by line of the flagged rows
+ */
+export const findDuplicateRows = (rows: ImportRow[], existing: TransactionDto[]): Map<number, DuplicateKind> => {
+  const importedIds = new Set(existing.map(transaction => transaction.externalId).filter(Boolean));
+  const available = new Map<string, number>();
+  existing.forEach((transaction) => {
+    const key = getDuplicateKey(transaction.date.split('T')[0], transaction.type, Number(transaction.amount) || 0);
+    available.set(key, (available.get(key) ?? 0) + 1);
+  });
+
+  const duplicates = new Map<number, DuplicateKind>();
+  rows.forEach((row) => {
+    if (row.error) {
+      return;
+    }
+
+    if (row.externalId && importedIds.has(row.externalId)) {
+      duplicates.set(row.line, 'IMPORTED');
+      return;
+    }
+
+    const key = getDuplicateKey(row.date, row.type, row.amount);
+    const count = available.get(key) ?? 0;
+    if (count > 0) {
+      available.set(key, count - 1);
+      duplicates.set(row.line, 'SIMILAR');
+    }
+  });
+
+  return duplicates;
+};
+
+/**
+ * Import data of a confirmed row
+ * @param row - Row without errors
+ */
+export const toImportTransaction = (row: ImportRow): ImportTransactionDto => {
+  return {
+    type: row.type,
+    amount: row.amount,
+    date: row.date,
+    description: row.description || undefined,
+    category: row.category || undefined,
+    externalId: row.externalId,
+    line: row.line,
+  };
+};
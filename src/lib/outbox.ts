@@ -0,0 +1,221 @@
+/**
+ * Offline Outbox for Finance Control
+ * Transactions created while offline are stored in IndexedDB and replayed in order
+ * once connectivity returns
+ */
+
+import { ApiError, getUsernameFromCredentials, postJson } from './api';
+import { invalidateWalletData } from './queries';
+import type { CreateTransactionDto, TransactionDto } from '../types/dtos';
+
+const DB_NAME = 'finance-control';
+const DB_VERSION = 1;
+const OUTBOX_STORE = 'outbox';
+
+// Window event fired whenever entries are queued, replayed or discarded
+const OUTBOX_CHANGED_EVENT = 'fc:outbox-changed';
+
+/**
+ * A transaction waiting to be sent to the API
+ */
+export interface OutboxEntry {
+  id: number; // Assigned by IndexedDB, increases in queue order
+  walletId: number;
+  username: string | null; // Owner of the entry - only replayed for the same user
+  transaction: CreateTransactionDto;
+  queuedAt: string; // ISO timestamp
+}
+
+/**
+ * A queued transaction the API refused during replay (dropped from the queue)
+ */
+export interface OutboxConflict {
+  entry: OutboxEntry;
+  message: string;
+}
+
+/**
+ * Outcome of a replay run
+ */
+export interface OutboxReplayResult {
+  synced: number;
+  conflicts: OutboxConflict[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and create on first use) the IndexedDB database
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      // Allow a later call to try again
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Run a single request against the outbox store and resolve once its transaction completes
+ */
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(OUTBOX_STORE, mode);
+    const request = operation(transaction.objectStore(OUTBOX_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? request.error);
+  });
+};
+
+const notifyOutboxChange = (): void => {
+  window.dispatchEvent(new Event(OUTBOX_CHANGED_EVENT));
+};
+
+/**
+ * Subscribe to outbox changes
+ * @returns Function that removes the listener
+ */
+export const onOutboxChange = (listener: () => void): (() => void) => {
+  window.addEventListener(OUTBOX_CHANGED_EVENT, listener);
+  return () => window.removeEventListener(OUTBOX_CHANGED_EVENT, listener);
+};
+
+/**
+ * Check whether a failed request never reached the server (no connection)
+ * fetch rejects with a TypeError on network failures, while HTTP errors become ApiError
+ */
+export const isOfflineError = (error: unknown): boolean => {
+  if (error instanceof ApiError) {
+    return false;
+  }
+  return !navigator.onLine || error instanceof TypeError;
+};
+
+/**
+ * Queue a transaction to be created when connectivity returns
+ * @param walletId - Wallet the transaction belongs to
+ * @param transaction - Transaction data as it would be sent to the API
+ */
+export const queueTransaction = async (
+  walletId: number,
+  transaction: CreateTransactionDto
+): Promise<OutboxEntry> => {
+  const entry: Omit<OutboxEntry, 'id'> = {
+    walletId,
+    username: getUsernameFromCredentials(),
+    transaction,
+    queuedAt: new Date().toISOString(),
+  };
+  const id = await withStore('readwrite', (store) => store.add(entry));
+  notifyOutboxChange();
+  return { ...entry, id: Number(id) };
+};
+
+/**
+ * Get the current user's queued transactions, oldest first
+ * @param walletId - Only return entries for this wallet
+ */
+export const getPendingTransactions = async (walletId?: number): Promise<OutboxEntry[]> => {
+  const username = getUsernameFromCredentials();
+  const entries = await withStore<OutboxEntry[]>('readonly', (store) => store.getAll());
+  return entries.filter(entry =>
+    entry.username === username && (walletId === undefined || entry.walletId === walletId)
+  );
+};
+
+/**
+ * Remove a queued transaction without sending it
+ * @param entryId - Outbox entry ID
+ */
+export const discardPendingTransaction = async (entryId: number): Promise<void> => {
+  await withStore('readwrite', (store) => store.delete(entryId));
+  notifyOutboxChange();
+};
+
+/**
+ * Whether a failed replay should be retried later rather than dropped
+ * (expired session, rate limiting or a server-side failure)
+ */
+const isRetryableStatus = (status: number): boolean => {
+  return status === 401 || status === 403 || status === 408 || status === 429 || status >= 500;
+};
+
+const runReplay = async (): Promise<OutboxReplayResult> => {
+  const result: OutboxReplayResult = { synced: 0, conflicts: [] };
+  if (!navigator.onLine) {
+    return result;
+  }
+
+  const entries = await getPendingTransactions();
+  for (const entry of entries) {
+    try {
+      await postJson<TransactionDto>(`/api/wallets/${entry.walletId}/transactions`, entry.transaction);
+      result.synced++;
+      invalidateWalletData(entry.walletId);
+    } catch (error) {
+      if (!(error instanceof ApiError) || isRetryableStatus(error.status)) {
+        // Keep this and every later entry queued so they are replayed in order
+        break;
+      }
+      // The API refused the transaction (e.g., wallet deleted, validation failed) - retrying won't help
+      result.conflicts.push({ entry, message: error.message });
+    }
+    await withStore('readwrite', (store) => store.delete(entry.id));
+  }
+
+  if (result.synced > 0 || result.conflicts.length > 0) {
+    notifyOutboxChange();
+  }
+  return result;
+};
+
+// Replay currently running, shared so entries are never sent twice
+let replayInFlight: Promise<OutboxReplayResult> | null = null;
+
+/**
+ * Send queued transactions to the API in the order they were created
+ * Stops at the first entry that can't be sent yet; entries the API refuses are
+ * dropped and returned as conflicts
+ */
+export const replayOutbox = (): Promise<OutboxReplayResult> => {
+  if (!replayInFlight) {
+    replayInFlight = runReplay().finally(() => {
+      replayInFlight = null;
+    });
+  }
+  return replayInFlight;
+};
+
+/**
+ * Replay the outbox now and every time the browser comes back online
+ * @param onReplayed - Called with the result of each replay
+ * @param onReplayFailed - Called when a replay fails (e.g. the device storage can't be read)
+ * @returns Function that stops listening
+ */
+export const startOutboxSync = (
+  onReplayed: (result: OutboxReplayResult) => void,
+  onReplayFailed: (error: unknown) => void
+): (() => void) => {
+  const sync = () => {
+    replayOutbox().then(onReplayed, onReplayFailed);
+  };
+
+  sync();
+  window.addEventListener('online', sync);
+  return () => window.removeEventListener('online', sync);
+};
@@ -0,0 +1,173 @@
+/**
+ * Cached API reads shared by the pages
+ * Built on getJson + the query cache, so pages that load the same data reuse one request
+ */
+
+import { getJson } from './api';
+import { fetchQuery, invalidateQueries, type QueryOptions } from './queryCache';
+import type { CategoryDto, PageDto, TransactionDto, TransactionSummaryDto, TransactionType, WalletDto } from '../types/dtos';
+
+// A wallet together with its transactions
+export interface WalletWithTransactions {
+  wallet: WalletDto;
+  transactions: TransactionDto[];
+}
+
+// A wallet together with the totals of its transactions
+export interface WalletWithSummary {
+  wallet: WalletDto;
+  summary: TransactionSummaryDto;
+}
+
+// Totals of a wallet without transactions
+const EMPTY_SUMMARY: TransactionSummaryDto = { count: 0, totalIncome: 0, totalExpenses: 0, balance: 0 };
+
+/**
+ * Get all wallets of the current user
+ */
+export const getWallets = (options?: QueryOptions): Promise<WalletDto[]> => {
+  const path = '/api/wallets';
+  return fetchQuery(path, () => getJson<WalletDto[]>(path), options);
+};
+
+/**
+ * Get a single wallet
+ * @param walletId - Wallet ID
+ */
+export const getWallet = (walletId: number | string, options?: QueryOptions): Promise<WalletDto> => {
+  const path = `/api/wallets/${walletId}`;
+  return fetchQuery(path, () => getJson<WalletDto>(path), options);
+};
+
+/**
+ * Get the transactions of a wallet
+ * @param walletId - Wallet ID
+ * @param params - Optional filters (type, fromDate, toDate)
+ */
+export const getWalletTransactions = (
+  walletId: number | string,
+  params?: URLSearchParams,
+  options?: QueryOptions
+): Promise<TransactionDto[]> => {
+  const queryString = params?.toString();
+  const path = `/api/wallets/${walletId}/transactions${queryString ? `?${queryString}` : ''}`;
+  return fetchQuery(path, () => getJson<TransactionDto[]>(path), options);
+};
+
+/**
+ * Get one page of a wallet's transactions
+ * @param walletId - Wallet ID
+ * @param page - Page number (starting at 0)
+ * @param size - Number of transactions per page
+ * @param params - Optional filters (type, fromDate, toDate)
+ */
+export const getWalletTransactionsPage = (
+  walletId: number | string,
+  page: number,
+  size: number,
+  params?: URLSearchParams,
+  options?: QueryOptions
+): Promise<PageDto<TransactionDto>> => {
+  const query = new URLSearchParams(params);
+  query.set('page', String(page));
+  query.set('size', String(size));
+  const path = `/api/wallets/${walletId}/transactions/page?${query.toString()}`;
+  return fetchQuery(path, () => getJson<PageDto<TransactionDto>>(path), options);
+};
+
+/**
+ * Get the totals (count, income, expenses, balance) of a wallet's transactions
+ * @param walletId - Wallet ID
+ * @param params - Optional filters (type, fromDate, toDate)
+ */
+export const getWalletTransactionSummary = (
+  walletId: number | string,
+  params?: URLSearchParams,
+  options?: QueryOptions
+): Promise<TransactionSummaryDto> => {
+  const queryString = params?.toString();
+  const path = `/api/wallets/${walletId}/transactions/summary${queryString ? `?${queryString}` : ''}`;
+  return fetchQuery(path, () => getJson<TransactionSummaryDto>(path), options);
+};
+
+/**
+ * Get all wallets with their transactions
+ * Transactions are fetched for every wallet in parallel; a wallet whose transactions
+ * fail to load is returned with an empty list
+ * @param params - Optional filters applied to every wallet's transactions
+ */
+export const getWalletsWithTransactions = async (
+  params?: URLSearchParams,
+  options?: QueryOptions
+): Promise<WalletWithTransactions[]> => {
+  const wallets = await getWallets(options);
+
+  return Promise.all(
+    wallets.map(async (wallet) => {
+      try {
+        const transactions = await getWalletTransactions(wallet.id, params, options);
+        return { wallet, transactions };
+      } catch {
+        // Ignore errors for individual wallets
+        return { wallet, transactions: [] };
+      }
+    })
+  );
+};
+
+/**
+ * Get all wallets with the totals of their transactions
+ * Summaries are fetched for every wallet in parallel; a wallet whose summary
+ * fails to load is returned with empty totals
+ * @param params - Optional filters applied to every wallet's summary
+ */
+export const getWalletsWithSummaries = async (
+  params?: URLSearchParams,
+  options?: QueryOptions
+): Promise<WalletWithSummary[]> => {
+  const wallets = await getWallets(options);
+
+  return Promise.all(
+    wallets.map(async (wallet) => {
+      try {
+        const summary = await getWalletTransactionSummary(wallet.id, params, options);
+        return { wallet, summary };
+      } catch {
+        // Ignore errors for individual wallets
+        return { wallet, summary: EMPTY_SUMMARY };
+      }
+    })
+  );
+};
+
+/**
+ * Get categories (with subcategories), optionally filtered by type
+ * @param type - Only return categories of this transaction type
+ */
+export const getCategories = (type?: TransactionType, options?: QueryOptions): Promise<CategoryDto[]> => {
+  const path = `/api/categories${type ? `?type=${type}` : ''}`;
+  return fetchQuery(path, () => getJson<CategoryDto[]>(path), options);
+};
+
+/**
+ * Invalidate everything derived from a wallet's transactions
+ * Call after creating, updating, deleting or importing transactions
+ * @param walletId - Wallet whose data changed (all wallets when omitted)
+ */
+export const invalidateWalletData = (walletId?: number | string): void => {
+  if (walletId === undefined) {
+    invalidateQueries('/api/wallets');
+    return;
+  }
+
+  // The wallet list carries balances, and reports/dashboard read every wallet's transactions
+  invalidateQueries('/api/wallets', true);
+  invalidateQueries(`/api/wallets/${walletId}`);
+};
+
+/**
+ * Invalidate cached categories (after creating, deleting or restoring one)
+ */
+export const invalidateCategories = (): void => {
+  invalidateQueries('/api/categories');
+};
@@ -0,0 +1,107 @@
+/**
+ * Query Cache for Finance Control
+ * In-memory cache for API reads with staleness, invalidation and in-flight request deduplication
+ */
+
+// Default time (ms) a cached result is served without hitting the API again
+const DEFAULT_STALE_TIME = 30_000;
+
+interface CacheEntry {
+  data: unknown;
+  updatedAt: number;
+}
+
+/**
+ * Options for a cached query
+ */
+export interface QueryOptions {
+  staleTime?: number; // Milliseconds a cached result stays fresh (default: 30s)
+  force?: boolean; // Skip the cache and refetch (concurrent requests are still deduplicated)
+}
+
+// Cached results by key
+const cache = new Map<string, CacheEntry>();
+
+// Requests currently in flight by key, shared by every caller asking for the same key
+const inFlight = new Map<string, Promise<unknown>>();
+
+// Bumped on invalidation so a request started before it can't store outdated data
+const versions = new Map<string, number>();
+
+/**
+ * Run a query through the cache
+ * Returns the cached result while fresh, otherwise calls the fetcher - reusing the
+ * pending request if one is already running for the same key
+ * @param key - Cache key (by convention the API path, e.g. '/api/wallets')
+ * @param fetcher - Function that loads the data
+ * @param options - Staleness and force-refresh options
+ */
+export const fetchQuery = <T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  options: QueryOptions = {}
+): Promise<T> => {
+  const { staleTime = DEFAULT_STALE_TIME, force = false } = options;
+
+  const entry = cache.get(key);
+  if (!force && entry && Date.now() - entry.updatedAt < staleTime) {
+    return Promise.resolve(entry.data as T);
+  }
+
+  const pending = inFlight.get(key);
+  if (pending) {
+    return pending as Promise<T>;
+  }
+
+  const version = versions.get(key) ?? 0;
+  const request = fetcher()
+    .then((data) => {
+      if ((versions.get(key) ?? 0) === version) {
+        cache.set(key, { data, updatedAt: Date.now() });
+      }
+      return data;
+    })
+    .finally(() => {
+      if (inFlight.get(key) === request) {
+        inFlight.delete(key);
+      }
+    });
+
+  inFlight.set(key, request);
+  return request;
+};
+
+/**
+ * Invalidate cached queries
+ * By default the key and everything below it is invalidated, e.g. '/api/wallets/1' also
+ * matches '/api/wallets/1/transactions?type=DEBIT'
+ * @param key - Cache key to invalidate
+ * @param exact - Only invalidate the key itself (default: false)
+ */
+export const invalidateQueries = (key: string, exact: boolean = false): void => {
+  const matches = (candidate: string): boolean => {
+    if (candidate === key) return true;
+    if (exact) return false;
+    return candidate.startsWith(`${key}/`) || candidate.startsWith(`${key}?`);
+  };
+
+  const keys = new Set([...cache.keys(), ...inFlight.keys()]);
+  keys.forEach((candidate) => {
+    if (matches(candidate)) {
+      cache.delete(candidate);
+      inFlight.delete(candidate);
+      versions.set(candidate, (versions.get(candidate) ?? 0) + 1);
+    }
+  });
+};
+
+/**
+ * Drop every cached query (e.g., on logout, so the next user never sees stale data)
+ */
+export const clearQueryCache = (): void => {
+  inFlight.forEach((_, key) => {
+    versions.set(key, (versions.get(key) ?? 0) + 1);
+  });
+  cache.clear();
+  inFlight.clear();
+};
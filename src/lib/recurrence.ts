@@ -0,0 +1,72 @@
+/**
+ * Recurrence helpers for Finance Control
+ * Expands recurring transaction templates into their upcoming occurrences
+ */
+
+import { addDays, addMonths, addWeeks, addYears, format, parseISO } from 'date-fns';
+import type { RecurrenceFrequency, RecurringTransactionDto } from '../types/dtos';
+
+// A single future occurrence of a recurring transaction
+export interface RecurringOccurrence {
+  recurring: RecurringTransactionDto;
+  date: string; // Format: YYYY-MM-DD
+}
+
+/**
+ * Get the date a number of periods after an occurrence
+ * Always counted from the same base date, so e.g. monthly occurrences on the 31st
+ * don't drift to the 28th after February
+ * @param date - Base occurrence date
+ * @param frequency - How often the transaction repeats
+ * @param periods - Number of periods to move forward
+ */
+export const addRecurrencePeriods = (date: Date, frequency: RecurrenceFrequency, periods: number): Date => {
+  switch (frequency) {
+    case 'DAILY':
+      return addDays(date, periods);
+    case 'WEEKLY':
+      return addWeeks(date, periods);
+    case 'MONTHLY':
+      return addMonths(date, periods);
+    case 'YEARLY':
+      return addYears(date, periods);
+  }
+};
+
+/**
+ * List the occurrences of recurring transactions up to a date, soonest first
+ * Occurrences already due (before today) are included until they are posted or skipped
+ * @param recurringTransactions - Recurring transaction templates
+ * @param untilDate - Last date to include (format: YYYY-MM-DD)
+ * @param limit - Maximum number of occurrences to return
+ */
+export const getUpcomingOccurrences = (
+  recurringTransactions: RecurringTransactionDto[],
+  untilDate: string,
+  limit: number = Infinity
+): RecurringOccurrence[] => {
+  const occurrences: RecurringOccurrence[] = [];
+
+  recurringTransactions.forEach((recurring) => {
+    if (!recurring.nextOccurrence) {
+      return;
+    }
+
+    // Stop at whichever comes first: the end of the window or the template's end date
+    const lastDate = recurring.endDate && recurring.endDate < untilDate ? recurring.endDate : untilDate;
+    const baseDate = parseISO(recurring.nextOccurrence);
+
+    // No template can contribute more than `limit` of the soonest occurrences
+    for (let periods = 0; periods < limit; periods++) {
+      const date = format(addRecurrencePeriods(baseDate, recurring.frequency, periods), 'yyyy-MM-dd');
+      if (date > lastDate) {
+        break;
+      }
+      occurrences.push({ recurring, date });
+    }
+  });
+
+  return occurrences
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(0, limit);
+};
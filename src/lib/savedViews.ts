@@ -0,0 +1,72 @@
+/**
+ * Saved filter views for Finance Control
+ * A view is a named page address with its filters in the query string, stored per user
+ * in localStorage and pinned in the sidebar
+ */
+
+const SAVED_VIEWS_KEY = 'fc_saved_views';
+const SAVED_VIEWS_EVENT = 'fc:saved-views';
+
+export interface SavedView {
+  id: string;
+  name: string;
+  path: string; // Page path with its query string, e.g. /reports?period=3&wallet=2
+}
+
+const getStorageKey = (username: string | null): string => {
+  return `${SAVED_VIEWS_KEY}:${username ?? ''}`;
+};
+
+/**
+ * Load a user's saved views, in the order they were saved
+ * @param username - Current user
+ */
+export const loadSavedViews = (username: string | null): SavedView[] => {
+  try {
+    const stored = localStorage.getItem(getStorageKey(username));
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter((view): view is SavedView =>
+        typeof view?.id === 'string' && typeof view.name === 'string' && typeof view.path === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+const storeSavedViews = (username: string | null, views: SavedView[]): void => {
+  localStorage.setItem(getStorageKey(username), JSON.stringify(views));
+  window.dispatchEvent(new Event(SAVED_VIEWS_EVENT));
+};
+
+/**
+ * Save a view (a view with the same name is replaced)
+ * @param username - Current user
+ * @param name - Name shown in the sidebar
+ * @param path - Page path with its query string
+ */
+export const addSavedView = (username: string | null, name: string, path: string): SavedView => {
+  const view: SavedView = { id: Date.now().toString(36), name: name.trim(), path };
+  const views = loadSavedViews(username)
+    .filter(existing => existing.name.toLowerCase() !== view.name.toLowerCase());
+  storeSavedViews(username, [...views, view]);
+  return view;
+};
+
+/**
+ * Remove a saved view
+ * @param username - Current user
+ * @param id - View ID
+ */
+export const removeSavedView = (username: string | null, id: string): void => {
+  storeSavedViews(username, loadSavedViews(username).filter(view => view.id !== id));
+};
+
+/**
+ * Subscribe to changes of the saved views
+ * @returns Function that removes the listener
+ */
+export const onSavedViewsChange = (listener: () => void): (() => void) => {
+  window.addEventListener(SAVED_VIEWS_EVENT, listener);
+  return () => window.removeEventListener(SAVED_VIEWS_EVENT, listener);
+};
@@ -0,0 +1,103 @@
+/**
+ * Transaction search helpers for Finance Control
+ * Filters transactions across wallets and keeps the filters in the URL query string
+ */
+
+import { getCategoryLines } from './splits';
+import type { TransactionDto, TransactionType } from '../types/dtos';
+
+export interface TransactionSearch {
+  text: string; // Matched against description, category and subcategory
+  type: TransactionType | '';
+  fromDate: string; // Format: YYYY-MM-DD, or '' for no limit
+  toDate: string;
+  minAmount: number | null;
+  maxAmount: number | null;
+  categories: string[]; // Any of these (empty for all)
+  walletIds: number[]; // Any of these (empty for all)
+  noSubcategory: boolean; // Only categorised transactions without a subcategory
+}
+
+const parseAmount = (value: string | null): number | null => {
+  if (!value) {
+    return null;
+  }
+  const amount = parseFloat(value.replace(',', '.'));
+  return Number.isFinite(amount) ? amount : null;
+};
+
+const isDate = (value: string | null): value is string => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+/**
+ * Read a search from URL query parameters (unknown or invalid values are ignored)
+ * @param params - e.g. ?q=coffee&category=Food&category=Bills&wallet=3&min=10
+ */
+export const parseSearchParams = (params: URLSearchParams): TransactionSearch => {
+  const type = params.get('type');
+  return {
+    text: params.get('q') ?? '',
+    type: type === 'DEBIT' || type === 'CREDIT' ? type : '',
+    fromDate: isDate(params.get('from')) ? params.get('from') as string : '',
+    toDate: isDate(params.get('to')) ? params.get('to') as string : '',
+    minAmount: parseAmount(params.get('min')),
+    maxAmount: parseAmount(params.get('max')),
+    categories: params.getAll('category').filter(Boolean),
+    walletIds: params.getAll('wallet').map(Number).filter(id => Number.isInteger(id) && id > 0),
+    noSubcategory: params.get('noSubcategory') === '1',
+  };
+};
+
+/**
+ * Write a search as URL query parameters, leaving out the filters that aren't set
+ */
+export const toSearchParams = (search: TransactionSearch): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (search.text) params.set('q', search.text);
+  if (search.type) params.set('type', search.type);
+  if (search.fromDate) params.set('from', search.fromDate);
+  if (search.toDate) params.set('to', search.toDate);
+  if (search.minAmount !== null) params.set('min', String(search.minAmount));
+  if (search.maxAmount !== null) params.set('max', String(search.maxAmount));
+  search.categories.forEach(category => params.append('category', category));
+  search.walletIds.forEach(walletId => params.append('wallet', String(walletId)));
+  if (search.noSubcategory) params.set('noSubcategory', '1');
+  return params;
+};
+
+/**
+ * Whether any filter is set
+ */
+export const hasSearchFilters = (search: TransactionSearch): boolean => {
+  return toSearchParams(search).toString() !== '';
+};
+
+/**
+ * Whether a transaction matches a search
+ * Amounts are compared in the wallet's own currency, ignoring the direction
+ * @param transaction - Transaction to check
+ * @param search - Filters
+ * @param labels - Other text the free-text filter should match (e.g. translated category names)
+ */
+export const matchesSearch = (transaction: TransactionDto, search: TransactionSearch, labels: string[] = []): boolean => {
+  const date = transaction.date.split('T')[0];
+  const amount = Number(transaction.amount) || 0;
+  // A split transaction matches the categories of any of its lines
+  const categoryLines = getCategoryLines(transaction);
+
+  if (search.type && transaction.type !== search.type) return false;
+  if (search.fromDate && date < search.fromDate) return false;
+  if (search.toDate && date > search.toDate) return false;
+  if (search.minAmount !== null && amount < search.minAmount) return false;
+  if (search.maxAmount !== null && amount > search.maxAmount) return false;
+  if (search.categories.length > 0 && !categoryLines.some(line => search.categories.includes(line.category))) return false;
+  if (search.walletIds.length > 0 && !search.walletIds.includes(transaction.walletId)) return false;
+  // Transfers aren't categorised, so they never count as missing a subcategory
+  if (search.noSubcategory && (transaction.subcategory || transaction.transferId)) return false;
+
+  const text = search.text.trim().toLowerCase();
+  if (!text) {
+    return true;
+  }
+  return [transaction.description, ...categoryLines.flatMap(line => [line.category, line.subcategory]), ...labels]
+    .some(value => value?.toLowerCase().includes(text));
+};
@@ -0,0 +1,100 @@
+/**
+ * Split transaction helpers for Finance Control
+ * A split transaction divides its amount into category lines that add up to the total
+ */
+
+import type { CategoryDto, TransactionSplitDto } from '../types/dtos';
+
+// A line of the split editor, with the amount as typed
+export interface SplitLineInput {
+  categoryId: number | '';
+  subcategoryId: number | '';
+  amount: string;
+}
+
+// Amounts are compared in cents so 0.1 + 0.2 adds up to 0.3
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+const parseLineAmount = (line: SplitLineInput): number => parseFloat(line.amount) || 0;
+
+/**
+ * Category lines of a transaction: its splits, or one line with the whole amount
+ * Charts and totals per category should add these up instead of the transaction's category
+ */
+export const getCategoryLines = (transaction: {
+  category: string;
+  subcategory?: string;
+  amount: number;
+  splits?: TransactionSplitDto[];
+}): TransactionSplitDto[] => {
+  if (transaction.splits && transaction.splits.length > 0) {
+    return transaction.splits;
+  }
+  return [{ category: transaction.category, subcategory: transaction.subcategory, amount: Number(transaction.amount) || 0 }];
+};
+
+/**
+ * Part of the total not assigned to any line yet (negative when the lines add up to more)
+ */
+export const getUnassignedAmount = (total: number, lines: SplitLineInput[]): number => {
+  const assigned = lines.reduce((sum, line) => sum + toCents(parseLineAmount(line)), 0);
+  return (toCents(total) - assigned) / 100;
+};
+
+/**
+ * Editor lines for the splits of an existing transaction
+ * @param splits - Saved splits
+ * @param categories - Categories of the transaction's type
+ */
+export const toSplitLines = (splits: TransactionSplitDto[], categories: CategoryDto[]): SplitLineInput[] => {
+  return splits.map(split => {
+    const category = categories.find(cat => cat.name.toLowerCase() === split.category.toLowerCase());
+    const subcategory = category?.subcategories?.find(
+      sub => sub.name.toLowerCase() === split.subcategory?.toLowerCase()
+    );
+    return {
+      categoryId: category?.id ?? '',
+      subcategoryId: subcategory?.id ?? '',
+      amount: String(split.amount),
+    };
+  });
+};
+
+/**
+ * Build the splits of a transaction from the editor lines
+ * @param lines - Editor lines
+ * @param total - Transaction amount
+ * @param categories - Categories of the transaction's type
+ * @returns The splits, or the translation key of what is wrong with the lines
+ */
+export const buildSplits = (
+  lines: SplitLineInput[],
+  total: number,
+  categories: CategoryDto[]
+): { splits: TransactionSplitDto[] } | { error: string } => {
+  if (lines.length < 2) {
+    return { error: 'splits.errors.tooFewLines' };
+  }
+
+  const splits: TransactionSplitDto[] = [];
+  for (const line of lines) {
+    const category = categories.find(cat => cat.id === line.categoryId);
+    if (!category) {
+      return { error: 'splits.errors.categoryRequired' };
+    }
+    if (parseLineAmount(line) <= 0) {
+      return { error: 'splits.errors.invalidAmount' };
+    }
+    splits.push({
+      category: category.name,
+      subcategory: category.subcategories?.find(sub => sub.id === line.subcategoryId)?.name,
+      amount: parseLineAmount(line),
+    });
+  }
+
+  if (getUnassignedAmount(total, lines) !== 0) {
+    return { error: 'splits.errors.totalMismatch' };
+  }
+
+  return { splits };
+};
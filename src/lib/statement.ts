@@ -0,0 +1,114 @@
+/**
+ * Monthly statement helpers for Finance Control
+ * Works out balances, totals and the running-balance ledger of one wallet for one month
+ */
+
+import { endOfMonth, format, parseISO } from 'date-fns';
+import { getCategoryLines } from './splits';
+import type { TransactionDto, TransactionType, WalletDto } from '../types/dtos';
+
+// One ledger line, with the wallet balance after it
+export interface StatementLine {
+  transaction: TransactionDto;
+  amount: number; // Negative for expenses and outgoing transfers
+  balance: number;
+}
+
+// Total of one category in the month (transfers aren't categorised)
+export interface StatementCategoryTotal {
+  category: string;
+  type: TransactionType;
+  count: number;
+  amount: number;
+}
+
+export interface MonthlyStatement {
+  fromDate: string; // Format: YYYY-MM-DD
+  toDate: string;
+  openingBalance: number;
+  closingBalance: number;
+  income: number;
+  expenses: number;
+  netTransfers: number; // Transfers in minus transfers out
+  categories: StatementCategoryTotal[]; // Income first, largest amounts first
+  lines: StatementLine[]; // Oldest first
+}
+
+/**
+ * Build the statement of a wallet for a month
+ * The opening balance is the wallet's opening balance plus everything before the month,
+ * so opening + income - expenses + net transfers always equals the closing balance
+ * @param wallet - Wallet (its opening balance defaults to 0)
+ * @param transactions - All of the wallet's transactions
+ * @param month - Format: YYYY-MM
+ */
+export const buildMonthlyStatement = (
+  wallet: WalletDto,
+  transactions: TransactionDto[],
+  month: string
+): MonthlyStatement => {
+  const fromDate = `${month}-01`;
+  const toDate = format(endOfMonth(parseISO(fromDate)), 'yyyy-MM-dd');
+
+  const getSignedAmount = (transaction: TransactionDto): number => {
+    const amount = Number(transaction.amount) || 0;
+    return transaction.type === 'CREDIT' ? amount : -amount;
+  };
+
+  let openingBalance = Number(wallet.openingBalance) || 0;
+  const monthTransactions: TransactionDto[] = [];
+  transactions.forEach((transaction) => {
+    const date = transaction.date.split('T')[0];
+    if (date < fromDate) {
+      openingBalance += getSignedAmount(transaction);
+    } else if (date <= toDate) {
+      monthTransactions.push(transaction);
+    }
+  });
+
+  monthTransactions.sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id);
+
+  let balance = openingBalance;
+  let income = 0;
+  let expenses = 0;
+  let netTransfers = 0;
+  const categoryTotals = new Map<string, StatementCategoryTotal>();
+
+  const lines = monthTransactions.map((transaction): StatementLine => {
+    const amount = getSignedAmount(transaction);
+    balance += amount;
+
+    if (transaction.transferId) {
+      netTransfers += amount;
+    } else {
+      if (transaction.type === 'CREDIT') {
+        income += amount;
+      } else {
+        expenses -= amount;
+      }
+      // Split transactions count each line towards its own category
+      getCategoryLines(transaction).forEach(line => {
+        const key = `${transaction.type}|${line.category}`;
+        const total = categoryTotals.get(key) ?? { category: line.category, type: transaction.type, count: 0, amount: 0 };
+        total.count++;
+        total.amount += Math.abs(Number(line.amount) || 0);
+        categoryTotals.set(key, total);
+      });
+    }
+
+    return { transaction, amount, balance };
+  });
+
+  return {
+    fromDate,
+    toDate,
+    openingBalance,
+    closingBalance: balance,
+    income,
+    expenses,
+    netTransfers,
+    categories: Array.from(categoryTotals.values())
+      .sort((a, b) => a.type.localeCompare(b.type) || b.amount - a.amount),
+    lines,
+  };
+};
@@ -0,0 +1,203 @@
+/**
+ * Bank statement import helpers for Finance Control
+ * Reads OFX, QIF and ISO 20022 CAMT.053 statements into the same import rows as CSV
+ */
+
+import { guessDateFormat, parseCsvAmount, parseCsvDate, type CsvDateFormat } from './csvImport';
+import type { ImportRow } from './importRows';
+
+export type ImportFormat = 'CSV' | 'OFX' | 'QIF' | 'CAMT053';
+
+// Extensions accepted by the file input
+export const IMPORT_FILE_ACCEPT = '.csv,.ofx,.qfx,.qif,.xml,text/csv';
+
+/**
+ * Format of an import file, from its extension
+ * @returns The format, or null when the file isn't supported
+ */
+export const getImportFormat = (fileName: string): ImportFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'csv': return 'CSV';
+    case 'ofx':
+    case 'qfx': return 'OFX';
+    case 'qif': return 'QIF';
+    case 'xml': return 'CAMT053';
+    default: return null;
+  }
+};
+
+/**
+ * Build an import row from a signed amount (negative for expenses)
+ */
+const toImportRow = (
+  line: number,
+  date: string | null,
+  amount: number | null,
+  description: string,
+  category: string = '',
+  externalId?: string
+): ImportRow => {
+  let error: string | undefined;
+  if (date === null) {
+    error = 'import.errors.invalidDate';
+  } else if (amount === null || amount === 0) {
+    error = 'import.errors.invalidAmount';
+  }
+
+  return {
+    line,
+    date: date ?? '',
+    type: amount !== null && amount > 0 ? 'CREDIT' : 'DEBIT',
+    amount: Math.abs(amount ?? 0),
+    description,
+    category,
+    externalId: externalId || undefined,
+    error,
+  };
+};
+
+/**
+ * Value of an OFX element inside a block
+ * Works for both SGML (OFX 1.x, unclosed elements) and XML (OFX 2.x) files
+ */
+const getOfxValue = (block: string, tag: string): string => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : '';
+};
+
+/**
+ * Read the transactions of an OFX/QFX statement
+ * The FITID of each transaction is kept as its bank ID
+ * @param text - File contents
+ */
+export const parseOfx = (text: string): ImportRow[] => {
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) ?? [];
+
+  return blocks.map((block, index) => {
+    // DTPOSTED is YYYYMMDD followed by an optional time and timezone
+    const posted = getOfxValue(block, 'DTPOSTED').match(/^(\d{4})(\d{2})(\d{2})/);
+    const date = posted ? parseCsvDate(`${posted[1]}-${posted[2]}-${posted[3]}`, 'YMD') : null;
+
+    const name = getOfxValue(block, 'NAME');
+    const memo = getOfxValue(block, 'MEMO');
+    const description = name && memo && name !== memo ? `${name} - ${memo}` : name || memo;
+
+    return toImportRow(index + 1, date, parseCsvAmount(getOfxValue(block, 'TRNAMT')), description, '', getOfxValue(block, 'FITID'));
+  });
+};
+
+/**
+ * Split a QIF file into records of { field code: value }
+ * Header lines (!Type:Bank) are skipped; each record ends with a ^ line
+ */
+const splitQifRecords = (text: string): Record<string, string>[] => {
+  const records: Record<string, string>[] = [];
+  let record: Record<string, string> = {};
+
+  text.split(/\r?\n/).forEach((line) => {
+    if (line.startsWith('!') || line.trim() === '') {
+      return;
+    }
+    if (line.startsWith('^')) {
+      records.push(record);
+      record = {};
+      return;
+    }
+    // Only the first value of a field is kept (split lines repeat the code)
+    const code = line[0];
+    if (!(code in record)) {
+      record[code] = line.slice(1).trim();
+    }
+  });
+
+  if (Object.keys(record).length > 0) {
+    records.push(record);
+  }
+  return records;
+};
+
+/**
+ * Guess the date format of a QIF file
+ * QIF comes mostly from US software, so ambiguous dates are read as month first
+ * @param text - File contents
+ */
+export const guessQifDateFormat = (text: string): CsvDateFormat => {
+  return guessDateFormat(splitQifRecords(text).map(record => record.D ?? ''), 'MDY');
+};
+
+/**
+ * Read the transactions of a QIF file
+ * QIF has no bank IDs, so these rows rely on the date/amount duplicate check
+ * @param text - File contents
+ * @param dateFormat - Order of the date parts (QIF doesn't say)
+ */
+export const parseQif = (text: string, dateFormat: CsvDateFormat): ImportRow[] => {
+  return splitQifRecords(text).map((record, index) => {
+    const payee = record.P ?? '';
+    const memo = record.M ?? '';
+    const description = payee && memo && payee !== memo ? `${payee} - ${memo}` : payee || memo;
+    // Categories in brackets are transfers to other accounts, not categories
+    const category = record.L && !record.L.startsWith('[') ? record.L.split(':')[0] : '';
+
+    return toImportRow(
+      index + 1,
+      parseCsvDate(record.D ?? '', dateFormat),
+      parseCsvAmount(record.T ?? record.U ?? ''),
+      description,
+      category
+    );
+  });
+};
+
+/**
+ * Text of the first descendant element along a path of local names (namespaces ignored)
+ */
+const getXmlText = (element: Element, path: string[]): string => {
+  let current: Element | undefined = element;
+  for (const name of path) {
+    current = current.getElementsByTagNameNS('*', name)[0];
+    if (!current) {
+      return '';
+    }
+  }
+  return current.textContent?.trim() ?? '';
+};
+
+/**
+ * Read the entries of an ISO 20022 CAMT.053 bank statement
+ * The account servicer reference (or the transaction ID) is kept as the bank ID
+ * @param text - File contents
+ */
+export const parseCamt053 = (text: string): ImportRow[] => {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    return [];
+  }
+
+  const entries = Array.from(document.getElementsByTagNameNS('*', 'Ntry'));
+  return entries.map((entry, index) => {
+    const bookingDate = getXmlText(entry, ['BookgDt', 'Dt']) || getXmlText(entry, ['BookgDt', 'DtTm'])
+      || getXmlText(entry, ['ValDt', 'Dt']);
+    const amount = parseCsvAmount(getXmlText(entry, ['Amt']));
+    const isDebit = getXmlText(entry, ['CdtDbtInd']) === 'DBIT';
+
+    // Remittance information says what the payment was; fall back to the other party's name
+    const description = getXmlText(entry, ['RmtInf', 'Ustrd'])
+      || getXmlText(entry, ['AddtlNtryInf'])
+      || getXmlText(entry, isDebit ? ['Cdtr', 'Nm'] : ['Dbtr', 'Nm']);
+
+    const transactionId = getXmlText(entry, ['Refs', 'TxId']);
+    const externalId = getXmlText(entry, ['AcctSvcrRef'])
+      || (transactionId !== 'NOTPROVIDED' ? transactionId : '');
+
+    return toImportRow(
+      index + 1,
+      parseCsvDate(bookingDate.slice(0, 10), 'YMD'),
+      amount === null ? null : isDebit ? -Math.abs(amount) : Math.abs(amount),
+      description,
+      '',
+      externalId
+    );
+  });
+};
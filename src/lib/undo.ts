@@ -0,0 +1,83 @@
+/**
+ * Undoable changes for Finance Control
+ * A destructive change is shown in the page right away but only sent to the API once
+ * its undo window has passed, so undoing it just means never sending it
+ * Commits should send their requests with keepalive, since they may run while the tab closes
+ */
+
+const UNDOABLE_FAILED_EVENT = 'fc:undoable-failed';
+
+// How long a change can be undone, in milliseconds (also how long its toast stays up)
+export const UNDO_WINDOW = 6000;
+
+export interface UndoableChange {
+  commit: () => Promise<void>; // Sends the change, e.g. the DELETE request
+  onCommitError?: (error: unknown) => void; // Called when sending it fails (e.g. to put the item back)
+}
+
+interface PendingChange {
+  timer: ReturnType<typeof setTimeout>;
+  run: (flushed: boolean) => Promise<void>;
+}
+
+const pendingChanges = new Set<PendingChange>();
+
+/**
+ * Schedule a change to be sent when its undo window ends
+ * @param change - Change to send and how to recover if it fails
+ * @returns Function that cancels the change - false when it was already sent
+ */
+export const scheduleUndoable = (change: UndoableChange): (() => boolean) => {
+  const run = async (flushed: boolean) => {
+    if (!pendingChanges.delete(pending)) {
+      return;
+    }
+    clearTimeout(pending.timer);
+
+    try {
+      await change.commit();
+    } catch (error) {
+      // A flushed change may outlive the page that scheduled it, so the app reports the failure
+      if (flushed) {
+        window.dispatchEvent(new CustomEvent(UNDOABLE_FAILED_EVENT, { detail: { error } }));
+      } else {
+        change.onCommitError?.(error);
+      }
+    }
+  };
+
+  const pending: PendingChange = { run, timer: setTimeout(() => run(false), UNDO_WINDOW) };
+  pendingChanges.add(pending);
+
+  return () => {
+    clearTimeout(pending.timer);
+    return pendingChanges.delete(pending);
+  };
+};
+
+/**
+ * Send every scheduled change now, without waiting for the undo windows
+ * Pages call this when they unmount, since their undo button goes with them;
+ * failures are reported to onUndoableFailed listeners instead of the page
+ */
+export const flushUndoables = async (): Promise<void> => {
+  await Promise.all(Array.from(pendingChanges, pending => pending.run(true)));
+};
+
+/**
+ * Subscribe to changes that failed to send after being flushed
+ * @param listener - Called with the error of the failed commit
+ * @returns Function that removes the listener
+ */
+export const onUndoableFailed = (listener: (error: unknown) => void): (() => void) => {
+  const handler = (event: Event) => {
+    listener((event as CustomEvent<{ error: unknown }>).detail.error);
+  };
+  window.addEventListener(UNDOABLE_FAILED_EVENT, handler);
+  return () => window.removeEventListener(UNDOABLE_FAILED_EVENT, handler);
+};
+
+// Send what is still scheduled when the tab is closed or hidden for good
+window.addEventListener('pagehide', () => {
+  flushUndoables();
+});
@@ -0,0 +1,66 @@
+/**
+ * Wallet helpers for Finance Control
+ * Wallet types and the balance calculation shared by the pages
+ */
+
+import type { TransactionDto, TransactionSummaryDto, UpdateWalletDto, WalletDto, WalletType } from '../types/dtos';
+
+// Wallet types in the order they are offered in forms
+export const WALLET_TYPES: WalletType[] = ['CHECKING', 'SAVINGS', 'CASH', 'CREDIT_CARD', 'INVESTMENT'];
+
+/**
+ * Icon of a wallet type (wallets created before types existed get a generic icon)
+ * @param type - Wallet type
+ */
+export const getWalletTypeIcon = (type?: WalletType): string => {
+  switch (type) {
+    case 'CASH': return '💵';
+    case 'CHECKING': return '🏦';
+    case 'SAVINGS': return '🐷';
+    case 'CREDIT_CARD': return '💳';
+    case 'INVESTMENT': return '📈';
+    default: return '👛';
+  }
+};
+
+/**
+ * Current balance of a wallet: its opening balance plus income minus expenses
+ * @param wallet - Wallet (its opening balance defaults to 0)
+ * @param transactions - All of the wallet's transactions
+ */
+export const calculateWalletBalance = (wallet: WalletDto, transactions: TransactionDto[]): number => {
+  return transactions.reduce((balance, t) => {
+    const amount = Number(t.amount) || 0;
+    return t.type === 'CREDIT' ? balance + amount : balance - amount;
+  }, Number(wallet.openingBalance) || 0);
+};
+
+/**
+ * Current balance of a wallet from the server-side totals of its transactions
+ * @param wallet - Wallet (its opening balance defaults to 0)
+ * @param summary - Unfiltered summary of the wallet's transactions
+ */
+export const getWalletBalance = (wallet: WalletDto, summary: TransactionSummaryDto): number => {
+  return (Number(wallet.openingBalance) || 0) + (Number(summary.balance) || 0);
+};
+
+/**
+ * Update data that keeps every field of a wallet as it is
+ * Wallets created before types and opening balances existed get the defaults
+ * @param wallet - Wallet to update
+ * @param changes - Fields to change
+ */
+export const toUpdateWalletDto = (wallet: WalletDto, changes: Partial<UpdateWalletDto> = {}): UpdateWalletDto => {
+  return {
+    name: wallet.name,
+    currency: wallet.currency,
+    type: wallet.type ?? 'CHECKING',
+    openingBalance: Number(wallet.openingBalance) || 0,
+    openingDate: wallet.openingDate ?? (wallet.createdAt ?? new Date().toISOString()).split('T')[0],
+    creditLimit: wallet.creditLimit,
+    statementClosingDay: wallet.statementClosingDay,
+    paymentDueDay: wallet.paymentDueDay,
+    archived: !!wallet.archived,
+    ...changes,
+  };
+};
@@ -0,0 +1,529 @@
+import React, { useState, useEffect, useCallback, useMemo, type FormEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { getBudgets, createBudget, deleteBudget, ApiError } from '../lib/api';
+import { getCategories, getWalletsWithTransactions } from '../lib/queries';
+import { getCategoryLines } from '../lib/splits';
+import { flushUndoables, scheduleUndoable } from '../lib/undo';
+import { categoryNameToKey, subcategoryNameToKey } from '../lib/categoryKeys';
+import { useCurrency } from '../context/CurrencyContext';
+import { Toast, useToast } from '../components/Toast';
+import { MissingRatesNotice } from '../components/MissingRatesNotice';
+import { Dropdown, type DropdownOption } from '../components/Dropdown';
+import type { BudgetDto, CreateBudgetDto, CategoryDto, SubcategoryDto, TransactionDto } from '../types/dtos';
+import { format, parseISO, endOfMonth } from 'date-fns';
+
+// Percentage of the planned amount from which a budget is flagged as "near the limit"
+const WARNING_THRESHOLD = 80;
+
+// Budget with the actual spend for its month
+interface BudgetWithSpend extends BudgetDto {
+  spent: number;
+  percentage: number;
+}
+
+// Transaction with the currency of its wallet
+interface TransactionWithCurrency extends TransactionDto {
+  currency: string;
+}
+
+/**
+ * Budget Page Component
+ * Monthly budgets per category/subcategory with planned vs. actual spend
+ */
+export const BudgetPage: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const { baseCurrency, convert } = useCurrency();
+
+  /**
+   * Traduz o nome da categoria se for uma categoria padrão
+   */
+  const translateCategoryName = useCallback((categoryName: string): string => {
+    const key = categoryNameToKey[categoryName];
+    if (key) {
+      return t(`defaultCategories.${key}`);
+    }
+    return categoryName;
+  }, [t]);
+
+  /**
+   * Traduz o nome da subcategoria se for uma subcategoria padrão
+   */
+  const translateSubcategoryName = useCallback((subcategoryName: string): string => {
+    const key = subcategoryNameToKey[subcategoryName];
+    if (key) {
+      return t(`defaultSubcategories.${key}`);
+    }
+    return subcategoryName;
+  }, [t]);
+
+  // State
+  const [selectedMonth, setSelectedMonth] = useState(format(new Date(), 'yyyy-MM'));
+  const [loadedBudgets, setBudgets] = useState<BudgetDto[]>([]);
+  const [transactions, setTransactions] = useState<TransactionWithCurrency[]>([]);
+  const [categories, setCategories] = useState<CategoryDto[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Budgets deleted but still in their undo window - left out even when the month is loaded again
+  const [pendingDeletes, setPendingDeletes] = useState<number[]>([]);
+  const budgets = useMemo(
+    () => loadedBudgets.filter(budget => !pendingDeletes.includes(budget.id)),
+    [loadedBudgets, pendingDeletes]
+  );
+
+  // New budget form state
+  const [showModal, setShowModal] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [newCategoryId, setNewCategoryId] = useState<number | ''>('');
+  const [newSubcategoryId, setNewSubcategoryId] = useState<number | ''>('');
+  const [newAmount, setNewAmount] = useState('');
+
+  const [toast, showToast, hideToast] = useToast();
+
+  // Only expense categories can be budgeted
+  const expenseCategories = categories.filter(cat => cat.type === 'DEBIT');
+  const selectedCategory = categories.find(cat => cat.id === newCategoryId);
+  const availableSubcategories: SubcategoryDto[] = selectedCategory?.subcategories || [];
+
+  /**
+   * Fetch categories from API
+   */
+  const fetchCategories = useCallback(async () => {
+    try {
+      const data = await getCategories('DEBIT');
+      setCategories(data);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('categories.loadError'), 'error');
+      }
+    }
+  }, [showToast, t]);
+
+  /**
+   * Fetch budgets and the month's expenses from all wallets
+   */
+  const fetchData = useCallback(async () => {
+    try {
+      const monthStart = parseISO(`${selectedMonth}-01`);
+      const params = new URLSearchParams({
+        type: 'DEBIT',
+        fromDate: format(monthStart, 'yyyy-MM-dd'),
+        toDate: format(endOfMonth(monthStart), 'yyyy-MM-dd'),
+      });
+
+      const [budgetsData, walletsData] = await Promise.all([
+        getBudgets(selectedMonth),
+        getWalletsWithTransactions(params),
+      ]);
+      setBudgets(budgetsData);
+      // Transfers between wallets are not spending
+      setTransactions(walletsData.flatMap(({ wallet, transactions }) => transactions
+        .filter(tx => !tx.transferId)
+        .map(tx => ({ ...tx, currency: wallet.currency }))
+      ));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('budget.loadError'), 'error');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, [selectedMonth, showToast, t]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  useEffect(() => {
+    fetchCategories();
+  }, [fetchCategories]);
+
+  // Send deletes still waiting for their undo window when leaving the page
+  useEffect(() => {
+    return () => {
+      flushUndoables();
+    };
+  }, []);
+
+  /**
+   * Planned vs. actual spend for each budget
+   * A budget without subcategory covers every expense in its category
+   * Split expenses count each line towards its own category
+   */
+  const budgetsWithSpend = useMemo((): BudgetWithSpend[] => {
+    return budgets
+      .map(budget => {
+        const spent = transactions
+          .filter(tx => tx.type === 'DEBIT' && tx.date.startsWith(budget.month))
+          .flatMap(tx => getCategoryLines(tx).map(line => ({ ...line, currency: tx.currency })))
+          .filter(line => line.category === budget.category)
+          .filter(line => !budget.subcategory || line.subcategory === budget.subcategory)
+          .reduce((sum, line) => sum + (convert(line.amount, line.currency) ?? 0), 0);
+        const planned = Number(budget.amount) || 0;
+        const percentage = planned > 0 ? (spent / planned) * 100 : 0;
+        return { ...budget, spent, percentage };
+      })
+      .sort((a, b) => b.percentage - a.percentage);
+  }, [budgets, transactions, convert]);
+
+  /**
+   * Totals across all budgets of the month
+   */
+  const totals = useMemo(() => {
+    const planned = budgetsWithSpend.reduce((sum, b) => sum + (Number(b.amount) || 0), 0);
+    // Count each expense (or split line) once, even if it is covered by both a category and a subcategory budget
+    const spent = transactions
+      .filter(tx => tx.type === 'DEBIT')
+      .flatMap(tx => getCategoryLines(tx).map(line => ({ ...line, date: tx.date, currency: tx.currency })))
+      .filter(line => budgets.some(b =>
+        line.date.startsWith(b.month) &&
+        line.category === b.category &&
+        (!b.subcategory || line.subcategory === b.subcategory)
+      ))
+      .reduce((sum, line) => sum + (convert(line.amount, line.currency) ?? 0), 0);
+    const overBudgetCount = budgetsWithSpend.filter(b => b.spent > (Number(b.amount) || 0)).length;
+    return { planned, spent, remaining: planned - spent, overBudgetCount };
+  }, [budgets, budgetsWithSpend, transactions, convert]);
+
+  // Currencies of expenses that can't be converted (and are not counted in the budgets)
+  const missingRateCurrencies = useMemo(() => {
+    return [...new Set(transactions
+      .filter(tx => convert(tx.amount, tx.currency) === null)
+      .map(tx => tx.currency))];
+  }, [transactions, convert]);
+
+  /**
+   * Handle create budget form submission
+   */
+  const handleCreateBudget = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const category = categories.find(c => c.id === newCategoryId);
+    const subcategory = category?.subcategories?.find(s => s.id === newSubcategoryId);
+
+    if (!category) {
+      showToast(t('budget.categoryRequired'), 'error');
+      return;
+    }
+    if (!newAmount || parseFloat(newAmount) <= 0) {
+      showToast(t('errors.invalidAmount'), 'error');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const budgetData: CreateBudgetDto = {
+        category: category.name,
+        subcategory: subcategory?.name || undefined,
+        amount: parseFloat(newAmount),
+        month: selectedMonth,
+      };
+
+      const newBudget = await createBudget(budgetData);
+      setBudgets(prev => [...prev, newBudget]);
+
+      setShowModal(false);
+      setNewCategoryId('');
+      setNewSubcategoryId('');
+      setNewAmount('');
+      showToast(t('budget.createSuccess'), 'success');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('budget.createError'), 'error');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Handle delete budget
+   * The budget leaves the list right away and is deleted once the undo window has passed
+   */
+  const handleDeleteBudget = (budgetId: number) => {
+    // Stop hiding the budget
+    const endPendingDelete = () => {
+      setPendingDeletes(prev => prev.filter(id => id !== budgetId));
+    };
+
+    const cancelDelete = scheduleUndoable({
+      commit: async () => {
+        await deleteBudget(budgetId, { keepalive: true });
+        setBudgets(prev => prev.filter(b => b.id !== budgetId));
+        endPendingDelete();
+      },
+      onCommitError: (error) => {
+        endPendingDelete();
+        if (error instanceof ApiError) {
+          showToast(error.message, 'error');
+        } else {
+          showToast(t('budget.deleteError'), 'error');
+        }
+      },
+    });
+
+    setPendingDeletes(prev => [...prev, budgetId]);
+    showToast(t('budget.deleted'), 'success', {
+      label: t('common.undo'),
+      onClick: () => {
+        if (cancelDelete()) {
+          endPendingDelete();
+        }
+      },
+    });
+  };
+
+  // Budgets are planned in the base currency
+  const formatCurrency = (amount: number | undefined | null, currency: string = baseCurrency): string => {
+    const value = Number(amount) || 0;
+    const locale = i18n.language === 'pt' ? 'pt-PT' : 'en-GB';
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: currency,
+    }).format(value);
+  };
+
+  /**
+   * Status of a budget based on how much of it has been spent
+   */
+  const getBudgetStatus = (budget: BudgetWithSpend): 'over' | 'warning' | 'ok' => {
+    if (budget.spent > (Number(budget.amount) || 0)) return 'over';
+    if (budget.percentage >= WARNING_THRESHOLD) return 'warning';
+    return 'ok';
+  };
+
+  if (isLoading) {
+    return (
+      <div className="page-loading">
+        <div className="spinner"></div>
+        <p>{t('common.loading')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="budget-page">
+      <div className="page-header">
+        <div>
+          <h1>{t('budget.title')}</h1>
+          <p className="page-subtitle">{t('budget.subtitle')}</p>
+        </div>
+        <button
+          className="btn btn-primary"
+          onClick={() => setShowModal(true)}
+        >
+          <span className="btn-icon">+</span>
+          {t('budget.newBudget')}
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="reports-filters">
+        <div className="filter-group">
+          <label htmlFor="budgetMonth">{t('budget.month')}</label>
+          <input
+            type="month"
+            id="budgetMonth"
+            value={selectedMonth}
+            onChange={(e) => e.target.value && setSelectedMonth(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <MissingRatesNotice currencies={missingRateCurrencies} />
+
+      {/* Totals */}
+      <div className="metrics-grid">
+        <div className="metric-card balance">
+          <div className="metric-icon">🎯</div>
+          <div className="metric-content">
+            <span className="metric-label">{t('budget.planned')}</span>
+            <span className="metric-value">{formatCurrency(totals.planned)}</span>
+          </div>
+        </div>
+        <div className="metric-card expenses">
+          <div className="metric-icon">📉</div>
+          <div className="metric-content">
+            <span className="metric-label">{t('budget.spent')}</span>
+            <span className="metric-value">{formatCurrency(totals.spent)}</span>
+          </div>
+        </div>
+        <div className="metric-card income">
+          <div className="metric-icon">💰</div>
+          <div className="metric-content">
+            <span className="metric-label">{t('budget.remaining')}</span>
+            <span className={`metric-value ${totals.remaining >= 0 ? 'positive' : 'negative'}`}>
+              {formatCurrency(totals.remaining)}
+            </span>
+          </div>
+        </div>
+        <div className="metric-card savings">
+          <div className="metric-icon">⚠️</div>
+          <div className="metric-content">
+            <span className="metric-label">{t('budget.overBudget')}</span>
+            <span className={`metric-value ${totals.overBudgetCount > 0 ? 'negative' : 'positive'}`}>
+              {totals.overBudgetCount}
+            </span>
+          </div>
+        </div>
+      </div>
+
+      {budgetsWithSpend.length === 0 ? (
+        <div className="empty-state">
+          <div className="empty-state-icon">🎯</div>
+          <h3>{t('budget.noBudgets')}</h3>
+          <p>{t('budget.noBudgetsDescription')}</p>
+          <button className="btn btn-primary" onClick={() => setShowModal(true)}>
+            + {t('budget.newBudget')}
+          </button>
+        </div>
+      ) : (
+        <div className="budget-list">
+          {budgetsWithSpend.map((budget) => {
+            const status = getBudgetStatus(budget);
+            const remaining = (Number(budget.amount) || 0) - budget.spent;
+            return (
+              <div key={budget.id} className={`budget-card ${status}`}>
+                <div className="budget-card-header">
+                  <div className="budget-card-title">
+                    <span className="budget-category">{translateCategoryName(budget.category)}</span>
+                    {budget.subcategory && (
+                      <span className="budget-subcategory">• {translateSubcategoryName(budget.subcategory)}</span>
+                    )}
+                  </div>
+                  <button
+                    className="btn-icon-action btn-icon-delete"
+                    onClick={() => handleDeleteBudget(budget.id)}
+                    title={t('common.delete')}
+                  >
+                    <svg width="18" height="18" viewBox="0 0 18 18" fill="none" xmlns="http://www.w3.org/2000/svg">
+                      <path d="M3.75 5.25H14.25" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                      <path d="M7.5 8.25V12.75" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                      <path d="M10.5 8.25V12.75" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                      <path d="M4.5 5.25L5.25 14.25C5.25 14.6478 5.40804 15.0294 5.68934 15.3107C5.97064 15.592 6.35218 15.75 6.75 15.75H11.25C11.6478 15.75 12.0294 15.592 12.3107 15.3107C12.592 15.0294 12.75 14.6478 12.75 14.25L13.5 5.25" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                      <path d="M7.5 5.25V3C7.5 2.80109 7.57902 2.61032 7.71967 2.46967C7.86032 2.32902 8.05109 2.25 8.25 2.25H9.75C9.94891 2.25 10.1397 2.32902 10.2803 2.46967C10.421 2.61032 10.5 2.80109 10.5 3V5.25" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                    </svg>
+                  </button>
+                </div>
+
+                <div className="budget-amounts">
+                  <span className="budget-spent">{formatCurrency(budget.spent)}</span>
+                  <span className="budget-planned">/ {formatCurrency(budget.amount)}</span>
+                </div>
+
+                <div className="budget-progress">
+                  <div
+                    className={`budget-progress-bar ${status}`}
+                    style={{ width: `${Math.min(budget.percentage, 100)}%` }}
+                  ></div>
+                </div>
+
+                <div className="budget-card-footer">
+                  <span className="budget-percentage">{budget.percentage.toFixed(0)}%</span>
+                  {status === 'over' ? (
+                    <span className="budget-warning">
+                      ⚠️ {t('budget.overBy', { amount: formatCurrency(-remaining) })}
+                    </span>
+                  ) : (
+                    <span className="budget-remaining">
+                      {status === 'warning' && '⚠️ '}
+                      {t('budget.leftToSpend', { amount: formatCurrency(remaining) })}
+                    </span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Create Budget Modal */}
+      {showModal && (
+        <div className="modal-overlay" onClick={() => setShowModal(false)}>
+          <div className="modal" onClick={(e) => e.stopPropagation()}>
+            <h2>{t('budget.newBudget')}</h2>
+            <p className="modal-subtitle">{t('budget.newBudgetDescription', { month: selectedMonth })}</p>
+            <form onSubmit={handleCreateBudget}>
+              <div className="form-group">
+                <label>{t('transactions.category')} *</label>
+                <Dropdown
+                  options={expenseCategories.map((category): DropdownOption => ({
+                    value: category.id,
+                    label: translateCategoryName(category.name),
+                    badge: category.isDefault ? t('categories.default') : undefined,
+                  }))}
+                  value={newCategoryId}
+                  onChange={(val) => {
+                    setNewCategoryId(val as number);
+                    setNewSubcategoryId('');
+                  }}
+                  placeholder={t('transactions.selectCategory')}
+                  disabled={isSubmitting}
+                  searchable
+                />
+              </div>
+
+              <div className="form-group">
+                <label>{t('transactions.subcategory')}</label>
+                <Dropdown
+                  options={[
+                    { value: '', label: t('budget.wholeCategory') },
+                    ...availableSubcategories.map((subcategory): DropdownOption => ({
+                      value: subcategory.id,
+                      label: translateSubcategoryName(subcategory.name),
+                    })),
+                  ]}
+                  value={newSubcategoryId}
+                  onChange={(val) => setNewSubcategoryId(val === '' ? '' : val as number)}
+                  disabled={isSubmitting || !newCategoryId}
+                  searchable
+                />
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="budgetAmount">{t('budget.plannedAmount')} ({baseCurrency}) *</label>
+                <input
+                  type="number"
+                  id="budgetAmount"
+                  value={newAmount}
+                  onChange={(e) => setNewAmount(e.target.value)}
+                  placeholder="0.00"
+                  step="0.01"
+                  min="0.01"
+                  disabled={isSubmitting}
+                />
+              </div>
+
+              <div className="modal-actions">
+                <button
+                  type="button"
+                  className="btn btn-secondary"
+                  onClick={() => setShowModal(false)}
+                  disabled={isSubmitting}
+                >
+                  {t('common.cancel')}
+                </button>
+                <button
+                  type="submit"
+                  className="btn btn-primary"
+                  disabled={isSubmitting || !newCategoryId}
+                >
+                  {isSubmitting ? t('common.creating') : t('budget.createBudget')}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {toast && (
+        <Toast message={toast.message} type={toast.type} action={toast.action} onClose={hideToast} />
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
-import React, { useState, useEffect, useCallback, type FormEvent } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef, type FormEvent } from 'react';
 import { useTranslation } from 'react-i18next';
 import { getJson, postJson, deleteJson, ApiError } from '../lib/api';
+import { getCategories, invalidateCategories } from '../lib/queries';
+import { flushUndoables, scheduleUndoable } from '../lib/undo';
 import { Toast, useToast } from '../components/Toast';
 import type { CategoryDto, SubcategoryDto, TransactionType } from '../types/dtos';
 
@@ -83,8 +85,11 @@ export const CategoriesPage: React.FC = () => {
   };
 
   // State
-  const [categories, setCategories] = useState<CategoryDto[]>([]);
+  const [loadedCategories, setCategories] = useState<CategoryDto[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  // Categories and subcategories deleted but still in their undo window
+  const [pendingCategoryDeletes, setPendingCategoryDeletes] = useState<number[]>([]);
+  const [pendingSubcategoryDeletes, setPendingSubcategoryDeletes] = useState<number[]>([]);
   const [expandedCategories, setExpandedCategories] = useState<Set<number>>(new Set());
 
   // Hidden items state
@@ -112,13 +117,20 @@ export const CategoriesPage: React.FC = () => {
   // Hooks
   const [toast, showToast, hideToast] = useToast();
 
+  // Pending deletes are left out of the list, including when it is loaded again meanwhile
+  const categories = useMemo(() => loadedCategories
+    .filter(cat => !pendingCategoryDeletes.includes(cat.id))
+    .map(cat => cat.subcategories?.some(sub => pendingSubcategoryDeletes.includes(sub.id))
+      ? { ...cat, subcategories: cat.subcategories.filter(sub => !pendingSubcategoryDeletes.includes(sub.id)) }
+      : cat),
+  [loadedCategories, pendingCategoryDeletes, pendingSubcategoryDeletes]);
+
   /**
    * Fetch categories from API
    */
   const fetchCategories = useCallback(async () => {
     try {
-      const params = filterType ? `?type=${filterType}` : '';
-      const data = await getJson<CategoryDto[]>(`/api/categories${params}`);
+      const data = await getCategories(filterType || undefined);
       setCategories(data);
     } catch (error) {
       if (error instanceof ApiError) {
@@ -171,6 +183,7 @@ export const CategoriesPage: React.FC = () => {
   const handleRestoreCategory = async (categoryId: number) => {
     try {
       await postJson(`/api/categories/${categoryId}/restore`);
+      invalidateCategories();
       // Remove from hidden list
       setHiddenCategories(hiddenCategories.filter(c => c.id !== categoryId));
       // Refresh main categories list
@@ -191,6 +204,7 @@ export const CategoriesPage: React.FC = () => {
   const handleRestoreSubcategory = async (subcategoryId: number) => {
     try {
       await postJson(`/api/categories/subcategories/${subcategoryId}/restore`);
+      invalidateCategories();
       // Remove from hidden list
       setHiddenSubcategories(hiddenSubcategories.filter(s => s.id !== subcategoryId));
       // Refresh main categories list to show restored subcategory
@@ -210,6 +224,23 @@ export const CategoriesPage: React.FC = () => {
     fetchCategories();
   }, [fetchCategories]);
 
+  // Send deletes still waiting for their undo window when leaving the page
+  useEffect(() => {
+    return () => {
+      flushUndoables();
+    };
+  }, []);
+
+  // Reloads the list for deletes that go through later, with the filter active by then
+  // (cleared when leaving the page - the next visit loads fresh data anyway)
+  const reloadCategoriesRef = useRef<(() => Promise<void>) | null>(null);
+  useEffect(() => {
+    reloadCategoriesRef.current = fetchCategories;
+    return () => {
+      reloadCategoriesRef.current = null;
+    };
+  }, [fetchCategories]);
+
   /**
    * Toggle category expansion to show/hide subcategories
    */
@@ -243,8 +274,9 @@ export const CategoriesPage: React.FC = () => {
         name: newCategoryName.trim(),
         type: newCategoryType,
       });
+      invalidateCategories();
 
-      setCategories([...categories, newCategory]);
+      setCategories(prev => [...prev, newCategory]);
       setShowCategoryModal(false);
       setNewCategoryName('');
       setNewCategoryType('DEBIT');
@@ -283,9 +315,10 @@ export const CategoriesPage: React.FC = () => {
         name: newSubcategoryName.trim(),
         categoryId: selectedCategoryId,
       });
+      invalidateCategories();
 
       // Update the category with the new subcategory
-      setCategories(categories.map(cat => {
+      setCategories(prev => prev.map(cat => {
         if (cat.id === selectedCategoryId) {
           return {
             ...cat,
@@ -315,61 +348,91 @@ export const CategoriesPage: React.FC = () => {
 
   /**
    * Handle delete category
+   * The category leaves the list right away and is deleted once the undo window has passed
    */
-  const handleDeleteCategory = async (categoryId: number) => {
+  const handleDeleteCategory = (categoryId: number) => {
     const category = categories.find(c => c.id === categoryId);
-    if (category?.isDefault) {
+    if (!category) return;
+
+    if (category.isDefault) {
       showToast(t('categories.deleteDefaultError'), 'error');
       return;
     }
 
-    if (!confirm(t('categories.deleteCategoryConfirm'))) {
-      return;
-    }
+    // Stop hiding the category (it is gone from the reloaded list once deleted)
+    const endPendingDelete = () => {
+      setPendingCategoryDeletes(prev => prev.filter(id => id !== categoryId));
+    };
+
+    const cancelDelete = scheduleUndoable({
+      commit: async () => {
+        await deleteJson(`/api/categories/${categoryId}`, true, { keepalive: true });
+        invalidateCategories();
+        await reloadCategoriesRef.current?.();
+        setCategories(prev => prev.filter(c => c.id !== categoryId));
+        endPendingDelete();
+      },
+      onCommitError: (error) => {
+        endPendingDelete();
+        if (error instanceof ApiError) {
+          showToast(error.message, 'error');
+        } else {
+          showToast(t('categories.deleteError'), 'error');
+        }
+      },
+    });
 
-    try {
-      await deleteJson(`/api/categories/${categoryId}`);
-      setCategories(categories.filter(c => c.id !== categoryId));
-      showToast(t('categories.deleteSuccess'), 'success');
-    } catch (error) {
-      if (error instanceof ApiError) {
-        showToast(error.message, 'error');
-      } else {
-        showToast(t('categories.deleteError'), 'error');
-      }
-    }
+    setPendingCategoryDeletes(prev => [...prev, categoryId]);
+    showToast(t('categories.deleted'), 'success', {
+      label: t('common.undo'),
+      onClick: () => {
+        if (cancelDelete()) {
+          endPendingDelete();
+        }
+      },
+    });
   };
 
   /**
    * Handle delete subcategory
+   * The subcategory leaves the list right away and is deleted once the undo window has passed
    */
-  const handleDeleteSubcategory = async (subcategoryId: number, categoryId: number) => {
-    if (!confirm(t('categories.deleteSubcategoryConfirm'))) {
-      return;
-    }
-
-    try {
-      await deleteJson(`/api/categories/subcategories/${subcategoryId}`);
-      
-      // Update state to remove the subcategory
-      setCategories(categories.map(cat => {
-        if (cat.id === categoryId) {
-          return {
-            ...cat,
-            subcategories: cat.subcategories?.filter(sub => sub.id !== subcategoryId) || [],
-          };
+  const handleDeleteSubcategory = (subcategoryId: number) => {
+    // Stop hiding the subcategory (it is gone from the reloaded list once deleted)
+    const endPendingDelete = () => {
+      setPendingSubcategoryDeletes(prev => prev.filter(id => id !== subcategoryId));
+    };
+
+    const cancelDelete = scheduleUndoable({
+      commit: async () => {
+        await deleteJson(`/api/categories/subcategories/${subcategoryId}`, true, { keepalive: true });
+        invalidateCategories();
+        await reloadCategoriesRef.current?.();
+        setCategories(prev => prev.map(cat => ({
+          ...cat,
+          subcategories: cat.subcategories?.filter(sub => sub.id !== subcategoryId),
+        })));
+        endPendingDelete();
+      },
+      onCommitError: (error) => {
+        endPendingDelete();
+        if (error instanceof ApiError) {
+          showToast(error.message, 'error');
+        } else {
+          showToast(t('categories.subcategoryDeleteError'), 'error');
         }
-        return cat;
-      }));
+      },
+    });
 
-      showToast(t('categories.subcategoryDeleteSuccess'), 'success');
-    } catch (error) {
-      if (error instanceof ApiError) {
-        showToast(error.message, 'error');
-      } else {
-        showToast(t('categories.subcategoryDeleteError'), 'error');
-      }
-    }
+    setPendingSubcategoryDeletes(prev => [...prev, subcategoryId]);
+    showToast(t('categories.subcategoryDeleted'), 'success', {
+      label: t('common.undo'),
+      onClick: () => {
+        if (cancelDelete()) {
+          endPendingDelete();
+        }
+      },
+    });
   };
 
   /**
@@ -493,7 +556,7 @@ export const CategoriesPage: React.FC = () => {
                         {!category.isDefault && (
                           <button
                             className="btn-icon-action btn-icon-delete"
-                            onClick={() => handleDeleteSubcategory(subcategory.id, category.id)}
+                            onClick={() => handleDeleteSubcategory(subcategory.id)}
                             title={t('categories.deleteSubcategory')}
                           >
                             <svg width="18" height="18" viewBox="0 0 18 18" fill="none" xmlns="http://www.w3.org/2000/svg">
@@ -683,7 +746,7 @@ export const CategoriesPage: React.FC = () => {
 
       {/* Toast notification */}
       {toast && (
-        <Toast message={toast.message} type={toast.type} onClose={hideToast} />
+        <Toast message={toast.message} type={toast.type} action={toast.action} onClose={hideToast} />
       )}
     </div>
   );
@@ -1,9 +1,15 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { Link } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { getJson, ApiError } from '../lib/api';
+import { ApiError, getRecurringTransactions } from '../lib/api';
+import { getWalletsWithSummaries, getWalletTransactionsPage } from '../lib/queries';
+import { getUpcomingOccurrences, type RecurringOccurrence } from '../lib/recurrence';
+import { getWalletBalance, getWalletTypeIcon } from '../lib/wallets';
+import { useCurrency } from '../context/CurrencyContext';
 import { Toast, useToast } from '../components/Toast';
+import { MissingRatesNotice } from '../components/MissingRatesNotice';
 import type { WalletDto, TransactionDto } from '../types/dtos';
+import { addDays, format } from 'date-fns';
 
 // Mapeamento de nomes de categorias padrão para chaves de tradução
 const categoryNameToKey: Record<string, string> = {
@@ -15,6 +21,12 @@ const categoryNameToKey: Record<string, string> = {
   'Gifts Received': 'giftsReceived',
 };
 
+// How far ahead (in days) upcoming recurring transactions are listed
+const UPCOMING_DAYS = 30;
+
+// Number of recent transactions shown
+const RECENT_COUNT = 5;
+
 // Wallet with calculated balance
 interface WalletWithBalance extends WalletDto {
   calculatedBalance: number;
@@ -26,8 +38,10 @@ interface WalletWithBalance extends WalletDto {
  */
 export const DashboardPage: React.FC = () => {
   const { t, i18n } = useTranslation();
+  const { baseCurrency, convert } = useCurrency();
   const [wallets, setWallets] = useState<WalletWithBalance[]>([]);
   const [recentTransactions, setRecentTransactions] = useState<TransactionDto[]>([]);
+  const [upcomingOccurrences, setUpcomingOccurrences] = useState<RecurringOccurrence[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [toast, showToast, hideToast] = useToast();
 
@@ -44,35 +58,28 @@ export const DashboardPage: React.FC = () => {
 
   const fetchData = useCallback(async () => {
     try {
-      const walletsData = await getJson<WalletDto[]>('/api/wallets');
-      
-      // Fetch transactions for each wallet to calculate balance
-      const walletsWithBalance: WalletWithBalance[] = [];
-      const allTransactions: TransactionDto[] = [];
-      
-      for (const wallet of walletsData) {
-        try {
-          const transactions = await getJson<TransactionDto[]>(`/api/wallets/${wallet.id}/transactions`);
-          const income = transactions
-            .filter(t => t.type === 'CREDIT')
-            .reduce((sum, t) => sum + (Number(t.amount) || 0), 0);
-          const expenses = transactions
-            .filter(t => t.type === 'DEBIT')
-            .reduce((sum, t) => sum + (Number(t.amount) || 0), 0);
-          const calculatedBalance = income - expenses;
-          
-          walletsWithBalance.push({ ...wallet, calculatedBalance });
-          allTransactions.push(...transactions);
-        } catch {
-          walletsWithBalance.push({ ...wallet, calculatedBalance: 0 });
-        }
-      }
+      // Wallets and the server-side totals of their transactions (fetched in parallel)
+      const walletsData = await getWalletsWithSummaries();
+
+      // Each wallet's balance is its opening balance plus the balance of its transactions
+      const walletsWithBalance: WalletWithBalance[] = walletsData.map(({ wallet, summary }) => ({
+        ...wallet,
+        calculatedBalance: getWalletBalance(wallet, summary),
+      }));
       
       setWallets(walletsWithBalance);
       
+      // Only the first page of each wallet is needed for the most recent transactions
+      const firstPages = await Promise.all(
+        walletsData.map(({ wallet }) =>
+          getWalletTransactionsPage(wallet.id, 0, RECENT_COUNT).then(page => page.content, () => [])
+        )
+      );
+      const allTransactions: TransactionDto[] = firstPages.flat();
+      
       // Sort by date and take most recent
       allTransactions.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-      setRecentTransactions(allTransactions.slice(0, 5));
+      setRecentTransactions(allTransactions.slice(0, RECENT_COUNT));
     } catch (error) {
       if (error instanceof ApiError) {
         showToast(error.message, 'error');
@@ -84,18 +91,51 @@ export const DashboardPage: React.FC = () => {
     }
   }, [showToast, t]);
 
+  /**
+   * Fetch the recurring transactions due in the next days
+   * Not essential for the dashboard - failures leave the section empty
+   */
+  const fetchUpcoming = useCallback(async () => {
+    try {
+      const recurringData = await getRecurringTransactions();
+      const untilDate = format(addDays(new Date(), UPCOMING_DAYS), 'yyyy-MM-dd');
+      setUpcomingOccurrences(getUpcomingOccurrences(recurringData, untilDate, 5));
+    } catch {
+      setUpcomingOccurrences([]);
+    }
+  }, []);
+
   useEffect(() => {
     fetchData();
-  }, [fetchData]);
+    fetchUpcoming();
+  }, [fetchData, fetchUpcoming]);
+
+  // Archived wallets are only kept for currency lookups of their past transactions
+  const activeWallets = wallets.filter(w => !w.archived);
+
+  const getWalletCurrency = (walletId: number): string => {
+    return wallets.find(w => w.id === walletId)?.currency ?? baseCurrency;
+  };
+
+  // Totals are shown in the base currency; amounts without an exchange rate are left out
+  const missingRateCurrencies = new Set<string>();
+  const sumInBaseCurrency = (transactions: TransactionDto[]): number => {
+    return transactions.reduce((sum, t) => {
+      const currency = getWalletCurrency(t.walletId);
+      const converted = convert(t.amount, currency);
+      if (converted === null) {
+        missingRateCurrencies.add(currency);
+        return sum;
+      }
+      return sum + converted;
+    }, 0);
+  };
 
-  const totalIncome = recentTransactions
-    .filter(t => t.type === 'CREDIT')
-    .reduce((sum, t) => sum + (Number(t.amount) || 0), 0);
-  const totalExpenses = recentTransactions
-    .filter(t => t.type === 'DEBIT')
-    .reduce((sum, t) => sum + (Number(t.amount) || 0), 0);
+  // Transfers move money between wallets - they are neither income nor expenses
+  const totalIncome = sumInBaseCurrency(recentTransactions.filter(t => t.type === 'CREDIT' && !t.transferId));
+  const totalExpenses = sumInBaseCurrency(recentTransactions.filter(t => t.type === 'DEBIT' && !t.transferId));
 
-  const formatCurrency = (amount: number | undefined | null, currency: string = 'EUR'): string => {
+  const formatCurrency = (amount: number | undefined | null, currency: string = baseCurrency): string => {
     const value = Number(amount) || 0;
     const locale = i18n.language === 'pt' ? 'pt-PT' : 'en-GB';
     return new Intl.NumberFormat(locale, {
@@ -134,6 +174,8 @@ export const DashboardPage: React.FC = () => {
         </Link>
       </div>
 
+      <MissingRatesNotice currencies={[...missingRateCurrencies]} />
+
       {/* Stats Cards */}
       <div className="stats-grid">
         <div className="stat-card total-balance">
@@ -173,7 +215,7 @@ export const DashboardPage: React.FC = () => {
           <div className="stat-icon">👛</div>
           <div className="stat-content">
             <span className="stat-label">{t('wallets.title')}</span>
-            <span className="stat-value">{wallets.length}</span>
+            <span className="stat-value">{activeWallets.length}</span>
             <span className="stat-change neutral">
               <span>•</span> {t('dashboard.walletsOverview')}
             </span>
@@ -189,16 +231,18 @@ export const DashboardPage: React.FC = () => {
             <Link to="/wallets" className="section-link">{t('dashboard.viewAll')} →</Link>
           </div>
           <div className="wallets-list">
-            {wallets.length === 0 ? (
+            {activeWallets.length === 0 ? (
               <div className="empty-state-small">
                 <p>{t('dashboard.noWallets')}</p>
                 <Link to="/wallets" className="btn btn-secondary btn-sm">{t('wallets.createWallet')}</Link>
               </div>
             ) : (
-              wallets.slice(0, 4).map((wallet) => (
+              activeWallets.slice(0, 4).map((wallet) => (
                 <Link to={`/wallets/${wallet.id}`} key={wallet.id} className="wallet-item">
                   <div className="wallet-item-icon">
-                    {wallet.currency === 'EUR' ? '€' : wallet.currency === 'USD' ? '$' : '£'}
+                    {wallet.type
+                      ? getWalletTypeIcon(wallet.type)
+                      : wallet.currency === 'EUR' ? '€' : wallet.currency === 'USD' ? '$' : '£'}
                   </div>
                   <div className="wallet-item-info">
                     <span className="wallet-item-name">{wallet.name}</span>
@@ -237,7 +281,7 @@ export const DashboardPage: React.FC = () => {
                   </div>
                   <span className={`transaction-amount ${transaction.type.toLowerCase()}`}>
                     {transaction.type === 'CREDIT' ? '+' : '-'}
-                    {formatCurrency(transaction.amount)}
+                    {formatCurrency(transaction.amount, getWalletCurrency(transaction.walletId))}
                   </span>
                 </div>
               ))
@@ -246,6 +290,45 @@ export const DashboardPage: React.FC = () => {
         </div>
       </div>
 
+      {/* Upcoming Recurring Transactions */}
+      <div className="dashboard-section upcoming-section">
+        <div className="section-header">
+          <h2>{t('dashboard.upcoming')}</h2>
+          <Link to="/recurring" className="section-link">{t('dashboard.viewAll')} →</Link>
+        </div>
+        <div className="transactions-list-compact">
+          {upcomingOccurrences.length === 0 ? (
+            <div className="empty-state-small">
+              <p>{t('dashboard.noUpcoming', { days: UPCOMING_DAYS })}</p>
+              <Link to="/recurring" className="btn btn-secondary btn-sm">{t('recurring.newRecurring')}</Link>
+            </div>
+          ) : (
+            upcomingOccurrences.map(({ recurring, date }) => {
+              const wallet = wallets.find(w => w.id === recurring.walletId);
+              return (
+                <div key={`${recurring.id}-${date}`} className="transaction-item-compact">
+                  <div className={`transaction-icon ${recurring.type.toLowerCase()}`}>
+                    {recurring.mode === 'AUTO_POST' ? '⚡' : '🔔'}
+                  </div>
+                  <div className="transaction-details">
+                    <span className="transaction-category">
+                      {recurring.description || translateCategoryName(recurring.category)}
+                    </span>
+                    <span className="transaction-date">
+                      {formatDate(date)}{wallet ? ` · ${wallet.name}` : ''}
+                    </span>
+                  </div>
+                  <span className={`transaction-amount ${recurring.type.toLowerCase()}`}>
+                    {recurring.type === 'CREDIT' ? '+' : '-'}
+                    {formatCurrency(recurring.amount, wallet?.currency)}
+                  </span>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+
       {/* Quick Actions */}
       <div className="quick-actions">
         <h3>{t('dashboard.quickActions')}</h3>
@@ -1,7 +1,7 @@
-import React, { useState, type FormEvent } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, type FormEvent } from 'react';
+import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { useAuth } from '../context/AuthContext';
+import { useAuth, getReturnPath, type LoginLocationState } from '../context/AuthContext';
 import { Toast, useToast } from '../components/Toast';
 import { LanguageSelector } from '../components/LanguageSelector';
 import { ApiError } from '../lib/api';
@@ -17,8 +17,17 @@ export const LoginPage: React.FC = () => {
 
   const { login } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
   const [toast, showToast, hideToast] = useToast();
 
+  // Explain the redirect when the session expired on another page
+  const sessionExpired = (location.state as LoginLocationState | null)?.sessionExpired ?? false;
+  useEffect(() => {
+    if (sessionExpired) {
+      showToast(t('auth.sessionExpired'), 'info');
+    }
+  }, [sessionExpired, showToast, t]);
+
   const handleSubmit = async (e: FormEvent): Promise<void> => {
     e.preventDefault();
 
@@ -36,7 +45,8 @@ export const LoginPage: React.FC = () => {
     try {
       await login(username, password);
       showToast(t('common.success'), 'success');
-      navigate('/dashboard');
+      // Return to the page the user was on before being sent to login
+      navigate(getReturnPath(location.state));
     } catch (error) {
       if (error instanceof ApiError) {
         if (error.status === 401) {
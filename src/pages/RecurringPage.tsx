@@ -0,0 +1,583 @@
+import React, { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  getRecurringTransactions,
+  createRecurringTransaction,
+  deleteRecurringTransaction,
+  postRecurringOccurrence,
+  skipRecurringOccurrence,
+  ApiError,
+} from '../lib/api';
+import { getCategories, getWallets, invalidateWalletData } from '../lib/queries';
+import { categoryNameToKey, subcategoryNameToKey } from '../lib/categoryKeys';
+import { Toast, useToast } from '../components/Toast';
+import { Dropdown, type DropdownOption } from '../components/Dropdown';
+import type {
+  RecurringTransactionDto,
+  CreateRecurringTransactionDto,
+  RecurrenceFrequency,
+  RecurrenceMode,
+  TransactionType,
+  CategoryDto,
+  WalletDto,
+} from '../types/dtos';
+
+/**
+ * Recurring Transactions Page Component
+ * Templates for rent, salary, subscriptions... that repeat on a schedule
+ */
+export const RecurringPage: React.FC = () => {
+  const { t, i18n } = useTranslation();
+
+  /**
+   * Traduz o nome da categoria se for uma categoria padrão
+   */
+  const translateCategoryName = useCallback((categoryName: string): string => {
+    const key = categoryNameToKey[categoryName];
+    if (key) {
+      return t(`defaultCategories.${key}`);
+    }
+    return categoryName;
+  }, [t]);
+
+  /**
+   * Traduz o nome da subcategoria se for uma subcategoria padrão
+   */
+  const translateSubcategoryName = useCallback((subcategoryName: string): string => {
+    const key = subcategoryNameToKey[subcategoryName];
+    if (key) {
+      return t(`defaultSubcategories.${key}`);
+    }
+    return subcategoryName;
+  }, [t]);
+
+  // State
+  const [recurringTransactions, setRecurringTransactions] = useState<RecurringTransactionDto[]>([]);
+  const [wallets, setWallets] = useState<WalletDto[]>([]);
+  const [categories, setCategories] = useState<CategoryDto[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<number | null>(null);
+
+  // New recurring transaction form state
+  const [showModal, setShowModal] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [newWalletId, setNewWalletId] = useState<number | ''>('');
+  const [newType, setNewType] = useState<TransactionType>('DEBIT');
+  const [newAmount, setNewAmount] = useState('');
+  const [newCategoryId, setNewCategoryId] = useState<number | ''>('');
+  const [newSubcategoryId, setNewSubcategoryId] = useState<number | ''>('');
+  const [newDescription, setNewDescription] = useState('');
+  const [newFrequency, setNewFrequency] = useState<RecurrenceFrequency>('MONTHLY');
+  const [newMode, setNewMode] = useState<RecurrenceMode>('REMIND');
+  const [newStartDate, setNewStartDate] = useState(new Date().toISOString().split('T')[0]);
+  const [newEndDate, setNewEndDate] = useState('');
+
+  const [toast, showToast, hideToast] = useToast();
+
+  const filteredCategories = categories.filter(cat => cat.type === newType);
+  const selectedCategory = categories.find(cat => cat.id === newCategoryId);
+  const availableSubcategories = selectedCategory?.subcategories || [];
+
+  /**
+   * Fetch recurring transactions, wallets and categories
+   */
+  const fetchData = useCallback(async () => {
+    try {
+      const [recurringData, walletsData, categoriesData] = await Promise.all([
+        getRecurringTransactions(),
+        getWallets(),
+        getCategories(),
+      ]);
+      setRecurringTransactions(recurringData);
+      setWallets(walletsData);
+      setCategories(categoriesData);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('recurring.loadError'), 'error');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showToast, t]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  /**
+   * Reset the form to its defaults
+   */
+  const resetForm = () => {
+    setNewWalletId('');
+    setNewType('DEBIT');
+    setNewAmount('');
+    setNewCategoryId('');
+    setNewSubcategoryId('');
+    setNewDescription('');
+    setNewFrequency('MONTHLY');
+    setNewMode('REMIND');
+    setNewStartDate(new Date().toISOString().split('T')[0]);
+    setNewEndDate('');
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    resetForm();
+  };
+
+  /**
+   * Handle create recurring transaction form submission
+   */
+  const handleCreateRecurring = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const category = categories.find(c => c.id === newCategoryId);
+    const subcategory = category?.subcategories?.find(s => s.id === newSubcategoryId);
+
+    if (!newWalletId) {
+      showToast(t('recurring.walletRequired'), 'error');
+      return;
+    }
+    if (!newAmount || parseFloat(newAmount) <= 0) {
+      showToast(t('errors.invalidAmount'), 'error');
+      return;
+    }
+    if (!category) {
+      showToast(t('recurring.categoryRequired'), 'error');
+      return;
+    }
+    if (newEndDate && newEndDate < newStartDate) {
+      showToast(t('recurring.endBeforeStart'), 'error');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const recurringData: CreateRecurringTransactionDto = {
+        walletId: newWalletId,
+        type: newType,
+        category: category.name,
+        subcategory: subcategory?.name || undefined,
+        amount: parseFloat(newAmount),
+        description: newDescription.trim() || undefined,
+        frequency: newFrequency,
+        mode: newMode,
+        startDate: newStartDate,
+        endDate: newEndDate || undefined,
+      };
+
+      const newRecurring = await createRecurringTransaction(recurringData);
+      // Auto-post templates starting today or earlier may already have created transactions
+      invalidateWalletData(newRecurring.walletId);
+      setRecurringTransactions([...recurringTransactions, newRecurring]);
+
+      closeModal();
+      showToast(t('recurring.createSuccess'), 'success');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('recurring.createError'), 'error');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Post the next occurrence now as a normal transaction
+   */
+  const handlePostOccurrence = async (recurring: RecurringTransactionDto) => {
+    setProcessingId(recurring.id);
+
+    try {
+      await postRecurringOccurrence(recurring.id);
+      invalidateWalletData(recurring.walletId);
+      // The server moves the template to its following occurrence
+      setRecurringTransactions(await getRecurringTransactions());
+      showToast(t('recurring.postSuccess'), 'success');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('recurring.postError'), 'error');
+      }
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  /**
+   * Skip the next occurrence without posting it
+   */
+  const handleSkipOccurrence = async (recurring: RecurringTransactionDto) => {
+    setProcessingId(recurring.id);
+
+    try {
+      const updated = await skipRecurringOccurrence(recurring.id);
+      setRecurringTransactions(recurringTransactions.map(r => (r.id === updated.id ? updated : r)));
+      showToast(t('recurring.skipSuccess'), 'success');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('recurring.skipError'), 'error');
+      }
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  /**
+   * Handle delete recurring transaction
+   */
+  const handleDeleteRecurring = async (recurringId: number) => {
+    if (!confirm(t('recurring.deleteConfirm'))) {
+      return;
+    }
+
+    try {
+      await deleteRecurringTransaction(recurringId);
+      setRecurringTransactions(recurringTransactions.filter(r => r.id !== recurringId));
+      showToast(t('recurring.deleteSuccess'), 'success');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('recurring.deleteError'), 'error');
+      }
+    }
+  };
+
+  const formatCurrency = (amount: number | undefined | null, currency: string = 'EUR'): string => {
+    const value = Number(amount) || 0;
+    const locale = i18n.language === 'pt' ? 'pt-PT' : 'en-GB';
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: currency,
+    }).format(value);
+  };
+
+  const formatDate = (dateString: string): string => {
+    const locale = i18n.language === 'pt' ? 'pt-PT' : 'en-GB';
+    return new Date(dateString).toLocaleDateString(locale, {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+    });
+  };
+
+  const frequencyOptions: DropdownOption[] = [
+    { value: 'DAILY', label: t('recurring.frequencies.DAILY') },
+    { value: 'WEEKLY', label: t('recurring.frequencies.WEEKLY') },
+    { value: 'MONTHLY', label: t('recurring.frequencies.MONTHLY') },
+    { value: 'YEARLY', label: t('recurring.frequencies.YEARLY') },
+  ];
+
+  const modeOptions: DropdownOption[] = [
+    { value: 'REMIND', label: t('recurring.modes.REMIND'), icon: '🔔' },
+    { value: 'AUTO_POST', label: t('recurring.modes.AUTO_POST'), icon: '⚡' },
+  ];
+
+  if (isLoading) {
+    return (
+      <div className="page-loading">
+        <div className="spinner"></div>
+        <p>{t('common.loading')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="recurring-page">
+      <div className="page-header">
+        <div>
+          <h1>{t('recurring.title')}</h1>
+          <p className="page-subtitle">{t('recurring.subtitle')}</p>
+        </div>
+        <button
+          className="btn btn-primary"
+          onClick={() => setShowModal(true)}
+        >
+          <span className="btn-icon">+</span>
+          {t('recurring.newRecurring')}
+        </button>
+      </div>
+
+      {recurringTransactions.length === 0 ? (
+        <div className="empty-state">
+          <div className="empty-state-icon">🔁</div>
+          <h3>{t('recurring.noRecurring')}</h3>
+          <p>{t('recurring.noRecurringDescription')}</p>
+          <button className="btn btn-primary" onClick={() => setShowModal(true)}>
+            + {t('recurring.newRecurring')}
+          </button>
+        </div>
+      ) : (
+        <div className="recurring-list">
+          {recurringTransactions.map((recurring) => {
+            const wallet = wallets.find(w => w.id === recurring.walletId);
+            const isProcessing = processingId === recurring.id;
+            return (
+              <div key={recurring.id} className={`recurring-card ${recurring.type.toLowerCase()}`}>
+                <div className="recurring-card-header">
+                  <div className="recurring-card-title">
+                    <span className="recurring-category">{translateCategoryName(recurring.category)}</span>
+                    {recurring.subcategory && (
+                      <span className="recurring-subcategory">• {translateSubcategoryName(recurring.subcategory)}</span>
+                    )}
+                    {recurring.description && (
+                      <p className="recurring-description">{recurring.description}</p>
+                    )}
+                  </div>
+                  <button
+                    className="btn-icon-action btn-icon-delete"
+                    onClick={() => handleDeleteRecurring(recurring.id)}
+                    title={t('common.delete')}
+                  >
+                    <svg width="18" height="18" viewBox="0 0 18 18" fill="none" xmlns="http://www.w3.org/2000/svg">
+                      <path d="M3.75 5.25H14.25" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                      <path d="M7.5 8.25V12.75" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                      <path d="M10.5 8.25V12.75" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                      <path d="M4.5 5.25L5.25 14.25C5.25 14.6478 5.40804 15.0294 5.68934 15.3107C5.97064 15.592 6.35218 15.75 6.75 15.75H11.25C11.6478 15.75 12.0294 15.592 12.3107 15.3107C12.592 15.0294 12.75 14.6478 12.75 14.25L13.5 5.25" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                      <path d="M7.5 5.25V3C7.5 2.80109 7.57902 2.61032 7.71967 2.46967C7.86032 2.32902 8.05109 2.25 8.25 2.25H9.75C9.94891 2.25 10.1397 2.32902 10.2803 2.46967C10.421 2.61032 10.5 2.80109 10.5 3V5.25" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                    </svg>
+                  </button>
+                </div>
+
+                <span className={`recurring-amount ${recurring.type.toLowerCase()}`}>
+                  {recurring.type === 'CREDIT' ? '+' : '-'}
+                  {formatCurrency(recurring.amount, wallet?.currency)}
+                </span>
+
+                <div className="recurring-meta">
+                  <span className="recurring-badge">{t(`recurring.frequencies.${recurring.frequency}`)}</span>
+                  <span className={`recurring-badge mode ${recurring.mode === 'AUTO_POST' ? 'auto' : 'remind'}`}>
+                    {recurring.mode === 'AUTO_POST' ? '⚡' : '🔔'} {t(`recurring.modes.${recurring.mode}`)}
+                  </span>
+                  {wallet && <span className="recurring-wallet">👛 {wallet.name}</span>}
+                </div>
+
+                <div className="recurring-card-footer">
+                  <div className="recurring-dates">
+                    {recurring.nextOccurrence ? (
+                      <span className="recurring-next">
+                        {t('recurring.nextOccurrence', { date: formatDate(recurring.nextOccurrence) })}
+                      </span>
+                    ) : (
+                      <span className="recurring-ended">{t('recurring.ended')}</span>
+                    )}
+                    {recurring.endDate && (
+                      <span className="recurring-end">{t('recurring.until', { date: formatDate(recurring.endDate) })}</span>
+                    )}
+                  </div>
+                  {recurring.nextOccurrence && (
+                    <div className="recurring-actions">
+                      <button
+                        className="btn btn-secondary btn-sm"
+                        onClick={() => handleSkipOccurrence(recurring)}
+                        disabled={isProcessing}
+                      >
+                        {t('recurring.skip')}
+                      </button>
+                      <button
+                        className="btn btn-primary btn-sm"
+                        onClick={() => handlePostOccurrence(recurring)}
+                        disabled={isProcessing}
+                      >
+                        {t('recurring.postNow')}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Create Recurring Transaction Modal */}
+      {showModal && (
+        <div className="modal-overlay" onClick={closeModal}>
+          <div className="modal modal-large" onClick={(e) => e.stopPropagation()}>
+            <h2>{t('recurring.newRecurring')}</h2>
+            <p className="modal-subtitle">{t('recurring.newRecurringDescription')}</p>
+            <form onSubmit={handleCreateRecurring}>
+              <div className="form-row">
+                <div className="form-group">
+                  <label>{t('recurring.wallet')} *</label>
+                  <Dropdown
+                    options={wallets.filter(w => !w.archived).map((w): DropdownOption => ({
+                      value: w.id,
+                      label: w.name,
+                      icon: '👛',
+                      badge: w.currency,
+                    }))}
+                    value={newWalletId}
+                    onChange={(val) => setNewWalletId(val as number)}
+                    placeholder={t('recurring.selectWallet')}
+                    disabled={isSubmitting}
+                  />
+                </div>
+
+                <div className="form-group">
+                  <label>{t('transactions.type')}</label>
+                  <Dropdown
+                    options={[
+                      { value: 'DEBIT', label: `${t('transactions.debit')} (${t('transactions.expense')})`, icon: '📤' },
+                      { value: 'CREDIT', label: `${t('transactions.credit')} (${t('transactions.income')})`, icon: '📥' },
+                    ]}
+                    value={newType}
+                    onChange={(val) => {
+                      setNewType(val as TransactionType);
+                      setNewCategoryId('');
+                      setNewSubcategoryId('');
+                    }}
+                    disabled={isSubmitting}
+                  />
+                </div>
+              </div>
+
+              <div className="form-row">
+                <div className="form-group">
+                  <label>{t('transactions.category')} *</label>
+                  <Dropdown
+                    options={filteredCategories.map((category): DropdownOption => ({
+                      value: category.id,
+                      label: translateCategoryName(category.name),
+                      badge: category.isDefault ? t('categories.default') : undefined,
+                    }))}
+                    value={newCategoryId}
+                    onChange={(val) => {
+                      setNewCategoryId(val as number);
+                      setNewSubcategoryId('');
+                    }}
+                    placeholder={t('transactions.selectCategory')}
+                    disabled={isSubmitting}
+                    searchable
+                  />
+                </div>
+
+                <div className="form-group">
+                  <label>{t('transactions.subcategory')}</label>
+                  <Dropdown
+                    options={availableSubcategories.map((subcategory): DropdownOption => ({
+                      value: subcategory.id,
+                      label: translateSubcategoryName(subcategory.name),
+                    }))}
+                    value={newSubcategoryId}
+                    onChange={(val) => setNewSubcategoryId(val as number)}
+                    placeholder={t('transactions.selectSubcategory')}
+                    disabled={isSubmitting || availableSubcategories.length === 0}
+                    searchable
+                  />
+                </div>
+              </div>
+
+              <div className="form-row">
+                <div className="form-group">
+                  <label htmlFor="recurringAmount">{t('transactions.amount')} *</label>
+                  <input
+                    type="number"
+                    id="recurringAmount"
+                    value={newAmount}
+                    onChange={(e) => setNewAmount(e.target.value)}
+                    placeholder="0.00"
+                    step="0.01"
+                    min="0.01"
+                    disabled={isSubmitting}
+                  />
+                </div>
+
+                <div className="form-group">
+                  <label htmlFor="recurringDescription">{t('transactions.description')}</label>
+                  <input
+                    type="text"
+                    id="recurringDescription"
+                    value={newDescription}
+                    onChange={(e) => setNewDescription(e.target.value)}
+                    placeholder={t('recurring.descriptionPlaceholder')}
+                    disabled={isSubmitting}
+                  />
+                </div>
+              </div>
+
+              <div className="form-row">
+                <div className="form-group">
+                  <label>{t('recurring.frequency')}</label>
+                  <Dropdown
+                    options={frequencyOptions}
+                    value={newFrequency}
+                    onChange={(val) => setNewFrequency(val as RecurrenceFrequency)}
+                    disabled={isSubmitting}
+                  />
+                </div>
+
+                <div className="form-group">
+                  <label>{t('recurring.mode')}</label>
+                  <Dropdown
+                    options={modeOptions}
+                    value={newMode}
+                    onChange={(val) => setNewMode(val as RecurrenceMode)}
+                    disabled={isSubmitting}
+                  />
+                </div>
+              </div>
+
+              <div className="form-row">
+                <div className="form-group">
+                  <label htmlFor="recurringStartDate">{t('recurring.startDate')} *</label>
+                  <input
+                    type="date"
+                    id="recurringStartDate"
+                    value={newStartDate}
+                    onChange={(e) => setNewStartDate(e.target.value)}
+                    disabled={isSubmitting}
+                    required
+                  />
+                </div>
+
+                <div className="form-group">
+                  <label htmlFor="recurringEndDate">{t('recurring.endDate')}</label>
+                  <input
+                    type="date"
+                    id="recurringEndDate"
+                    value={newEndDate}
+                    onChange={(e) => setNewEndDate(e.target.value)}
+                    min={newStartDate}
+                    disabled={isSubmitting}
+                  />
+                </div>
+              </div>
+
+              <div className="modal-actions">
+                <button
+                  type="button"
+                  className="btn btn-secondary"
+                  onClick={closeModal}
+                  disabled={isSubmitting}
+                >
+                  {t('common.cancel')}
+                </button>
+                <button
+                  type="submit"
+                  className="btn btn-primary"
+                  disabled={isSubmitting || !newWalletId || !newCategoryId}
+                >
+                  {isSubmitting ? t('common.creating') : t('recurring.createRecurring')}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {toast && (
+        <Toast message={toast.message} type={toast.type} onClose={hideToast} />
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,18 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
-import { getJson, ApiError } from '../lib/api';
+import { useNavigate, useSearchParams, useLocation } from 'react-router-dom';
+import { ApiError } from '../lib/api';
+import { getWalletsWithTransactions } from '../lib/queries';
+import { calculateWalletBalance } from '../lib/wallets';
+import { downloadExport, getExportFileName, toExportRows, type ExportFormat, type ExportOptions } from '../lib/export';
+import { addSavedView } from '../lib/savedViews';
+import { getCategoryLines } from '../lib/splits';
+import { useCurrency } from '../context/CurrencyContext';
+import { useAuth } from '../context/AuthContext';
 import { Toast, useToast } from '../components/Toast';
+import { MissingRatesNotice } from '../components/MissingRatesNotice';
+import { ExportModal } from '../components/ExportModal';
+import { SaveViewModal } from '../components/SaveViewModal';
 import type { WalletDto, TransactionDto } from '../types/dtos';
 import {
   PieChart, Pie, Cell, ResponsiveContainer,
@@ -54,8 +65,17 @@ const subcategoryNameToKey: Record<string, string> = {
 interface TransactionWithWallet extends Omit<TransactionDto, 'walletId'> {
   walletId?: number;
   walletName?: string;
+  currency: string; // Currency of the wallet
 }
 
+// Transaction with its amount (and split lines) converted to the base currency
+interface ConvertedTransaction extends TransactionWithWallet {
+  originalAmount: number; // Amount in the wallet's currency
+}
+
+// Periods offered by the period filter, in months
+const REPORT_PERIODS = [1, 3, 6, 12];
+
 // Tooltip props type
 interface CustomTooltipProps {
   active?: boolean;
@@ -69,11 +89,22 @@ interface CustomTooltipProps {
  */
 export const ReportsPage: React.FC = () => {
   const { t } = useTranslation();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { currentUser } = useAuth();
+  const { baseCurrency, convert } = useCurrency();
   const [wallets, setWallets] = useState<WalletDto[]>([]);
   const [transactions, setTransactions] = useState<TransactionWithWallet[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [selectedPeriod, setSelectedPeriod] = useState<number>(6); // months
-  const [selectedWalletId, setSelectedWalletId] = useState<number | 'all'>('all');
+  // Filters are kept in the URL (?period=&wallet=) so they can be saved as a view
+  const [searchParams, setSearchParams] = useSearchParams();
+  const periodParam = Number(searchParams.get('period'));
+  const selectedPeriod = REPORT_PERIODS.includes(periodParam) ? periodParam : 6; // months
+  const walletParam = Number(searchParams.get('wallet'));
+  const selectedWalletId: number | 'all' = walletParam > 0 ? walletParam : 'all';
+  const [showSaveViewModal, setShowSaveViewModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
   const [toast, showToast, hideToast] = useToast();
 
   /**
@@ -116,23 +147,24 @@ export const ReportsPage: React.FC = () => {
   ];
 
   /**
-   * Fetch all data
+   * Fetch all data (archived wallets included - reports cover their history too)
    */
   const fetchData = useCallback(async () => {
     try {
-      const walletsData = await getJson<WalletDto[]>('/api/wallets');
-      setWallets(walletsData);
-
-      // Fetch transactions from all wallets
-      const allTransactions: TransactionWithWallet[] = [];
-      for (const wallet of walletsData) {
-        try {
-          const txns = await getJson<TransactionDto[]>(`/api/wallets/${wallet.id}/transactions`);
-          allTransactions.push(...txns.map(t => ({ ...t, walletId: wallet.id, walletName: wallet.name })));
-        } catch {
-          // Ignore errors for individual wallets
-        }
-      }
+      // Fetch transactions from all wallets (in parallel, shared with other pages)
+      const walletsData = await getWalletsWithTransactions();
+      // Balances start from each wallet's opening balance (transfers included - they move money)
+      setWallets(walletsData.map(({ wallet, transactions }) => ({
+        ...wallet,
+        balance: calculateWalletBalance(wallet, transactions),
+      })));
+
+      // Transfers move money between wallets - they are neither income nor expenses
+      const allTransactions: TransactionWithWallet[] = walletsData.flatMap(({ wallet, transactions }) =>
+        transactions
+          .filter(t => !t.transferId)
+          .map(t => ({ ...t, walletId: wallet.id, walletName: wallet.name, currency: wallet.currency }))
+      );
       setTransactions(allTransactions);
     } catch (error) {
       if (error instanceof ApiError) {
@@ -149,6 +181,76 @@ export const ReportsPage: React.FC = () => {
     fetchData();
   }, [fetchData]);
 
+  /**
+   * Set or clear one filter in the URL
+   */
+  const setFilter = (name: 'period' | 'wallet', value: string) => {
+    const params = new URLSearchParams(searchParams);
+    if (value) {
+      params.set(name, value);
+    } else {
+      params.delete(name);
+    }
+    setSearchParams(params, { replace: true });
+  };
+
+  const handleSaveView = (name: string) => {
+    addSavedView(currentUser, name, `${location.pathname}${location.search}`);
+    setShowSaveViewModal(false);
+    showToast(t('savedViews.saved', { name }), 'success');
+  };
+
+  /**
+   * Export every transaction of every wallet (transfers and archived wallets included)
+   */
+  const handleExport = async (exportFormat: ExportFormat, options: Omit<ExportOptions, 'fileName'>) => {
+    setIsExporting(true);
+
+    try {
+      const rows = toExportRows(await getWalletsWithTransactions());
+      if (rows.length === 0) {
+        showToast(t('export.empty'), 'info');
+        return;
+      }
+
+      downloadExport(rows, exportFormat, { ...options, fileName: getExportFileName(t('export.allFileName')) });
+      setShowExportModal(false);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('export.error'), 'error');
+      }
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  /**
+   * Convert every transaction to the base currency, so all charts and insights can add them up
+   * Transactions in a currency without an exchange rate are left out
+   */
+  const { convertedTransactions, missingRateCurrencies } = useMemo(() => {
+    const converted: ConvertedTransaction[] = [];
+    const missing = new Set<string>();
+
+    transactions.forEach(t => {
+      const amount = convert(t.amount, t.currency);
+      if (amount === null) {
+        missing.add(t.currency);
+        return;
+      }
+      converted.push({
+        ...t,
+        amount,
+        originalAmount: Number(t.amount) || 0,
+        splits: t.splits?.map(line => ({ ...line, amount: convert(line.amount, t.currency) ?? 0 })),
+      });
+    });
+
+    return { convertedTransactions: converted, missingRateCurrencies: [...missing] };
+  }, [transactions, convert]);
+
   /**
    * Filter transactions by period and wallet
    */
@@ -156,13 +258,13 @@ export const ReportsPage: React.FC = () => {
     const startDate = startOfMonth(subMonths(new Date(), selectedPeriod - 1));
     const endDate = endOfMonth(new Date());
 
-    return transactions.filter(t => {
+    return convertedTransactions.filter(t => {
       const txDate = parseISO(t.date);
       const inPeriod = isWithinInterval(txDate, { start: startDate, end: endDate });
       const inWallet = selectedWalletId === 'all' || t.walletId === selectedWalletId;
       return inPeriod && inWallet;
     });
-  }, [transactions, selectedPeriod, selectedWalletId]);
+  }, [convertedTransactions, selectedPeriod, selectedWalletId]);
 
   /**
    * Calculate summary metrics
@@ -195,15 +297,17 @@ export const ReportsPage: React.FC = () => {
 
   /**
    * Expenses by category (Pie Chart)
+   * Split transactions count each line towards its own category
    */
   const expensesByCategory = useMemo(() => {
     const categoryMap = new Map<string, number>();
 
     filteredTransactions
       .filter(t => t.type === 'DEBIT')
-      .forEach(t => {
-        const current = categoryMap.get(t.category) || 0;
-        categoryMap.set(t.category, current + (Number(t.amount) || 0));
+      .flatMap(getCategoryLines)
+      .forEach(line => {
+        const current = categoryMap.get(line.category) || 0;
+        categoryMap.set(line.category, current + (Number(line.amount) || 0));
       });
 
     return Array.from(categoryMap.entries())
@@ -220,9 +324,10 @@ export const ReportsPage: React.FC = () => {
 
     filteredTransactions
       .filter(t => t.type === 'CREDIT')
-      .forEach(t => {
-        const current = categoryMap.get(t.category) || 0;
-        categoryMap.set(t.category, current + (Number(t.amount) || 0));
+      .flatMap(getCategoryLines)
+      .forEach(line => {
+        const current = categoryMap.get(line.category) || 0;
+        categoryMap.set(line.category, current + (Number(line.amount) || 0));
       });
 
     return Array.from(categoryMap.entries())
@@ -301,21 +406,33 @@ export const ReportsPage: React.FC = () => {
    * Wallet distribution
    */
   const walletDistribution = useMemo(() => {
-    return wallets.map(w => ({
-      name: w.name,
-      value: Math.abs(Number(w.balance) || 0),
-      balance: Number(w.balance) || 0,
-    })).filter(w => w.value > 0);
-  }, [wallets]);
+    return wallets.map(w => {
+      const balance = convert(w.balance, w.currency) ?? 0;
+      return {
+        name: w.name,
+        value: Math.abs(balance),
+        balance,
+      };
+    }).filter(w => w.value > 0);
+  }, [wallets, convert]);
+
+  const getPeriodLabel = (months: number): string => {
+    switch (months) {
+      case 1: return t('reports.lastMonth');
+      case 3: return t('reports.last3Months');
+      case 12: return t('reports.last12Months');
+      default: return t('reports.last6Months');
+    }
+  };
 
   /**
-   * Format currency
+   * Format currency (amounts are in the base currency unless stated otherwise)
    */
-  const formatCurrency = (amount: number | undefined | null): string => {
+  const formatCurrency = (amount: number | undefined | null, currency: string = baseCurrency): string => {
     const value = Number(amount) || 0;
     return new Intl.NumberFormat('pt-PT', {
       style: 'currency',
-      currency: 'EUR',
+      currency,
     }).format(value);
   };
 
@@ -354,34 +471,58 @@ export const ReportsPage: React.FC = () => {
           <h1>{t('reports.title')}</h1>
           <p className="page-subtitle">{t('reports.subtitle')}</p>
         </div>
+        <div className="page-header-actions">
+          <button
+            className="btn btn-secondary"
+            onClick={() => navigate(`/reports/statement${selectedWalletId === 'all' ? '' : `?wallet=${selectedWalletId}`}`)}
+          >
+            🖨️ {t('statement.generate')}
+          </button>
+          <button
+            className="btn btn-secondary"
+            onClick={() => setShowExportModal(true)}
+          >
+            ⬇️ {t('export.exportAll')}
+          </button>
+        </div>
       </div>
 
+      <MissingRatesNotice currencies={missingRateCurrencies} />
+
       {/* Filters */}
       <div className="reports-filters">
         <div className="filter-group">
           <label>{t('reports.period')}</label>
           <select
             value={selectedPeriod}
-            onChange={(e) => setSelectedPeriod(Number(e.target.value))}
+            onChange={(e) => setFilter('period', e.target.value)}
           >
-            <option value={1}>{t('reports.lastMonth')}</option>
-            <option value={3}>{t('reports.last3Months')}</option>
-            <option value={6}>{t('reports.last6Months')}</option>
-            <option value={12}>{t('reports.last12Months')}</option>
+            {REPORT_PERIODS.map(period => (
+              <option key={period} value={period}>{getPeriodLabel(period)}</option>
+            ))}
           </select>
         </div>
         <div className="filter-group">
           <label>{t('reports.wallet')}</label>
           <select
             value={selectedWalletId}
-            onChange={(e) => setSelectedWalletId(e.target.value === 'all' ? 'all' : Number(e.target.value))}
+            onChange={(e) => setFilter('wallet', e.target.value === 'all' ? '' : e.target.value)}
           >
             <option value="all">{t('reports.allWallets')}</option>
             {wallets.map(w => (
-              <option key={w.id} value={w.id}>{w.name}</option>
+              <option key={w.id} value={w.id}>
+                {w.name}{w.archived ? ` (${t('wallets.archived')})` : ''}
+              </option>
             ))}
           </select>
         </div>
+        <button
+          type="button"
+          className="btn btn-secondary btn-sm"
+          onClick={() => setShowSaveViewModal(true)}
+        >
+          📌 {t('savedViews.save')}
+        </button>
       </div>
 
       {/* Key Metrics */}
@@ -640,7 +781,12 @@ export const ReportsPage: React.FC = () => {
                   {tx.description && <p className="expense-description">{tx.description}</p>}
                   <span className="expense-date">{format(parseISO(tx.date), 'dd MMM yyyy', { locale: pt })}</span>
                 </div>
-                <span className="expense-amount">{formatCurrency(tx.amount)}</span>
+                <span className="expense-amount">
+                  {formatCurrency(tx.amount)}
+                  {tx.currency !== baseCurrency && (
+                    <span className="converted-amount">{formatCurrency(tx.originalAmount, tx.currency)}</span>
+                  )}
+                </span>
               </div>
             ))}
           </div>
@@ -692,6 +838,26 @@ export const ReportsPage: React.FC = () => {
         </div>
       </div>
 
+      {showSaveViewModal && (
+        <SaveViewModal
+          defaultName={[
+            getPeriodLabel(selectedPeriod),
+            wallets.find(w => w.id === selectedWalletId)?.name,
+          ].filter(Boolean).join(' - ')}
+          onSave={handleSaveView}
+          onCancel={() => setShowSaveViewModal(false)}
+        />
+      )}
+
+      {showExportModal && (
+        <ExportModal
+          description={t('export.allDescription')}
+          isExporting={isExporting}
+          onExport={handleExport}
+          onCancel={() => setShowExportModal(false)}
+        />
+      )}
+
       {toast && (
         <Toast message={toast.message} type={toast.type} onClose={hideToast} />
       )}
@@ -0,0 +1,434 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link, useSearchParams, useLocation } from 'react-router-dom';
+import { parseISO } from 'date-fns';
+import { ApiError } from '../lib/api';
+import { getWalletsWithTransactions, type WalletWithTransactions } from '../lib/queries';
+import { hasSearchFilters, matchesSearch, parseSearchParams } from '../lib/search';
+import { addSavedView } from '../lib/savedViews';
+import { getCategoryLines } from '../lib/splits';
+import { categoryNameToKey, subcategoryNameToKey } from '../lib/categoryKeys';
+import { useAuth } from '../context/AuthContext';
+import { useCurrency } from '../context/CurrencyContext';
+import { Toast, useToast } from '../components/Toast';
+import { MissingRatesNotice } from '../components/MissingRatesNotice';
+import { SaveViewModal } from '../components/SaveViewModal';
+import type { TransactionDto } from '../types/dtos';
+
+// Results shown at first and added by each "Load more"
+const RESULTS_PAGE_SIZE = 50;
+
+/**
+ * Search Page Component
+ * Searches the transactions of every wallet; the filters live in the URL so searches can be bookmarked
+ */
+export const SearchPage: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const { baseCurrency, convert } = useCurrency();
+  const location = useLocation();
+  const { currentUser } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [showSaveViewModal, setShowSaveViewModal] = useState(false);
+  const [walletsData, setWalletsData] = useState<WalletWithTransactions[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [visibleCount, setVisibleCount] = useState(RESULTS_PAGE_SIZE);
+  const [toast, showToast, hideToast] = useToast();
+
+  const search = useMemo(() => parseSearchParams(searchParams), [searchParams]);
+  const locale = i18n.language === 'pt' ? 'pt-PT' : 'en-GB';
+
+  /**
+   * Traduz o nome da categoria se for uma categoria padrão
+   */
+  const translateCategoryName = useCallback((categoryName: string): string => {
+    const key = categoryNameToKey[categoryName];
+    if (key) {
+      return t(`defaultCategories.${key}`);
+    }
+    return categoryName;
+  }, [t]);
+
+  /**
+   * Traduz o nome da subcategoria se for uma subcategoria padrão
+   */
+  const translateSubcategoryName = useCallback((subcategoryName: string): string => {
+    const key = subcategoryNameToKey[subcategoryName];
+    if (key) {
+      return t(`defaultSubcategories.${key}`);
+    }
+    return subcategoryName;
+  }, [t]);
+
+  /**
+   * Fetch every wallet's transactions (archived wallets included)
+   */
+  const fetchData = useCallback(async () => {
+    try {
+      setWalletsData(await getWalletsWithTransactions());
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('search.loadError'), 'error');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showToast, t]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // Start from the first page whenever the filters change
+  useEffect(() => {
+    setVisibleCount(RESULTS_PAGE_SIZE);
+  }, [searchParams]);
+
+  const walletsById = useMemo(() => {
+    return new Map(walletsData.map(({ wallet }) => [wallet.id, wallet]));
+  }, [walletsData]);
+
+  // Category names in use, for the category filter (transfers aren't categorised)
+  const categoryOptions = useMemo(() => {
+    const names = new Set<string>();
+    walletsData.forEach(({ transactions }) => {
+      transactions.forEach(tx => {
+        if (!tx.transferId) {
+          getCategoryLines(tx).forEach(line => line.category && names.add(line.category));
+        }
+      });
+    });
+    search.categories.forEach(name => names.add(name));
+    return Array.from(names).sort((a, b) => translateCategoryName(a).localeCompare(translateCategoryName(b)));
+  }, [walletsData, search.categories, translateCategoryName]);
+
+  /**
+   * Matching transactions, newest first
+   */
+  const results = useMemo(() => {
+    return walletsData
+      .flatMap(({ transactions }) => transactions)
+      .filter(tx => matchesSearch(tx, search, getCategoryLines(tx).flatMap(line => [
+        translateCategoryName(line.category),
+        line.subcategory ? translateSubcategoryName(line.subcategory) : '',
+      ])))
+      .sort((a, b) => b.date.localeCompare(a.date) || b.id - a.id);
+  }, [walletsData, search, translateCategoryName, translateSubcategoryName]);
+
+  /**
+   * Income and expense totals of the results in the base currency (transfers left out)
+   */
+  const totals = useMemo(() => {
+    let income = 0;
+    let expenses = 0;
+    const missing = new Set<string>();
+
+    results.forEach(tx => {
+      const currency = walletsById.get(tx.walletId)?.currency ?? baseCurrency;
+      if (tx.transferId) {
+        return;
+      }
+      const amount = convert(tx.amount, currency);
+      if (amount === null) {
+        missing.add(currency);
+      } else if (tx.type === 'CREDIT') {
+        income += amount;
+      } else {
+        expenses += amount;
+      }
+    });
+
+    return { income, expenses, missingRateCurrencies: [...missing] };
+  }, [results, walletsById, convert, baseCurrency]);
+
+  /**
+   * Set or clear one query parameter (empty values are removed)
+   */
+  const setParam = (name: string, value: string) => {
+    const params = new URLSearchParams(searchParams);
+    if (value) {
+      params.set(name, value);
+    } else {
+      params.delete(name);
+    }
+    setSearchParams(params, { replace: true });
+  };
+
+  /**
+   * Add or remove one value of a multi-value query parameter
+   */
+  const toggleParam = (name: string, value: string) => {
+    const params = new URLSearchParams(searchParams);
+    const values = params.getAll(name);
+    params.delete(name);
+    (values.includes(value) ? values.filter(v => v !== value) : [...values, value])
+      .forEach(v => params.append(name, v));
+    setSearchParams(params, { replace: true });
+  };
+
+  const handleSaveView = (name: string) => {
+    addSavedView(currentUser, name, `${location.pathname}${location.search}`);
+    setShowSaveViewModal(false);
+    showToast(t('savedViews.saved', { name }), 'success');
+  };
+
+  const formatCurrency = (amount: number | undefined | null, currency: string = baseCurrency): string => {
+    const value = Number(amount) || 0;
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency,
+    }).format(value);
+  };
+
+  const formatDate = (dateString: string): string => {
+    return parseISO(dateString.split('T')[0]).toLocaleDateString(locale);
+  };
+
+  const getCounterpartWalletName = (transaction: TransactionDto): string => {
+    const counterpart = transaction.counterpartWalletId ? walletsById.get(transaction.counterpartWalletId) : undefined;
+    return counterpart?.name ?? t('transfers.otherWallet');
+  };
+
+  if (isLoading) {
+    return (
+      <div className="page-loading">
+        <div className="spinner"></div>
+        <p>{t('common.loading')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="search-page">
+      <div className="page-header">
+        <div>
+          <h1>{t('search.title')}</h1>
+          <p className="page-subtitle">{t('search.subtitle')}</p>
+        </div>
+      </div>
+
+      <MissingRatesNotice currencies={totals.missingRateCurrencies} />
+
+      <div className="transactions-section">
+        <div className="search-bar">
+          <input
+            type="search"
+            value={searchParams.get('q') ?? ''}
+            onChange={(e) => setParam('q', e.target.value)}
+            placeholder={t('search.placeholder')}
+            aria-label={t('common.search')}
+            autoFocus
+          />
+        </div>
+
+        <div className="filters-panel">
+          <div className="filters-grid">
+            <div className="filter-item">
+              <label htmlFor="searchType">{t('transactions.type')}</label>
+              <select
+                id="searchType"
+                value={search.type}
+                onChange={(e) => setParam('type', e.target.value)}
+              >
+                <option value="">{t('common.all')}</option>
+                <option value="DEBIT">{t('transactions.debit')}</option>
+                <option value="CREDIT">{t('transactions.credit')}</option>
+              </select>
+            </div>
+            <div className="filter-item">
+              <label htmlFor="searchFromDate">{t('transactions.fromDate')}</label>
+              <input
+                type="date"
+                id="searchFromDate"
+                value={search.fromDate}
+                onChange={(e) => setParam('from', e.target.value)}
+              />
+            </div>
+            <div className="filter-item">
+              <label htmlFor="searchToDate">{t('transactions.toDate')}</label>
+              <input
+                type="date"
+                id="searchToDate"
+                value={search.toDate}
+                onChange={(e) => setParam('to', e.target.value)}
+              />
+            </div>
+            <div className="filter-item">
+              <label htmlFor="searchMinAmount">{t('search.minAmount')}</label>
+              <input
+                type="number"
+                id="searchMinAmount"
+                value={searchParams.get('min') ?? ''}
+                onChange={(e) => setParam('min', e.target.value)}
+                step="0.01"
+                min="0"
+              />
+            </div>
+            <div className="filter-item">
+              <label htmlFor="searchMaxAmount">{t('search.maxAmount')}</label>
+              <input
+                type="number"
+                id="searchMaxAmount"
+                value={searchParams.get('max') ?? ''}
+                onChange={(e) => setParam('max', e.target.value)}
+                step="0.01"
+                min="0"
+              />
+            </div>
+          </div>
+
+          <div className="search-chip-group">
+            <span className="search-chip-label">{t('reports.wallet')}</span>
+            {walletsData.map(({ wallet }) => (
+              <button
+                key={wallet.id}
+                type="button"
+                className={`search-chip ${search.walletIds.includes(wallet.id) ? 'active' : ''}`}
+                onClick={() => toggleParam('wallet', String(wallet.id))}
+              >
+                {wallet.name}
+              </button>
+            ))}
+          </div>
+
+          <div className="search-chip-group">
+            <span className="search-chip-label">{t('transactions.category')}</span>
+            {categoryOptions.map(category => (
+              <button
+                key={category}
+                type="button"
+                className={`search-chip ${search.categories.includes(category) ? 'active' : ''}`}
+                onClick={() => toggleParam('category', category)}
+              >
+                {translateCategoryName(category)}
+              </button>
+            ))}
+          </div>
+
+          <div className="search-options">
+            <label className="import-header-toggle">
+              <input
+                type="checkbox"
+                checked={search.noSubcategory}
+                onChange={(e) => setParam('noSubcategory', e.target.checked ? '1' : '')}
+              />
+              {t('search.noSubcategory')}
+            </label>
+            {hasSearchFilters(search) && (
+              <div className="search-options-actions">
+                <button
+                  type="button"
+                  className="btn-clear-filters"
+                  onClick={() => setSearchParams(new URLSearchParams(), { replace: true })}
+                >
+                  <svg width="14" height="14" viewBox="0 0 14 14" fill="none">
+                    <path d="M10.5 3.5L3.5 10.5M3.5 3.5L10.5 10.5" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/>
+                  </svg>
+                  {t('transactions.clearFilters')}
+                </button>
+                <button
+                  type="button"
+                  className="btn btn-secondary btn-sm"
+                  onClick={() => setShowSaveViewModal(true)}
+                >
+                  📌 {t('savedViews.save')}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="search-summary">
+          <span>{t('search.resultCount', { count: results.length })}</span>
+          <span className="positive">{t('reports.totalIncome')}: {formatCurrency(totals.income)}</span>
+          <span className="negative">{t('reports.totalExpenses')}: {formatCurrency(totals.expenses)}</span>
+        </div>
+
+        {results.length === 0 ? (
+          <div className="empty-state">
+            <div className="empty-state-icon">🔍</div>
+            <h3>{t('search.noResults')}</h3>
+            <p>{t('search.noResultsDescription')}</p>
+          </div>
+        ) : (
+          <div className="transactions-list">
+            {results.slice(0, visibleCount).map((transaction) => {
+              const wallet = walletsById.get(transaction.walletId);
+              return (
+                <div
+                  key={transaction.id}
+                  className={`transaction-item ${transaction.type.toLowerCase()} ${transaction.transferId ? 'transfer' : ''}`}
+                >
+                  <div className="transaction-icon-wrapper">
+                    <div className={`transaction-type-icon ${transaction.type.toLowerCase()}`}>
+                      {transaction.transferId ? '⇄' : transaction.type === 'CREDIT' ? '↓' : '↑'}
+                    </div>
+                  </div>
+                  <div className="transaction-info">
+                    <div className="transaction-main">
+                      {transaction.transferId ? (
+                        <span className="transaction-category">
+                          {transaction.type === 'DEBIT'
+                            ? t('transfers.toWalletName', { wallet: getCounterpartWalletName(transaction) })
+                            : t('transfers.fromWalletName', { wallet: getCounterpartWalletName(transaction) })}
+                        </span>
+                      ) : (
+                        <>
+                          <span className="transaction-category">{translateCategoryName(transaction.category)}</span>
+                          {transaction.subcategory && (
+                            <span className="transaction-subcategory">• {translateSubcategoryName(transaction.subcategory)}</span>
+                          )}
+                        </>
+                      )}
+                    </div>
+                    {transaction.description && (
+                      <p className="transaction-description">{transaction.description}</p>
+                    )}
+                    <span className="transaction-date">
+                      {formatDate(transaction.date)}
+                      {wallet && (
+                        <Link to={`/wallets/${wallet.id}`} className="search-result-wallet">
+                          {wallet.name}
+                        </Link>
+                      )}
+                    </span>
+                  </div>
+                  <div className="transaction-actions">
+                    <span className={`transaction-amount ${transaction.type.toLowerCase()}`}>
+                      {transaction.type === 'CREDIT' ? '+' : '-'}
+                      {formatCurrency(transaction.amount, wallet?.currency)}
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {results.length > visibleCount && (
+          <div className="transactions-load-more">
+            <span className="transactions-load-more-info">
+              {t('transactions.showingCount', { shown: visibleCount, total: results.length })}
+            </span>
+            <button className="btn btn-secondary" onClick={() => setVisibleCount(count => count + RESULTS_PAGE_SIZE)}>
+              {t('transactions.loadMore')}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {showSaveViewModal && (
+        <SaveViewModal
+          defaultName={search.text.trim() || t('search.title')}
+          onSave={handleSaveView}
+          onCancel={() => setShowSaveViewModal(false)}
+        />
+      )}
+
+      {toast && (
+        <Toast message={toast.message} type={toast.type} onClose={hideToast} />
+      )}
+    </div>
+  );
+};
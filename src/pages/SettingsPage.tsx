@@ -0,0 +1,326 @@
+import React, { useState, useRef, type ChangeEvent, type FormEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useCurrency } from '../context/CurrencyContext';
+import { useAuth } from '../context/AuthContext';
+import { ApiError } from '../lib/api';
+import { SUPPORTED_CURRENCIES, parseExchangeRates } from '../lib/currency';
+import { createBackup, parseBackup, planRestore, restoreBackup, type RestorePlan } from '../lib/backup';
+import { downloadBlob, getExportFileName } from '../lib/export';
+import { Toast, useToast } from '../components/Toast';
+import { Dropdown } from '../components/Dropdown';
+import { RestoreModal } from '../components/RestoreModal';
+
+/**
+ * Settings Page Component
+ * Base currency, the exchange rates used to convert cross-wallet totals, and account backups
+ */
+export const SettingsPage: React.FC = () => {
+  const { t } = useTranslation();
+  const { baseCurrency, rates, setBaseCurrency, setRate, removeRate, importRates } = useCurrency();
+  const { currentUser } = useAuth();
+  const [toast, showToast, hideToast] = useToast();
+
+  // New rate form state
+  const otherCurrencies = SUPPORTED_CURRENCIES.filter(c => c !== baseCurrency);
+  const [rateCurrency, setRateCurrency] = useState(otherCurrencies[0] ?? '');
+  const [rateValue, setRateValue] = useState('');
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Backup state
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [isPlanningRestore, setIsPlanningRestore] = useState(false);
+  const [restorePlan, setRestorePlan] = useState<RestorePlan | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [restoreProgress, setRestoreProgress] = useState(0);
+  const backupInputRef = useRef<HTMLInputElement>(null);
+
+  // Currencies with a rate, plus wallet currencies still missing one
+  const rateRows = Array.from(new Set([...otherCurrencies, ...Object.keys(rates)]))
+    .filter(c => c !== baseCurrency)
+    .sort();
+
+  const handleBaseCurrencyChange = (currency: string) => {
+    if (currency === baseCurrency) {
+      return;
+    }
+    const keepsRates = !!rates[currency];
+    setBaseCurrency(currency);
+    if (!keepsRates && Object.keys(rates).length > 0) {
+      showToast(t('settings.ratesCleared'), 'info');
+    }
+    if (rateCurrency === currency) {
+      setRateCurrency(baseCurrency);
+    }
+  };
+
+  const handleSaveRate = (e: FormEvent) => {
+    e.preventDefault();
+
+    const rate = parseFloat(rateValue.replace(',', '.'));
+    if (!rateCurrency || !(rate > 0)) {
+      showToast(t('settings.invalidRate'), 'error');
+      return;
+    }
+
+    setRate(rateCurrency, rate);
+    setRateValue('');
+    showToast(t('settings.rateSaved', { currency: rateCurrency }), 'success');
+  };
+
+  const handleRemoveRate = (currency: string) => {
+    if (!confirm(t('settings.confirmRemoveRate', { currency }))) {
+      return;
+    }
+    removeRate(currency);
+  };
+
+  /**
+   * Import a CSV file of "CURRENCY,RATE" lines
+   */
+  const handleImportFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    try {
+      const { rates: imported, invalidLines } = parseExchangeRates(await file.text());
+      const count = Object.keys(imported).filter(c => c !== baseCurrency).length;
+      if (count === 0) {
+        showToast(t('settings.importEmpty'), 'error');
+        return;
+      }
+
+      importRates(imported);
+      showToast(
+        invalidLines > 0
+          ? t('settings.importPartial', { count, invalid: invalidLines })
+          : t('settings.importSuccess', { count }),
+        invalidLines > 0 ? 'info' : 'success'
+      );
+    } catch {
+      showToast(t('settings.importError'), 'error');
+    }
+  };
+
+  const handleDownloadBackup = async () => {
+    setIsBackingUp(true);
+    try {
+      const backup = await createBackup(currentUser ?? '');
+      downloadBlob(
+        new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }),
+        `${getExportFileName('finance-control-backup')}.json`
+      );
+      showToast(t('backup.downloaded'), 'success');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('backup.downloadError'), 'error');
+      }
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  /**
+   * Validate a backup file and compare it with the account before restoring
+   */
+  const handleBackupFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    setIsPlanningRestore(true);
+    try {
+      const { backup, error } = parseBackup(await file.text());
+      if (!backup) {
+        showToast(t(error ?? 'backup.errors.invalidData'), 'error');
+        return;
+      }
+      setRestoreProgress(0);
+      setRestorePlan(await planRestore(backup));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('backup.restoreError'), 'error');
+      }
+    } finally {
+      setIsPlanningRestore(false);
+    }
+  };
+
+  const handleConfirmRestore = async () => {
+    if (!restorePlan) {
+      return;
+    }
+
+    setIsRestoring(true);
+    try {
+      await restoreBackup(restorePlan, setRestoreProgress);
+      showToast(t('backup.restored'), 'success');
+    } catch (error) {
+      // Whatever was created stays; restoring the same file again picks up from there
+      if (error instanceof ApiError) {
+        showToast(t('backup.restorePartial', { message: error.message }), 'error');
+      } else {
+        showToast(t('backup.restoreError'), 'error');
+      }
+    } finally {
+      setIsRestoring(false);
+      setRestorePlan(null);
+    }
+  };
+
+  return (
+    <div className="settings-page">
+      <div className="page-header">
+        <div>
+          <h1>{t('settings.title')}</h1>
+          <p className="page-subtitle">{t('settings.subtitle')}</p>
+        </div>
+      </div>
+
+      <div className="settings-section">
+        <h2>{t('settings.baseCurrency')}</h2>
+        <p className="settings-hint">{t('settings.baseCurrencyHint')}</p>
+        <div className="settings-base-currency">
+          <Dropdown
+            options={SUPPORTED_CURRENCIES.map(c => ({ value: c, label: c, icon: '💱' }))}
+            value={baseCurrency}
+            onChange={(val) => handleBaseCurrencyChange(val as string)}
+          />
+        </div>
+      </div>
+
+      <div className="settings-section">
+        <div className="section-header">
+          <h2>{t('settings.exchangeRates')}</h2>
+          <button
+            type="button"
+            className="btn btn-secondary btn-sm"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            {t('settings.importRates')}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.txt,text/csv,text/plain"
+            onChange={handleImportFile}
+            hidden
+          />
+        </div>
+        <p className="settings-hint">{t('settings.exchangeRatesHint', { base: baseCurrency })}</p>
+
+        <div className="exchange-rate-list">
+          {rateRows.map((currency) => (
+            <div key={currency} className={`exchange-rate-row ${rates[currency] ? '' : 'missing'}`}>
+              <span className="exchange-rate-pair">1 {currency} =</span>
+              <span className="exchange-rate-value">
+                {rates[currency]
+                  ? `${rates[currency]} ${baseCurrency}`
+                  : t('settings.noRate')}
+              </span>
+              {rates[currency] && (
+                <button
+                  className="btn-icon-action btn-icon-delete"
+                  onClick={() => handleRemoveRate(currency)}
+                  title={t('common.delete')}
+                >
+                  <svg width="18" height="18" viewBox="0 0 18 18" fill="none" xmlns="http://www.w3.org/2000/svg">
+                    <path d="M3.75 5.25H14.25" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                    <path d="M7.5 8.25V12.75" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                    <path d="M10.5 8.25V12.75" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                    <path d="M4.5 5.25L5.25 14.25C5.25 14.6478 5.40804 15.0294 5.68934 15.3107C5.97064 15.592 6.35218 15.75 6.75 15.75H11.25C11.6478 15.75 12.0294 15.592 12.3107 15.3107C12.592 15.0294 12.75 14.6478 12.75 14.25L13.5 5.25" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                    <path d="M7.5 5.25V3C7.5 2.80109 7.57902 2.61032 7.71967 2.46967C7.86032 2.32902 8.05109 2.25 8.25 2.25H9.75C9.94891 2.25 10.1397 2.32902 10.2803 2.46967C10.421 2.61032 10.5 2.80109 10.5 3V5.25" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                  </svg>
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <form className="exchange-rate-form" onSubmit={handleSaveRate}>
+          <div className="form-row">
+            <div className="form-group">
+              <label>{t('wallets.currency')}</label>
+              <Dropdown
+                options={rateRows.map(c => ({ value: c, label: c }))}
+                value={rateCurrency}
+                onChange={(val) => setRateCurrency(val as string)}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="exchangeRate">{t('settings.rateLabel', { base: baseCurrency })}</label>
+              <input
+                type="number"
+                id="exchangeRate"
+                value={rateValue}
+                onChange={(e) => setRateValue(e.target.value)}
+                placeholder="1.0000"
+                step="any"
+                min="0"
+                required
+              />
+            </div>
+          </div>
+          <div className="modal-actions">
+            <button type="submit" className="btn btn-primary">
+              {t('settings.saveRate')}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      <div className="settings-section">
+        <h2>{t('backup.title')}</h2>
+        <p className="settings-hint">{t('backup.hint')}</p>
+        <div className="backup-actions">
+          <button
+            type="button"
+            className="btn btn-primary"
+            onClick={handleDownloadBackup}
+            disabled={isBackingUp}
+          >
+            {isBackingUp ? t('backup.preparing') : t('backup.download')}
+          </button>
+          <button
+            type="button"
+            className="btn btn-secondary"
+            onClick={() => backupInputRef.current?.click()}
+            disabled={isPlanningRestore || isRestoring}
+          >
+            {isPlanningRestore ? t('backup.checking') : t('backup.restoreFromFile')}
+          </button>
+          <input
+            ref={backupInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleBackupFile}
+            hidden
+          />
+        </div>
+      </div>
+
+      {restorePlan && (
+        <RestoreModal
+          plan={restorePlan}
+          isRestoring={isRestoring}
+          progress={restoreProgress}
+          onConfirm={handleConfirmRestore}
+          onCancel={() => setRestorePlan(null)}
+        />
+      )}
+
+      {toast && (
+        <Toast message={toast.message} type={toast.type} onClose={hideToast} />
+      )}
+    </div>
+  );
+};
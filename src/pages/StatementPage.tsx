@@ -0,0 +1,304 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link, useSearchParams } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { ApiError } from '../lib/api';
+import { getWallets, getWalletTransactions } from '../lib/queries';
+import { buildMonthlyStatement } from '../lib/statement';
+import { categoryNameToKey, subcategoryNameToKey } from '../lib/categoryKeys';
+import { Toast, useToast } from '../components/Toast';
+import type { TransactionDto, WalletDto } from '../types/dtos';
+
+/**
+ * Statement Page Component
+ * Print-optimized monthly statement of one wallet, which the browser can also save as PDF
+ * The wallet and month live in the URL (?wallet=&month=YYYY-MM)
+ */
+export const StatementPage: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [wallets, setWallets] = useState<WalletDto[]>([]);
+  const [transactions, setTransactions] = useState<TransactionDto[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [toast, showToast, hideToast] = useToast();
+
+  const month = /^\d{4}-\d{2}$/.test(searchParams.get('month') ?? '')
+    ? searchParams.get('month') as string
+    : format(new Date(), 'yyyy-MM');
+  const wallet = wallets.find(w => w.id === Number(searchParams.get('wallet'))) ?? wallets[0];
+
+  const locale = i18n.language === 'pt' ? 'pt-PT' : 'en-GB';
+
+  /**
+   * Traduz o nome da categoria se for uma categoria padrão
+   */
+  const translateCategoryName = useCallback((categoryName: string): string => {
+    const key = categoryNameToKey[categoryName];
+    if (key) {
+      return t(`defaultCategories.${key}`);
+    }
+    return categoryName;
+  }, [t]);
+
+  /**
+   * Traduz o nome da subcategoria se for uma subcategoria padrão
+   */
+  const translateSubcategoryName = useCallback((subcategoryName: string): string => {
+    const key = subcategoryNameToKey[subcategoryName];
+    if (key) {
+      return t(`defaultSubcategories.${key}`);
+    }
+    return subcategoryName;
+  }, [t]);
+
+  /**
+   * Fetch wallets (archived ones included - their history can still be printed)
+   */
+  const fetchWallets = useCallback(async () => {
+    try {
+      const walletList = await getWallets();
+      setWallets(walletList);
+      if (walletList.length === 0) {
+        setIsLoading(false);
+      }
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('wallets.loadError'), 'error');
+      }
+      setIsLoading(false);
+    }
+  }, [showToast, t]);
+
+  /**
+   * Fetch every transaction of the wallet - the opening balance needs the ones before the month too
+   */
+  const fetchTransactions = useCallback(async (walletId: number) => {
+    setIsLoading(true);
+    try {
+      setTransactions(await getWalletTransactions(walletId));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('reports.loadError'), 'error');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showToast, t]);
+
+  useEffect(() => {
+    fetchWallets();
+  }, [fetchWallets]);
+
+  const walletId = wallet?.id;
+  useEffect(() => {
+    if (walletId !== undefined) {
+      fetchTransactions(walletId);
+    }
+  }, [walletId, fetchTransactions]);
+
+  const statement = useMemo(() => {
+    return wallet ? buildMonthlyStatement(wallet, transactions, month) : null;
+  }, [wallet, transactions, month]);
+
+  const updateParams = (changes: Record<string, string>) => {
+    setSearchParams({ wallet: String(wallet?.id ?? ''), month, ...changes }, { replace: true });
+  };
+
+  const formatCurrency = (amount: number): string => {
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: wallet?.currency ?? 'EUR',
+    }).format(amount);
+  };
+
+  const formatDate = (date: string): string => {
+    return parseISO(date.split('T')[0]).toLocaleDateString(locale);
+  };
+
+  const getCounterpartWalletName = (transaction: TransactionDto): string => {
+    const counterpart = wallets.find(w => w.id === transaction.counterpartWalletId);
+    return counterpart?.name ?? t('transfers.otherWallet');
+  };
+
+  const monthLabel = parseISO(`${month}-01`).toLocaleDateString(locale, { month: 'long', year: 'numeric' });
+
+  return (
+    <div className="statement-page">
+      <Link to="/reports" className="back-link no-print">
+        <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
+          <path d="M10 12L6 8L10 4" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+        </svg>
+        {t('statement.backToReports')}
+      </Link>
+
+      <div className="page-header no-print">
+        <div>
+          <h1>{t('statement.title')}</h1>
+          <p className="page-subtitle">{t('statement.subtitle')}</p>
+        </div>
+        <button
+          className="btn btn-primary"
+          onClick={() => window.print()}
+          disabled={!statement || isLoading}
+        >
+          🖨️ {t('statement.print')}
+        </button>
+      </div>
+
+      <div className="reports-filters no-print">
+        <div className="filter-group">
+          <label htmlFor="statementWallet">{t('reports.wallet')}</label>
+          <select
+            id="statementWallet"
+            value={wallet?.id ?? ''}
+            onChange={(e) => updateParams({ wallet: e.target.value })}
+          >
+            {wallets.map(w => (
+              <option key={w.id} value={w.id}>
+                {w.name}{w.archived ? ` (${t('wallets.archived')})` : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="filter-group">
+          <label htmlFor="statementMonth">{t('budget.month')}</label>
+          <input
+            type="month"
+            id="statementMonth"
+            value={month}
+            onChange={(e) => e.target.value && updateParams({ month: e.target.value })}
+          />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="page-loading">
+          <div className="spinner"></div>
+          <p>{t('common.loading')}</p>
+        </div>
+      ) : !wallet || !statement ? (
+        <div className="chart-empty">{t('wallets.noWallets')}</div>
+      ) : (
+        <article className="statement-document">
+          <header className="statement-header">
+            <div>
+              <h2>{wallet.name}</h2>
+              <p>{t('statement.period', { month: monthLabel, from: formatDate(statement.fromDate), to: formatDate(statement.toDate) })}</p>
+            </div>
+            <div className="statement-header-meta">
+              <span>{t('wallets.currency')}: {wallet.currency}</span>
+              <span>{t('statement.generatedOn', { date: new Date().toLocaleDateString(locale) })}</span>
+            </div>
+          </header>
+
+          <section className="statement-summary">
+            <div className="statement-summary-item">
+              <span>{t('wallets.openingBalance')}</span>
+              <strong>{formatCurrency(statement.openingBalance)}</strong>
+            </div>
+            <div className="statement-summary-item">
+              <span>{t('reports.totalIncome')}</span>
+              <strong className="positive">{formatCurrency(statement.income)}</strong>
+            </div>
+            <div className="statement-summary-item">
+              <span>{t('reports.totalExpenses')}</span>
+              <strong className="negative">{formatCurrency(-statement.expenses)}</strong>
+            </div>
+            {statement.netTransfers !== 0 && (
+              <div className="statement-summary-item">
+                <span>{t('statement.netTransfers')}</span>
+                <strong>{formatCurrency(statement.netTransfers)}</strong>
+              </div>
+            )}
+            <div className="statement-summary-item">
+              <span>{t('statement.closingBalance')}</span>
+              <strong>{formatCurrency(statement.closingBalance)}</strong>
+            </div>
+          </section>
+
+          <section className="statement-section">
+            <h3>{t('statement.categoryBreakdown')}</h3>
+            {statement.categories.length > 0 ? (
+              <table className="statement-table">
+                <thead>
+                  <tr>
+                    <th>{t('transactions.category')}</th>
+                    <th>{t('transactions.type')}</th>
+                    <th className="numeric">{t('statement.count')}</th>
+                    <th className="numeric">{t('transactions.amount')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {statement.categories.map(total => (
+                    <tr key={`${total.type}-${total.category}`}>
+                      <td>{translateCategoryName(total.category)}</td>
+                      <td>{total.type === 'CREDIT' ? t('transactions.income') : t('transactions.expense')}</td>
+                      <td className="numeric">{total.count}</td>
+                      <td className={`numeric ${total.type === 'CREDIT' ? 'positive' : 'negative'}`}>
+                        {formatCurrency(total.type === 'CREDIT' ? total.amount : -total.amount)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="statement-empty">{t('transactions.noTransactions')}</p>
+            )}
+          </section>
+
+          <section className="statement-section">
+            <h3>{t('transactions.title')}</h3>
+            <table className="statement-table">
+              <thead>
+                <tr>
+                  <th>{t('transactions.date')}</th>
+                  <th>{t('transactions.description')}</th>
+                  <th>{t('transactions.category')}</th>
+                  <th className="numeric">{t('transactions.amount')}</th>
+                  <th className="numeric">{t('wallets.balance')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr className="statement-balance-row">
+                  <td>{formatDate(statement.fromDate)}</td>
+                  <td colSpan={3}>{t('wallets.openingBalance')}</td>
+                  <td className="numeric">{formatCurrency(statement.openingBalance)}</td>
+                </tr>
+                {statement.lines.map(({ transaction, amount, balance }) => (
+                  <tr key={transaction.id}>
+                    <td>{formatDate(transaction.date)}</td>
+                    <td>{transaction.description}</td>
+                    <td>
+                      {transaction.transferId
+                        ? transaction.type === 'DEBIT'
+                          ? t('transfers.toWalletName', { wallet: getCounterpartWalletName(transaction) })
+                          : t('transfers.fromWalletName', { wallet: getCounterpartWalletName(transaction) })
+                        : transaction.subcategory
+                          ? `${translateCategoryName(transaction.category)} • ${translateSubcategoryName(transaction.subcategory)}`
+                          : translateCategoryName(transaction.category)}
+                    </td>
+                    <td className={`numeric ${amount >= 0 ? 'positive' : 'negative'}`}>{formatCurrency(amount)}</td>
+                    <td className="numeric">{formatCurrency(balance)}</td>
+                  </tr>
+                ))}
+                <tr className="statement-balance-row">
+                  <td>{formatDate(statement.toDate)}</td>
+                  <td colSpan={3}>{t('statement.closingBalance')}</td>
+                  <td className="numeric">{formatCurrency(statement.closingBalance)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </section>
+        </article>
+      )}
+
+      {toast && (
+        <Toast message={toast.message} type={toast.type} onClose={hideToast} />
+      )}
+    </div>
+  );
+};
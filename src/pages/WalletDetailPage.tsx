@@ -1,11 +1,55 @@
-import React, { useState, useEffect, useCallback, useRef, type FormEvent } from 'react';
-import { useParams, Link, useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useCallback, useMemo, useRef, type FormEvent } from 'react';
+import { useParams, Link, useNavigate, useSearchParams, useLocation } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { getJson, postJson, deleteJson, postFormData, ApiError } from '../lib/api';
+import { useAuth } from '../context/AuthContext';
+import {
+  postJson,
+  putJson,
+  deleteJson,
+  updateWallet,
+  deleteWallet,
+  setTransactionStatus,
+  createReconciliation,
+  importTransactions,
+  ApiError,
+} from '../lib/api';
+import {
+  getCategories,
+  getWallet,
+  getWallets,
+  getWalletTransactions,
+  getWalletTransactionsPage,
+  getWalletTransactionSummary,
+  invalidateCategories,
+  invalidateWalletData,
+} from '../lib/queries';
+import { discardPendingTransaction, getPendingTransactions, isOfflineError, onOutboxChange, queueTransaction, type OutboxEntry } from '../lib/outbox';
+import { getWalletTypeIcon, toUpdateWalletDto } from '../lib/wallets';
+import { getStatementCycle, type StatementCycle } from '../lib/creditCard';
+import { toImportTransaction, type ImportRow } from '../lib/importRows';
+import { IMPORT_FILE_ACCEPT, getImportFormat, type ImportFormat } from '../lib/statementImport';
+import { downloadExport, getExportFileName, toExportRows, type ExportFormat, type ExportOptions } from '../lib/export';
+import { addSavedView } from '../lib/savedViews';
+import { flushUndoables, scheduleUndoable } from '../lib/undo';
+import { buildSplits, toSplitLines, type SplitLineInput } from '../lib/splits';
+import { applyBulkAction, deleteTransactions, isBulkEditable, type BulkAction, type BulkResult } from '../lib/bulkTransactions';
 import { Toast, useToast } from '../components/Toast';
 import { Dropdown, type DropdownOption } from '../components/Dropdown';
 import { TransactionConfirmationModal } from '../components/TransactionConfirmationModal';
-import type { TransactionDto, CreateTransactionDto, TransactionType, WalletDto, CategoryDto, SubcategoryDto, ImportResultDto, TransactionDraftDto, SpeechRecognitionType, SpeechRecognitionEventType } from '../types/dtos';
+import { TransferModal } from '../components/TransferModal';
+import { WalletFormModal } from '../components/WalletFormModal';
+import { CardPaymentModal } from '../components/CardPaymentModal';
+import { ReconciliationPanel } from '../components/ReconciliationPanel';
+import { ImportPreviewModal } from '../components/ImportPreviewModal';
+import { ExportModal } from '../components/ExportModal';
+import { SaveViewModal } from '../components/SaveViewModal';
+import { SplitLinesEditor } from '../components/SplitLinesEditor';
+import { BulkEditModal, type BulkEditKind } from '../components/BulkEditModal';
+import type { CreateWalletDto, TransactionDto, TransactionSummaryDto, CreateTransferDto, TransferDto, CreateTransactionDto, UpdateTransactionDto, TransactionType, WalletDto, CategoryDto, SubcategoryDto, ImportResultDto, TransactionDraftDto, SpeechRecognitionType, SpeechRecognitionEventType } from '../types/dtos';
+import { addDays, format, parseISO } from 'date-fns';
+
+// Number of transactions loaded per page
+const TRANSACTIONS_PAGE_SIZE = 50;
 
 // Mapeamento de nomes de categorias padrão para chaves de tradução
 const categoryNameToKey: Record<string, string> = {
@@ -81,6 +125,15 @@ const subcategoryNameToKey: Record<string, string> = {
   'Reimbursements': 'reimbursements',
 };
 
+// Statement figures of a credit-card wallet (amounts owed are positive)
+interface CardStatement {
+  cycle: StatementCycle;
+  statementBalance: number; // Owed when the last statement closed
+  remainingDue: number; // Statement balance minus payments made since it closed
+  currentDebt: number; // Owed right now, including purchases on the open statement
+  availableCredit: number;
+}
+
 /**
  * Wallet Detail Page Component
  * Shows transactions for a specific wallet with filtering and creation
@@ -89,6 +142,8 @@ export const WalletDetailPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const { t } = useTranslation();
   const navigate = useNavigate();
+  const location = useLocation();
+  const { currentUser } = useAuth();
 
   /**
    * Traduz o nome da categoria se for uma categoria padrão (sem userId)
@@ -142,8 +197,24 @@ export const WalletDetailPage: React.FC = () => {
 
   // State
   const [wallet, setWallet] = useState<WalletDto | null>(null);
-  const [transactions, setTransactions] = useState<TransactionDto[]>([]);
+  const [loadedTransactions, setTransactions] = useState<TransactionDto[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [loadedSummary, setSummary] = useState<TransactionSummaryDto | null>(null);
+  // Transactions deleted but still in their undo window
+  const [pendingDeletes, setPendingDeletes] = useState<TransactionDto[]>([]);
+  const [cardStatement, setCardStatement] = useState<CardStatement | null>(null);
+  const [showCardPaymentModal, setShowCardPaymentModal] = useState(false);
+  const [isPayingCard, setIsPayingCard] = useState(false);
+
+  // Reconciliation mode state
+  const [isReconciling, setIsReconciling] = useState(false);
+  const [reconcileDate, setReconcileDate] = useState(new Date().toISOString().split('T')[0]);
+  const [reconcileEndingBalance, setReconcileEndingBalance] = useState('');
+  const [reconcileTransactions, setReconcileTransactions] = useState<TransactionDto[]>([]);
+  const [isLoadingReconcile, setIsLoadingReconcile] = useState(false);
+  const [isFinishingReconcile, setIsFinishingReconcile] = useState(false);
+  const [clearingIds, setClearingIds] = useState<number[]>([]);
+  const [pendingTransactions, setPendingTransactions] = useState<OutboxEntry[]>([]);
   const [showModal, setShowModal] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -151,11 +222,27 @@ export const WalletDetailPage: React.FC = () => {
   const [categories, setCategories] = useState<CategoryDto[]>([]);
   const [isLoadingCategories, setIsLoadingCategories] = useState(false);
 
-  // Filter state
-  const [filterType, setFilterType] = useState<TransactionType | ''>('');
-  const [filterFromDate, setFilterFromDate] = useState('');
-  const [filterToDate, setFilterToDate] = useState('');
-  const [showFilters, setShowFilters] = useState(false);
+  // Filter state, kept in the URL (?type=&fromDate=&toDate=) so it can be saved as a view
+  const [searchParams, setSearchParams] = useSearchParams();
+  const typeParam = searchParams.get('type');
+  const filterType: TransactionType | '' = typeParam === 'DEBIT' || typeParam === 'CREDIT' ? typeParam : '';
+  const filterFromDate = searchParams.get('fromDate') ?? '';
+  const filterToDate = searchParams.get('toDate') ?? '';
+  const [showFilters, setShowFilters] = useState(() => searchParams.toString() !== '');
+  const [showSaveViewModal, setShowSaveViewModal] = useState(false);
+
+  // Pagination state
+  const [currentPage, setCurrentPage] = useState(0);
+  const [hasMoreTransactions, setHasMoreTransactions] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // Bulk selection state, tied to the wallet and filters it was made with
+  const [selection, setSelection] = useState<{ key: string; transactions: Map<number, TransactionDto> }>({ key: '', transactions: new Map() });
+  const lastSelectedIndexRef = useRef<number | null>(null);
+  const [bulkEditKind, setBulkEditKind] = useState<BulkEditKind | null>(null);
+  const [isApplyingBulk, setIsApplyingBulk] = useState(false);
+  const [isSelectingAll, setIsSelectingAll] = useState(false);
 
   // New transaction form state
   const [newType, setNewType] = useState<TransactionType>('DEBIT');
@@ -164,6 +251,10 @@ export const WalletDetailPage: React.FC = () => {
   const [newAmount, setNewAmount] = useState('');
   const [newDescription, setNewDescription] = useState('');
   const [newDate, setNewDate] = useState(new Date().toISOString().split('T')[0]);
+  const [newSplitLines, setNewSplitLines] = useState<SplitLineInput[] | null>(null); // Set when the transaction is split
+
+  // Transaction being edited (null when the form creates a new transaction)
+  const [editingTransaction, setEditingTransaction] = useState<TransactionDto | null>(null);
 
   // Create category modal state
   const [showCategoryModal, setShowCategoryModal] = useState(false);
@@ -187,12 +278,28 @@ export const WalletDetailPage: React.FC = () => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isImporting, setIsImporting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importPreview, setImportPreview] = useState<{ fileName: string; format: ImportFormat; text: string } | null>(null);
+  const [importExistingTransactions, setImportExistingTransactions] = useState<TransactionDto[]>([]);
+  const [importResult, setImportResult] = useState<ImportResultDto | null>(null);
+
+  // Export state
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
 
   // Transaction draft confirmation state (two-step flow)
   const [transactionDraft, setTransactionDraft] = useState<TransactionDraftDto | null>(null);
   const [showConfirmationModal, setShowConfirmationModal] = useState(false);
   const [isConfirmingTransaction, setIsConfirmingTransaction] = useState(false);
 
+  // Transfer state (other wallets are the possible destinations and counterparts)
+  const [wallets, setWallets] = useState<WalletDto[]>([]);
+  const [showTransferModal, setShowTransferModal] = useState(false);
+  const [isTransferring, setIsTransferring] = useState(false);
+
+  // Wallet edit state (transaction count decides whether the currency can change)
+  const [editWalletTransactionCount, setEditWalletTransactionCount] = useState<number | null>(null);
+  const [isSavingWallet, setIsSavingWallet] = useState(false);
+
   // Hooks
   const [toast, showToast, hideToast] = useToast();
 
@@ -207,13 +314,21 @@ export const WalletDetailPage: React.FC = () => {
   const selectedCategory = categories.find(cat => cat.id === newCategoryId);
   const availableSubcategories = selectedCategory?.subcategories || [];
 
+  /**
+   * Transaction being edited whose category is not in the list (renamed, hidden or not loaded yet)
+   * Until another category is picked, it keeps the one it has
+   */
+  const keptCategoryTransaction = editingTransaction && editingTransaction.type === newType && !newCategoryId
+    ? editingTransaction
+    : null;
+
   /**
    * Fetch categories from API
    */
   const fetchCategories = useCallback(async () => {
     setIsLoadingCategories(true);
     try {
-      const data = await getJson<CategoryDto[]>('/api/categories');
+      const data = await getCategories();
       setCategories(data);
     } catch (error) {
       if (error instanceof ApiError) {
@@ -230,8 +345,10 @@ export const WalletDetailPage: React.FC = () => {
    * Fetch wallet details
    */
   const fetchWallet = useCallback(async () => {
+    if (!id) return;
+
     try {
-      const data = await getJson<WalletDto>(`/api/wallets/${id}`);
+      const data = await getWallet(id);
       setWallet(data);
     } catch (error) {
       if (error instanceof ApiError) {
@@ -248,19 +365,73 @@ export const WalletDetailPage: React.FC = () => {
   }, [id, showToast, navigate]);
 
   /**
-   * Fetch transactions from API
+   * Fetch all wallets (transfer destinations)
+   */
+  const fetchWallets = useCallback(async () => {
+    try {
+      setWallets(await getWallets());
+    } catch {
+      // Only needed for transfers - the wallet names fall back to a generic label
+    }
+  }, []);
+
+  // Active filters as query params, shared by the page and summary requests
+  const transactionFilters = useMemo(() => {
+    const params = new URLSearchParams();
+    if (filterType) params.append('type', filterType);
+    if (filterFromDate) params.append('fromDate', filterFromDate);
+    if (filterToDate) params.append('toDate', filterToDate);
+    return params;
+  }, [filterType, filterFromDate, filterToDate]);
+
+  /**
+   * Whether a transaction is covered by the active filters (and so by the summary)
+   */
+  const matchesFilters = useCallback((transaction: TransactionDto): boolean => {
+    const date = transaction.date.split('T')[0];
+    return (!filterType || transaction.type === filterType)
+      && (!filterFromDate || date >= filterFromDate)
+      && (!filterToDate || date <= filterToDate);
+  }, [filterType, filterFromDate, filterToDate]);
+
+  // Pending deletes are left out of every list and total, including ones loaded after the delete
+  const pendingDeleteIds = useMemo(() => new Set(pendingDeletes.map(tx => tx.id)), [pendingDeletes]);
+  const transactions = useMemo(
+    () => loadedTransactions.filter(tx => !pendingDeleteIds.has(tx.id)),
+    [loadedTransactions, pendingDeleteIds]
+  );
+  const summary = useMemo((): TransactionSummaryDto | null => {
+    if (!loadedSummary) return null;
+    return pendingDeletes.filter(matchesFilters).reduce((totals, tx) => {
+      const amount = Number(tx.amount) || 0;
+      return tx.type === 'CREDIT'
+        ? { ...totals, count: totals.count - 1, totalIncome: totals.totalIncome - amount, balance: totals.balance - amount }
+        : { ...totals, count: totals.count - 1, totalExpenses: totals.totalExpenses - amount, balance: totals.balance + amount };
+    }, loadedSummary);
+  }, [loadedSummary, pendingDeletes, matchesFilters]);
+
+  // Changing wallet or filters starts a new selection
+  const selectionKey = `${id}?${transactionFilters.toString()}`;
+  const selectedTransactions = useMemo(
+    () => selection.key === selectionKey ? selection.transactions : new Map<number, TransactionDto>(),
+    [selection, selectionKey]
+  );
+
+  /**
+   * Fetch the first page of transactions and the totals from API
    */
   const fetchTransactions = useCallback(async () => {
+    if (!id) return;
+
     try {
-      const params = new URLSearchParams();
-      if (filterType) params.append('type', filterType);
-      if (filterFromDate) params.append('fromDate', filterFromDate);
-      if (filterToDate) params.append('toDate', filterToDate);
-      const queryString = params.toString();
-      const path = `/api/wallets/${id}/transactions${queryString ? `?${queryString}` : ''}`;
-      
-      const data = await getJson<TransactionDto[]>(path);
-      setTransactions(data);
+      const [firstPage, summaryData] = await Promise.all([
+        getWalletTransactionsPage(id, 0, TRANSACTIONS_PAGE_SIZE, transactionFilters),
+        getWalletTransactionSummary(id, transactionFilters),
+      ]);
+      setTransactions(firstPage.content);
+      setCurrentPage(firstPage.page);
+      setHasMoreTransactions(firstPage.page + 1 < firstPage.totalPages);
+      setSummary(summaryData);
     } catch (error) {
       if (error instanceof ApiError) {
         // Redirect to dashboard if user doesn't have access (403) or wallet doesn't exist (404)
@@ -275,7 +446,146 @@ export const WalletDetailPage: React.FC = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [id, filterType, filterFromDate, filterToDate, showToast, navigate]);
+  }, [id, transactionFilters, showToast, navigate]);
+
+  /**
+   * Load the next page of transactions and append it to the list
+   */
+  const loadMoreTransactions = useCallback(async () => {
+    if (!id || isLoadingMore || !hasMoreTransactions) return;
+
+    setIsLoadingMore(true);
+    try {
+      const nextPage = await getWalletTransactionsPage(id, currentPage + 1, TRANSACTIONS_PAGE_SIZE, transactionFilters);
+      // Pages shift when transactions are added meanwhile - skip the ones already listed
+      setTransactions(prev => {
+        const loadedIds = new Set(prev.map(t => t.id));
+        return [...prev, ...nextPage.content.filter(t => !loadedIds.has(t.id))];
+      });
+      setCurrentPage(nextPage.page);
+      setHasMoreTransactions(nextPage.page + 1 < nextPage.totalPages);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('transactions.loadMoreError'), 'error');
+      }
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [id, isLoadingMore, hasMoreTransactions, currentPage, transactionFilters, showToast, t]);
+
+  /**
+   * Refresh the totals after the transactions changed
+   */
+  const fetchSummary = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setSummary(await getWalletTransactionSummary(id, transactionFilters));
+    } catch {
+      // Keep the previous totals - they are refreshed with the next load
+    }
+  }, [id, transactionFilters]);
+
+  /**
+   * Fetch the statement figures of a credit-card wallet
+   * Uses the (cached) server totals up to the last closing date and since then
+   */
+  const fetchCardStatement = useCallback(async () => {
+    if (!wallet || wallet.type !== 'CREDIT_CARD' || !wallet.statementClosingDay || !wallet.paymentDueDay) {
+      setCardStatement(null);
+      return;
+    }
+
+    const cycle = getStatementCycle(wallet.statementClosingDay, wallet.paymentDueDay);
+    const openingBalance = Number(wallet.openingBalance) || 0;
+
+    try {
+      const [allTotals, closedTotals, paymentTotals] = await Promise.all([
+        getWalletTransactionSummary(wallet.id),
+        getWalletTransactionSummary(wallet.id, new URLSearchParams({ toDate: cycle.lastClosingDate })),
+        getWalletTransactionSummary(wallet.id, new URLSearchParams({
+          type: 'CREDIT',
+          fromDate: format(addDays(parseISO(cycle.lastClosingDate), 1), 'yyyy-MM-dd'),
+        })),
+      ]);
+
+      // A card balance is negative while money is owed
+      const statementBalance = Math.max(0, -(openingBalance + closedTotals.balance));
+      const currentDebt = Math.max(0, -(openingBalance + allTotals.balance));
+      setCardStatement({
+        cycle,
+        statementBalance,
+        remainingDue: Math.max(0, statementBalance - paymentTotals.totalIncome),
+        currentDebt,
+        availableCredit: (Number(wallet.creditLimit) || 0) - currentDebt,
+      });
+    } catch {
+      // Not essential - the panel is hidden until the totals load
+      setCardStatement(null);
+    }
+  }, [wallet]);
+
+  // Refresh the statement whenever the wallet's totals change
+  useEffect(() => {
+    fetchCardStatement();
+  }, [fetchCardStatement, loadedSummary]);
+
+  /**
+   * Fetch every transaction up to the statement date for reconciliation
+   */
+  const fetchReconcileTransactions = useCallback(async () => {
+    if (!id) return;
+
+    setIsLoadingReconcile(true);
+    try {
+      const params = new URLSearchParams({ toDate: reconcileDate });
+      setReconcileTransactions(await getWalletTransactions(id, params));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('reconcile.loadError'), 'error');
+      }
+    } finally {
+      setIsLoadingReconcile(false);
+    }
+  }, [id, reconcileDate, showToast, t]);
+
+  useEffect(() => {
+    if (isReconciling) {
+      fetchReconcileTransactions();
+    }
+  }, [isReconciling, fetchReconcileTransactions]);
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMoreTransactions) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) {
+        loadMoreTransactions();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMoreTransactions, loadMoreTransactions]);
+
+  /**
+   * Load the transactions queued offline for this wallet
+   */
+  const fetchPendingTransactions = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setPendingTransactions(await getPendingTransactions(Number(id)));
+    } catch {
+      // IndexedDB unavailable (e.g., private browsing) - nothing can be queued either
+      setPendingTransactions([]);
+    }
+  }, [id]);
 
   // Load data on mount and when filters change
   useEffect(() => {
@@ -283,28 +593,103 @@ export const WalletDetailPage: React.FC = () => {
       fetchWallet();
       fetchTransactions();
       fetchCategories();
+      fetchPendingTransactions();
+      fetchWallets();
     }
-  }, [id, fetchWallet, fetchTransactions, fetchCategories]);
+  }, [id, fetchWallet, fetchTransactions, fetchCategories, fetchPendingTransactions, fetchWallets]);
 
-  // Auto-select first category when transaction type changes
+  // Send deletes still waiting for their undo window when leaving the page
   useEffect(() => {
-    const categoriesForType = categories.filter(cat => cat.type === newType);
-    if (categoriesForType.length > 0) {
-      setNewCategoryId(categoriesForType[0].id);
-    } else {
-      setNewCategoryId('');
-    }
-  }, [newType, categories]);
+    return () => {
+      flushUndoables();
+    };
+  }, []);
 
-  // Auto-select first subcategory when category changes
+  // Reloads the list for deletes that go through later, with the filters active by then
+  // (cleared when leaving the page - the next visit loads fresh data anyway)
+  const reloadTransactionsRef = useRef<(() => Promise<void>) | null>(null);
   useEffect(() => {
-    const category = categories.find(cat => cat.id === newCategoryId);
-    if (category?.subcategories && category.subcategories.length > 0) {
+    reloadTransactionsRef.current = fetchTransactions;
+    return () => {
+      reloadTransactionsRef.current = null;
+    };
+  }, [fetchTransactions]);
+
+  // Refresh the pending list (and the synced transactions) when the outbox changes
+  useEffect(() => {
+    return onOutboxChange(() => {
+      fetchPendingTransactions();
+      fetchTransactions();
+    });
+  }, [fetchPendingTransactions, fetchTransactions]);
+
+  /**
+   * Queue a transaction in the offline outbox
+   * @returns true if the transaction was queued
+   */
+  const queueOfflineTransaction = async (transactionData: CreateTransactionDto): Promise<boolean> => {
+    try {
+      await queueTransaction(Number(id), transactionData);
+      showToast(t('outbox.queued'), 'info');
+      return true;
+    } catch {
+      showToast(t('outbox.queueError'), 'error');
+      return false;
+    }
+  };
+
+  /**
+   * Discard a transaction queued offline
+   */
+  const handleDiscardPending = async (entryId: number) => {
+    if (!confirm(t('outbox.discardConfirm'))) {
+      return;
+    }
+
+    try {
+      await discardPendingTransaction(entryId);
+    } catch {
+      showToast(t('outbox.queueError'), 'error');
+    }
+  };
+
+  /**
+   * Select a category in the transaction form along with a subcategory (its first one by default)
+   */
+  const selectCategory = useCallback((categoryId: number | '', subcategoryId?: number | '') => {
+    setNewCategoryId(categoryId);
+    const category = categories.find(cat => cat.id === categoryId);
+    if (subcategoryId !== undefined) {
+      setNewSubcategoryId(subcategoryId);
+    } else if (category?.subcategories && category.subcategories.length > 0) {
       setNewSubcategoryId(category.subcategories[0].id);
     } else {
       setNewSubcategoryId('');
     }
-  }, [newCategoryId, categories]);
+  }, [categories]);
+
+  // Auto-select first category when the selected one doesn't match the transaction type
+  // A transaction being edited goes back to its own category instead, or keeps it unselected
+  // when it is not in the list, so saving doesn't quietly change it
+  useEffect(() => {
+    const categoriesForType = categories.filter(cat => cat.type === newType);
+    if (categoriesForType.some(cat => cat.id === newCategoryId)) {
+      return;
+    }
+
+    if (editingTransaction?.type === newType) {
+      const category = categoriesForType.find(
+        cat => cat.name.toLowerCase() === editingTransaction.category.toLowerCase()
+      );
+      const subcategory = category?.subcategories?.find(
+        sub => sub.name.toLowerCase() === editingTransaction.subcategory?.toLowerCase()
+      );
+      selectCategory(category?.id ?? '', subcategory?.id ?? '');
+      return;
+    }
+
+    selectCategory(categoriesForType.length > 0 ? categoriesForType[0].id : '');
+  }, [newType, newCategoryId, categories, selectCategory, editingTransaction]);
 
   // Check if Web Speech API is supported
   useEffect(() => {
@@ -313,22 +698,119 @@ export const WalletDetailPage: React.FC = () => {
   }, []);
 
   /**
-   * Handle create transaction form submission
+   * Reset the transaction form to its defaults (new debit for today)
    */
-  const handleCreateTransaction = async (e: FormEvent) => {
-    e.preventDefault();
+  const resetTransactionForm = () => {
+    setEditingTransaction(null);
+    setNewType('DEBIT');
+    setNewCategoryId('');
+    setNewSubcategoryId('');
+    setNewAmount('');
+    setNewDescription('');
+    setNewDate(new Date().toISOString().split('T')[0]);
+    setNewSplitLines(null);
+  };
+
+  /**
+   * Open the transaction modal pre-filled with an existing transaction
+   */
+  const openEditModal = (transaction: TransactionDto) => {
+    const category = categories.find(
+      cat => cat.type === transaction.type && cat.name.toLowerCase() === transaction.category.toLowerCase()
+    );
+    const subcategory = category?.subcategories?.find(
+      sub => sub.name.toLowerCase() === transaction.subcategory?.toLowerCase()
+    );
+
+    setEditingTransaction(transaction);
+    setNewType(transaction.type);
+    setNewCategoryId(category?.id ?? '');
+    setNewSubcategoryId(subcategory?.id ?? '');
+    setNewAmount(String(transaction.amount));
+    setNewDescription(transaction.description || '');
+    setNewDate(transaction.date);
+    setNewSplitLines(transaction.splits?.length
+      ? toSplitLines(transaction.splits, categories.filter(cat => cat.type === transaction.type))
+      : null);
+    setShowModal(true);
+  };
+
+  /**
+   * Split the transaction in the form across categories, or turn it back into one category
+   * Splitting starts from the selected category with the whole amount and an empty line
+   */
+  const toggleSplit = () => {
+    if (newSplitLines) {
+      const [firstLine] = newSplitLines;
+      setNewCategoryId(firstLine?.categoryId ?? '');
+      setNewSubcategoryId(firstLine?.subcategoryId ?? '');
+      setNewSplitLines(null);
+    } else {
+      setNewSplitLines([
+        { categoryId: newCategoryId, subcategoryId: newSubcategoryId, amount: newAmount },
+        { categoryId: '', subcategoryId: '', amount: '' },
+      ]);
+    }
+  };
 
-    if (!newCategoryId) {
+  /**
+   * Close the transaction modal
+   * Edits are discarded so the next "new transaction" starts from a clean form
+   */
+  const closeTransactionModal = () => {
+    setShowModal(false);
+    if (editingTransaction) {
+      resetTransactionForm();
+    }
+  };
+
+  /**
+   * Validate the transaction form and build the request body
+   * Returns null (after showing an error) if the form is invalid
+   */
+  const buildTransactionData = (): CreateTransactionDto | null => {
+    if (!newSplitLines && !newCategoryId && !keptCategoryTransaction) {
       showToast('Category is required', 'error');
-      return;
+      return null;
     }
     if (!newAmount || parseFloat(newAmount) <= 0) {
       showToast('Please enter a valid amount', 'error');
-      return;
+      return null;
     }
     if (!newDate) {
       showToast('Date is required', 'error');
-      return;
+      return null;
+    }
+
+    if (newSplitLines) {
+      const result = buildSplits(newSplitLines, parseFloat(newAmount), filteredCategories);
+      if ('error' in result) {
+        showToast(t(result.error), 'error');
+        return null;
+      }
+
+      // The transaction's own category is the first line's
+      const [firstLine] = result.splits;
+      return {
+        type: newType,
+        category: firstLine.category,
+        subcategory: firstLine.subcategory,
+        amount: parseFloat(newAmount),
+        splits: result.splits,
+        description: newDescription.trim() || undefined,
+        date: newDate,
+      };
+    }
+
+    if (keptCategoryTransaction) {
+      return {
+        type: newType,
+        category: keptCategoryTransaction.category,
+        subcategory: keptCategoryTransaction.subcategory,
+        amount: parseFloat(newAmount),
+        description: newDescription.trim() || undefined,
+        date: newDate,
+      };
     }
 
     const category = categories.find(c => c.id === newCategoryId);
@@ -336,70 +818,556 @@ export const WalletDetailPage: React.FC = () => {
 
     if (!category) {
       showToast('Invalid category selected', 'error');
+      return null;
+    }
+
+    return {
+      type: newType,
+      category: category.name,
+      subcategory: subcategory?.name || undefined,
+      amount: parseFloat(newAmount),
+      description: newDescription.trim() || undefined,
+      date: newDate,
+    };
+  };
+
+  /**
+   * Handle create transaction form submission
+   */
+  const handleCreateTransaction = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const transactionData = buildTransactionData();
+    if (!transactionData) {
       return;
     }
 
     setIsSubmitting(true);
 
     try {
-      const transactionData: CreateTransactionDto = {
-        type: newType,
-        category: category.name,
-        subcategory: subcategory?.name || undefined,
-        amount: parseFloat(newAmount),
-        description: newDescription.trim() || undefined,
-        date: newDate,
-      };
-
       const newTransaction = await postJson<TransactionDto>(
         `/api/wallets/${id}/transactions`,
         transactionData
       );
+      invalidateWalletData(id);
+      fetchSummary();
+
+      setTransactions(prev => [newTransaction, ...prev]);
+      
+      setShowModal(false);
+      resetTransactionForm();
+      
+      showToast('Transaction created successfully!', 'success');
+    } catch (error) {
+      if (isOfflineError(error)) {
+        // No connection - keep the transaction in the outbox until we are back online
+        if (await queueOfflineTransaction(transactionData)) {
+          setShowModal(false);
+          resetTransactionForm();
+        }
+      } else if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast('Failed to create transaction', 'error');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Handle edit transaction form submission
+   */
+  const handleUpdateTransaction = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!editingTransaction) {
+      return;
+    }
+
+    const transactionData: UpdateTransactionDto | null = buildTransactionData();
+    if (!transactionData) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const updatedTransaction = await putJson<TransactionDto>(
+        `/api/transactions/${editingTransaction.id}`,
+        transactionData
+      );
+      invalidateWalletData(id);
+      fetchSummary();
+
+      // Replace the transaction in place to keep the list order
+      setTransactions(prev => prev.map(t => (t.id === updatedTransaction.id ? updatedTransaction : t)));
+
+      setShowModal(false);
+      resetTransactionForm();
+
+      showToast(t('transactions.updateSuccess'), 'success');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('transactions.updateError'), 'error');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Handle transfer form submission
+   * Creates the linked debit (this wallet) and credit (destination wallet)
+   */
+  const handleCreateTransfer = async (transferData: CreateTransferDto) => {
+    setIsTransferring(true);
+
+    try {
+      const transfer = await postJson<TransferDto>('/api/transfers', transferData);
+      invalidateWalletData(transferData.fromWalletId);
+      invalidateWalletData(transferData.toWalletId);
+      fetchSummary();
+
+      setTransactions(prev => [transfer.fromTransaction, ...prev]);
+      setShowTransferModal(false);
+
+      showToast(t('transfers.createSuccess'), 'success');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('transfers.createError'), 'error');
+      }
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  /**
+   * Pay the credit card statement from another wallet
+   * The payment is a transfer into the card
+   */
+  const handleCardPayment = async (paymentData: CreateTransferDto) => {
+    setIsPayingCard(true);
+
+    try {
+      const transfer = await postJson<TransferDto>('/api/transfers', paymentData);
+      invalidateWalletData(paymentData.fromWalletId);
+      invalidateWalletData(paymentData.toWalletId);
+      fetchSummary();
+
+      setTransactions(prev => [transfer.toTransaction, ...prev]);
+      setShowCardPaymentModal(false);
+
+      showToast(t('creditCard.paymentSuccess'), 'success');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('creditCard.paymentError'), 'error');
+      }
+    } finally {
+      setIsPayingCard(false);
+    }
+  };
+
+  /**
+   * Tick a transaction off as cleared (or untick it)
+   */
+  const handleToggleCleared = async (transaction: TransactionDto) => {
+    setClearingIds(ids => [...ids, transaction.id]);
+
+    try {
+      const updated = await setTransactionStatus(
+        transaction.id,
+        transaction.status === 'CLEARED' ? 'UNCLEARED' : 'CLEARED'
+      );
+      invalidateWalletData(id);
+
+      setReconcileTransactions(list => list.map(tx => (tx.id === updated.id ? updated : tx)));
+      setTransactions(list => list.map(tx => (tx.id === updated.id ? updated : tx)));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('reconcile.clearError'), 'error');
+      }
+    } finally {
+      setClearingIds(ids => ids.filter(clearingId => clearingId !== transaction.id));
+    }
+  };
+
+  /**
+   * Finish the reconciliation - the cleared transactions become reconciled and locked
+   */
+  const handleFinishReconcile = async () => {
+    if (!wallet) return;
+
+    const clearedIds = reconcileTransactions.filter(tx => tx.status === 'CLEARED').map(tx => tx.id);
+    setIsFinishingReconcile(true);
+
+    try {
+      await createReconciliation(wallet.id, {
+        statementDate: reconcileDate,
+        endingBalance: parseFloat(reconcileEndingBalance) || 0,
+        transactionIds: clearedIds,
+      });
+      invalidateWalletData(wallet.id);
+
+      const markReconciled = (tx: TransactionDto): TransactionDto =>
+        clearedIds.includes(tx.id) ? { ...tx, status: 'RECONCILED' } : tx;
+      setTransactions(list => list.map(markReconciled));
+      setReconcileTransactions([]);
+      setReconcileEndingBalance('');
+      setIsReconciling(false);
+
+      showToast(t('reconcile.finishSuccess', { count: clearedIds.length }), 'success');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('reconcile.finishError'), 'error');
+      }
+    } finally {
+      setIsFinishingReconcile(false);
+    }
+  };
+
+  /**
+   * Stop hiding transactions whose delete was undone or failed
+   */
+  const endPendingDeletes = (ended: TransactionDto[]) => {
+    const endedIds = new Set(ended.map(tx => tx.id));
+    setPendingDeletes(prev => prev.filter(tx => !endedIds.has(tx.id)));
+  };
+
+  /**
+   * Reload the list and totals once deletes went through, then stop hiding the deleted transactions
+   */
+  const finishPendingDeletes = async (deleted: TransactionDto[]) => {
+    await reloadTransactionsRef.current?.();
+    const deletedIds = new Set(deleted.map(tx => tx.id));
+    setTransactions(prev => prev.filter(tx => !deletedIds.has(tx.id)));
+    endPendingDeletes(deleted);
+  };
+
+  /**
+   * Handle delete transfer
+   * Both sides of a transfer are deleted together, once the undo window has passed
+   */
+  const handleDeleteTransfer = (transaction: TransactionDto) => {
+    const { transferId } = transaction;
+    if (!transferId) return;
+
+    const cancelDelete = scheduleUndoable({
+      commit: async () => {
+        await deleteJson(`/api/transfers/${transferId}`, true, { keepalive: true });
+        invalidateWalletData(id);
+        if (transaction.counterpartWalletId) {
+          invalidateWalletData(transaction.counterpartWalletId);
+        }
+        await finishPendingDeletes([transaction]);
+      },
+      onCommitError: (error) => {
+        endPendingDeletes([transaction]);
+        if (error instanceof ApiError) {
+          showToast(error.message, 'error');
+        } else {
+          showToast(t('transfers.deleteError'), 'error');
+        }
+      },
+    });
+
+    setPendingDeletes(prev => [...prev, transaction]);
+    showToast(t('transfers.deleted'), 'success', {
+      label: t('common.undo'),
+      onClick: () => {
+        if (cancelDelete()) {
+          endPendingDeletes([transaction]);
+        }
+      },
+    });
+  };
+
+  /**
+   * Number of transactions in the wallet, ignoring the active filters
+   */
+  const getTotalTransactionCount = async (): Promise<number> => {
+    if (!id) return 0;
+    const totals = await getWalletTransactionSummary(id);
+    return totals.count;
+  };
+
+  /**
+   * Open the edit wallet modal
+   */
+  const openEditWalletModal = async () => {
+    try {
+      setEditWalletTransactionCount(await getTotalTransactionCount());
+    } catch {
+      // Without a count, keep the currency locked
+      setEditWalletTransactionCount(Infinity);
+    }
+  };
+
+  /**
+   * Save the wallet's name and currency
+   */
+  const handleUpdateWallet = async (walletData: CreateWalletDto) => {
+    if (!wallet) return;
+
+    if (!walletData.name) {
+      showToast(t('wallets.nameRequired'), 'error');
+      return;
+    }
+
+    setIsSavingWallet(true);
+
+    try {
+      const updated = await updateWallet(wallet.id, toUpdateWalletDto(wallet, walletData));
+      invalidateWalletData(wallet.id);
+      setWallet(updated);
+      setEditWalletTransactionCount(null);
+      showToast(t('wallets.updateSuccess'), 'success');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('wallets.updateError'), 'error');
+      }
+    } finally {
+      setIsSavingWallet(false);
+    }
+  };
+
+  /**
+   * Archive the wallet (or restore it when already archived)
+   */
+  const handleToggleArchiveWallet = async () => {
+    if (!wallet) return;
+
+    try {
+      const updated = await updateWallet(wallet.id, toUpdateWalletDto(wallet, { archived: !wallet.archived }));
+      invalidateWalletData(wallet.id);
+      setWallet(updated);
+      showToast(updated.archived ? t('wallets.archiveSuccess') : t('wallets.unarchiveSuccess'), 'success');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('wallets.updateError'), 'error');
+      }
+    }
+  };
+
+  /**
+   * Delete the wallet after confirmation and go back to the wallet list
+   */
+  const handleDeleteWallet = async () => {
+    if (!wallet) return;
 
-      setTransactions([newTransaction, ...transactions]);
-      
-      setShowModal(false);
-      setNewType('DEBIT');
-      setNewCategoryId('');
-      setNewSubcategoryId('');
-      setNewAmount('');
-      setNewDescription('');
-      setNewDate(new Date().toISOString().split('T')[0]);
-      
-      showToast('Transaction created successfully!', 'success');
+    try {
+      const count = await getTotalTransactionCount();
+      const message = count > 0
+        ? t('wallets.deleteConfirmWithTransactions', { name: wallet.name, count })
+        : t('wallets.deleteConfirm', { name: wallet.name });
+      if (!confirm(message)) {
+        return;
+      }
+
+      await deleteWallet(wallet.id);
+      invalidateWalletData();
+      navigate('/wallets');
     } catch (error) {
       if (error instanceof ApiError) {
         showToast(error.message, 'error');
       } else {
-        showToast('Failed to create transaction', 'error');
+        showToast(t('wallets.deleteError'), 'error');
       }
-    } finally {
-      setIsSubmitting(false);
     }
   };
 
+  /**
+   * Name of the other wallet of a transfer
+   */
+  const getCounterpartWalletName = (transaction: TransactionDto): string => {
+    const counterpart = wallets.find(w => w.id === transaction.counterpartWalletId);
+    return counterpart?.name ?? t('transfers.otherWallet');
+  };
+
   /**
    * Handle delete transaction
+   * The transaction leaves the list right away and is deleted once the undo window has passed
    */
-  const handleDeleteTransaction = async (transactionId: number) => {
-    if (!confirm('Are you sure you want to delete this transaction?')) {
-      return;
+  const handleDeleteTransaction = (transactionId: number) => {
+    const transaction = transactions.find(tx => tx.id === transactionId);
+    if (!transaction) return;
+
+    const cancelDelete = scheduleUndoable({
+      commit: async () => {
+        await deleteJson(`/api/transactions/${transactionId}`, true, { keepalive: true });
+        invalidateWalletData(id);
+        await finishPendingDeletes([transaction]);
+      },
+      onCommitError: (error) => {
+        endPendingDeletes([transaction]);
+        if (error instanceof ApiError) {
+          showToast(error.message, 'error');
+        } else {
+          showToast(t('transactions.deleteError'), 'error');
+        }
+      },
+    });
+
+    setPendingDeletes(prev => [...prev, transaction]);
+    showToast(t('transactions.deleted'), 'success', {
+      label: t('common.undo'),
+      onClick: () => {
+        if (cancelDelete()) {
+          endPendingDeletes([transaction]);
+        }
+      },
+    });
+  };
+
+  /**
+   * Select or unselect a transaction
+   * With Shift, every transaction between it and the last one clicked is selected
+   */
+  const handleToggleSelect = (transaction: TransactionDto, index: number, isRange: boolean) => {
+    const next = new Map(selectedTransactions);
+    const lastIndex = lastSelectedIndexRef.current;
+
+    if (isRange && lastIndex !== null) {
+      transactions
+        .slice(Math.min(lastIndex, index), Math.max(lastIndex, index) + 1)
+        .filter(isBulkEditable)
+        .forEach(tx => next.set(tx.id, tx));
+    } else if (next.has(transaction.id)) {
+      next.delete(transaction.id);
+    } else {
+      next.set(transaction.id, transaction);
     }
 
+    lastSelectedIndexRef.current = index;
+    setSelection({ key: selectionKey, transactions: next });
+  };
+
+  const clearSelection = () => {
+    lastSelectedIndexRef.current = null;
+    setSelection({ key: selectionKey, transactions: new Map() });
+  };
+
+  /**
+   * Select every transaction matching the filters, including those not loaded yet
+   */
+  const handleSelectAllFiltered = async () => {
+    if (!id) return;
+
+    setIsSelectingAll(true);
+
     try {
-      await deleteJson(`/api/transactions/${transactionId}`);
-      
-      setTransactions(transactions.filter(t => t.id !== transactionId));
-      showToast('Transaction deleted successfully!', 'success');
+      const walletTransactions = await getWalletTransactions(id, transactionFilters);
+      setSelection({
+        key: selectionKey,
+        transactions: new Map(walletTransactions
+          .filter(tx => isBulkEditable(tx) && !pendingDeleteIds.has(tx.id))
+          .map(tx => [tx.id, tx])),
+      });
     } catch (error) {
       if (error instanceof ApiError) {
         showToast(error.message, 'error');
       } else {
-        showToast('Failed to delete transaction', 'error');
+        showToast(t('bulk.loadError'), 'error');
       }
+    } finally {
+      setIsSelectingAll(false);
+    }
+  };
+
+  /**
+   * Undo a bulk action and reload the list
+   */
+  const handleUndoBulk = async (result: BulkResult) => {
+    const undone = await result.undo();
+    await Promise.all([fetchWallet(), fetchTransactions()]);
+
+    if (undone.failed > 0) {
+      showToast(t('bulk.undoFailed', { count: undone.failed }), 'error');
+    } else {
+      showToast(t('bulk.undone', { count: undone.succeeded }), 'info');
+    }
+  };
+
+  /**
+   * Apply a bulk action to the selected transactions
+   * One toast sums up the result and offers to undo it
+   */
+  const handleBulkAction = async (action: BulkAction) => {
+    setIsApplyingBulk(true);
+
+    try {
+      const result = await applyBulkAction(Array.from(selectedTransactions.values()), action);
+      setBulkEditKind(null);
+      clearSelection();
+      await Promise.all([fetchWallet(), fetchTransactions()]);
+
+      const messages = [
+        result.succeeded > 0 ? t(`bulk.done.${action.kind}`, { count: result.succeeded }) : '',
+        result.failed > 0 ? t('bulk.failed', { count: result.failed }) : '',
+        result.error ?? '',
+      ].filter(Boolean);
+
+      showToast(
+        messages.join(' '),
+        result.failed > 0 ? 'error' : 'success',
+        result.succeeded > 0 ? { label: t('bulk.undo'), onClick: () => handleUndoBulk(result) } : undefined
+      );
+    } finally {
+      setIsApplyingBulk(false);
     }
   };
 
+  /**
+   * Delete the selected transactions
+   * They leave the list right away and are deleted once the undo window has passed
+   */
+  const handleBulkDelete = () => {
+    const selected = Array.from(selectedTransactions.values());
+
+    let deleteResult: { failed: TransactionDto[]; error?: string } = { failed: [] };
+    const cancelDelete = scheduleUndoable({
+      commit: async () => {
+        const result = await deleteTransactions(selected);
+        const failedIds = new Set(result.failed.map(tx => tx.id));
+        await finishPendingDeletes(selected.filter(tx => !failedIds.has(tx.id)));
+        endPendingDeletes(result.failed);
+        if (result.failed.length > 0) {
+          deleteResult = result;
+          throw new Error(`${result.failed.length} transactions could not be deleted`);
+        }
+      },
+      onCommitError: () => {
+        const messages = [t('bulk.failed', { count: deleteResult.failed.length }), deleteResult.error ?? ''];
+        showToast(messages.filter(Boolean).join(' '), 'error');
+      },
+    });
+
+    clearSelection();
+    setPendingDeletes(prev => [...prev, ...selected]);
+    showToast(t('bulk.done.delete', { count: selected.length }), 'success', {
+      label: t('bulk.undo'),
+      onClick: () => {
+        if (cancelDelete()) {
+          endPendingDeletes(selected);
+        }
+      },
+    });
+  };
+
   /**
    * Handle create new category
    */
@@ -418,9 +1386,11 @@ export const WalletDetailPage: React.FC = () => {
         name: newCategoryName.trim(),
         type: newType,
       });
+      invalidateCategories();
 
       setCategories([...categories, newCategory]);
       setNewCategoryId(newCategory.id);
+      setNewSubcategoryId('');
       setShowCategoryModal(false);
       setNewCategoryName('');
       showToast('Category created successfully!', 'success');
@@ -458,6 +1428,7 @@ export const WalletDetailPage: React.FC = () => {
         name: newSubcategoryName.trim(),
         categoryId: subcategoryCategoryId,
       });
+      invalidateCategories();
 
       setCategories(categories.map(cat => {
         if (cat.id === subcategoryCategoryId) {
@@ -538,24 +1509,27 @@ export const WalletDetailPage: React.FC = () => {
   const handleConfirmTransaction = async (editedData: TransactionDraftDto) => {
     setIsConfirmingTransaction(true);
 
-    try {
-      // Send the edited data to create the transaction
-      const transactionData: CreateTransactionDto = {
-        type: editedData.type,
-        category: editedData.category,
-        subcategory: editedData.subcategory,
-        amount: editedData.amount,
-        description: editedData.description,
-        date: editedData.date,
-      };
+    // Send the edited data to create the transaction
+    const transactionData: CreateTransactionDto = {
+      type: editedData.type,
+      category: editedData.category,
+      subcategory: editedData.subcategory,
+      amount: editedData.amount,
+      splits: editedData.splits,
+      description: editedData.description,
+      date: editedData.date,
+    };
 
+    try {
       const newTransaction = await postJson<TransactionDto>(
         `/api/wallets/${id}/transactions`,
         transactionData
       );
+      invalidateWalletData(id);
+      fetchSummary();
 
       // Add new transaction to the list
-      setTransactions([newTransaction, ...transactions]);
+      setTransactions(prev => [newTransaction, ...prev]);
 
       // Close modal and clear state
       setShowConfirmationModal(false);
@@ -564,7 +1538,14 @@ export const WalletDetailPage: React.FC = () => {
 
       showToast(t('transactions.parseSuccess'), 'success');
     } catch (error) {
-      if (error instanceof ApiError) {
+      if (isOfflineError(error)) {
+        // No connection - keep the transaction in the outbox until we are back online
+        if (await queueOfflineTransaction(transactionData)) {
+          setShowConfirmationModal(false);
+          setTransactionDraft(null);
+          setQuickAddText('');
+        }
+      } else if (error instanceof ApiError) {
         showToast(error.message, 'error');
       } else {
         showToast(t('transactions.createError'), 'error');
@@ -635,14 +1616,14 @@ export const WalletDetailPage: React.FC = () => {
   };
 
   /**
-   * Handle file selection for CSV import
+   * Handle file selection for import (CSV, OFX, QIF or CAMT.053)
    */
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     
     if (file) {
       // Validate file type
-      if (!file.name.endsWith('.csv') && file.type !== 'text/csv') {
+      if (!getImportFormat(file.name) && file.type !== 'text/csv') {
         showToast(t('transactions.invalidFileType'), 'error');
         setSelectedFile(null);
         return;
@@ -652,10 +1633,11 @@ export const WalletDetailPage: React.FC = () => {
   };
 
   /**
-   * Handle CSV import - uploads file to backend
+   * Handle file import - reads the file and opens the preview
+   * The wallet's transactions are loaded too, so the preview can flag duplicates
    */
   const handleCsvImport = async () => {
-    if (!selectedFile) {
+    if (!selectedFile || !id) {
       showToast(t('transactions.noFileSelected'), 'error');
       return;
     }
@@ -663,23 +1645,59 @@ export const WalletDetailPage: React.FC = () => {
     setIsImporting(true);
 
     try {
-      // Create FormData for file upload
-      const formData = new FormData();
-      formData.append('file', selectedFile);
-
-      // Send to backend
-      const result = await postFormData<ImportResultDto>(
-        `/api/wallets/${id}/import`,
-        formData
-      );
+      const [text, existingTransactions] = await Promise.all([
+        selectedFile.text(),
+        getWalletTransactions(id),
+      ]);
+
+      setImportExistingTransactions(existingTransactions);
+      setImportResult(null);
+      setImportPreview({ fileName: selectedFile.name, format: getImportFormat(selectedFile.name) ?? 'CSV', text });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('transactions.importError'), 'error');
+      }
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  /**
+   * Close the import preview and clear the file selection
+   */
+  const closeImportPreview = () => {
+    setImportPreview(null);
+    setImportResult(null);
+    setSelectedFile(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  /**
+   * Import the rows confirmed in the preview
+   * When some rows fail, the preview stays open showing the errors
+   */
+  const handleConfirmImport = async (rows: ImportRow[]) => {
+    if (!wallet) return;
+
+    setIsImporting(true);
+
+    try {
+      const result = await importTransactions(wallet.id, {
+        transactions: rows.map(toImportTransaction),
+      });
+      invalidateWalletData(wallet.id);
 
       // Refresh transactions list
       await fetchTransactions();
 
-      // Clear file selection
-      setSelectedFile(null);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
+      if (result.errors && result.errors.length > 0) {
+        setImportResult(result);
+      } else {
+        closeImportPreview();
       }
 
       // Show success message with details
@@ -698,6 +1716,37 @@ export const WalletDetailPage: React.FC = () => {
     }
   };
 
+  /**
+   * Export the wallet's transactions matching the current filters
+   */
+  const handleExport = async (exportFormat: ExportFormat, options: Omit<ExportOptions, 'fileName'>) => {
+    if (!wallet) return;
+
+    setIsExporting(true);
+
+    try {
+      const walletTransactions = await getWalletTransactions(wallet.id, transactionFilters);
+      if (walletTransactions.length === 0) {
+        showToast(t('export.empty'), 'info');
+        return;
+      }
+
+      downloadExport(toExportRows([{ wallet, transactions: walletTransactions }]), exportFormat, {
+        ...options,
+        fileName: getExportFileName(wallet.name),
+      });
+      setShowExportModal(false);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('export.error'), 'error');
+      }
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const formatCurrency = (amount: number | undefined | null, currency: string = 'EUR'): string => {
     const value = Number(amount) || 0;
     return new Intl.NumberFormat('pt-PT', {
@@ -710,10 +1759,27 @@ export const WalletDetailPage: React.FC = () => {
     return new Date(dateString).toLocaleDateString('pt-PT');
   };
 
+  /**
+   * Set or clear one filter in the URL
+   */
+  const setFilter = (name: 'type' | 'fromDate' | 'toDate', value: string) => {
+    const params = new URLSearchParams(searchParams);
+    if (value) {
+      params.set(name, value);
+    } else {
+      params.delete(name);
+    }
+    setSearchParams(params, { replace: true });
+  };
+
   const clearFilters = () => {
-    setFilterType('');
-    setFilterFromDate('');
-    setFilterToDate('');
+    setSearchParams(new URLSearchParams(), { replace: true });
+  };
+
+  const handleSaveView = (name: string) => {
+    addSavedView(currentUser, name, `${location.pathname}${location.search}`);
+    setShowSaveViewModal(false);
+    showToast(t('savedViews.saved', { name }), 'success');
   };
 
   const hasActiveFilters = filterType !== '' || filterFromDate !== '' || filterToDate !== '';
@@ -737,15 +1803,71 @@ export const WalletDetailPage: React.FC = () => {
             <div className="wallet-header-info">
               <h1>{wallet.name}</h1>
               <span className="wallet-currency-badge">{wallet.currency}</span>
+              {wallet.type && (
+                <span className="wallet-currency-badge">
+                  {getWalletTypeIcon(wallet.type)} {t(`wallets.types.${wallet.type}`)}
+                </span>
+              )}
+              {wallet.archived && <span className="wallet-archived-badge">{t('wallets.archived')}</span>}
             </div>
             <p className="wallet-balance-large">
-              {formatCurrency(
-                transactions.filter(t => t.type === 'CREDIT').reduce((sum, t) => sum + (Number(t.amount) || 0), 0) -
-                transactions.filter(t => t.type === 'DEBIT').reduce((sum, t) => sum + (Number(t.amount) || 0), 0),
-                wallet.currency
-              )}
+              {formatCurrency((Number(wallet.openingBalance) || 0) + (summary?.balance ?? 0), wallet.currency)}
             </p>
           </div>
+          <div className="wallet-header-actions">
+            <button className="btn btn-secondary btn-sm" onClick={openEditWalletModal}>
+              {t('common.edit')}
+            </button>
+            <button className="btn btn-secondary btn-sm" onClick={handleToggleArchiveWallet}>
+              {wallet.archived ? t('wallets.unarchive') : t('wallets.archive')}
+            </button>
+            <button className="btn btn-danger btn-sm" onClick={handleDeleteWallet}>
+              {t('common.delete')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Credit card statement */}
+      {wallet && cardStatement && (
+        <div className="card-statement">
+          <div className="card-statement-item">
+            <span className="card-statement-label">{t('creditCard.statementBalance')}</span>
+            <span className="card-statement-value">{formatCurrency(cardStatement.statementBalance, wallet.currency)}</span>
+            <span className="card-statement-note">
+              {t('creditCard.closedOn', { date: formatDate(cardStatement.cycle.lastClosingDate) })}
+            </span>
+          </div>
+          <div className={`card-statement-item ${cardStatement.remainingDue > 0 ? 'due' : 'paid'}`}>
+            <span className="card-statement-label">{t('creditCard.nextPaymentDue')}</span>
+            <span className="card-statement-value">{formatCurrency(cardStatement.remainingDue, wallet.currency)}</span>
+            <span className="card-statement-note">
+              {cardStatement.remainingDue > 0
+                ? t('creditCard.dueOn', { date: formatDate(cardStatement.cycle.dueDate) })
+                : t('creditCard.statementPaid')}
+            </span>
+          </div>
+          <div className={`card-statement-item ${cardStatement.availableCredit < 0 ? 'over-limit' : ''}`}>
+            <span className="card-statement-label">{t('creditCard.availableCredit')}</span>
+            <span className="card-statement-value">{formatCurrency(cardStatement.availableCredit, wallet.currency)}</span>
+            <span className="card-statement-note">
+              {t('creditCard.ofLimit', { limit: formatCurrency(wallet.creditLimit, wallet.currency) })}
+            </span>
+          </div>
+          <div className="card-statement-item">
+            <span className="card-statement-label">{t('creditCard.openStatement')}</span>
+            <span className="card-statement-value">
+              {formatCurrency(Math.max(0, cardStatement.currentDebt - cardStatement.remainingDue), wallet.currency)}
+            </span>
+            <span className="card-statement-note">
+              {t('creditCard.closesOn', { date: formatDate(cardStatement.cycle.nextClosingDate) })}
+            </span>
+          </div>
+          <div className="card-statement-actions">
+            <button className="btn btn-primary btn-sm" onClick={() => setShowCardPaymentModal(true)}>
+              {t('creditCard.payStatement')}
+            </button>
+          </div>
         </div>
       )}
 
@@ -811,7 +1933,7 @@ export const WalletDetailPage: React.FC = () => {
           </div>
         </div>
 
-        {/* CSV Import */}
+        {/* Bank file import (CSV, OFX, QIF, CAMT.053) */}
         <div className="quick-tool-card">
           <div className="quick-tool-header">
             <h3>📄 {t('transactions.importCsv')}</h3>
@@ -823,7 +1945,7 @@ export const WalletDetailPage: React.FC = () => {
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept=".csv,text/csv"
+                  accept={IMPORT_FILE_ACCEPT}
                   onChange={handleFileSelect}
                   disabled={isImporting}
                   id="csvFileInput"
@@ -850,7 +1972,7 @@ export const WalletDetailPage: React.FC = () => {
                     {t('transactions.importing')}
                   </>
                 ) : (
-                  t('transactions.import')
+                  t('import.preview')
                 )}
               </button>
             </div>
@@ -858,11 +1980,28 @@ export const WalletDetailPage: React.FC = () => {
         </div>
       </div>
 
+      {isReconciling && wallet && (
+        <ReconciliationPanel
+          wallet={wallet}
+          statementDate={reconcileDate}
+          endingBalance={reconcileEndingBalance}
+          transactions={reconcileTransactions}
+          isLoading={isLoadingReconcile}
+          isFinishing={isFinishingReconcile}
+          updatingIds={clearingIds}
+          onStatementDateChange={setReconcileDate}
+          onEndingBalanceChange={setReconcileEndingBalance}
+          onToggleCleared={handleToggleCleared}
+          onFinish={handleFinishReconcile}
+          onCancel={() => setIsReconciling(false)}
+        />
+      )}
+
       <div className="transactions-section">
         <div className="section-toolbar">
           <div className="toolbar-left">
             <h2>{t('transactions.title')}</h2>
-            <span className="transactions-count">{transactions.length}</span>
+            <span className="transactions-count">{summary?.count ?? transactions.length}</span>
           </div>
           <div className="toolbar-right">
             <button
@@ -876,6 +2015,30 @@ export const WalletDetailPage: React.FC = () => {
               {t('transactions.filters')}
               {hasActiveFilters && <span className="filter-badge"></span>}
             </button>
+            <button
+              className="btn btn-secondary"
+              onClick={() => setShowExportModal(true)}
+              disabled={!wallet}
+            >
+              ⬇️ {t('export.button')}
+            </button>
+            <button
+              className="btn btn-secondary"
+              onClick={() => setIsReconciling(!isReconciling)}
+              disabled={!wallet}
+            >
+              🧾 {t('reconcile.button')}
+            </button>
+            <button
+              className="btn btn-secondary"
+              onClick={() => setShowTransferModal(true)}
+              disabled={!wallet}
+            >
+              <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
+                <path d="M3 5H13M13 5L10 2M13 5L10 8M13 11H3M3 11L6 8M3 11L6 14" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+              </svg>
+              {t('transfers.newTransfer')}
+            </button>
             <button
               className="btn btn-primary"
               onClick={() => setShowModal(true)}
@@ -900,7 +2063,7 @@ export const WalletDetailPage: React.FC = () => {
                     { value: 'CREDIT', label: t('transactions.credit'), icon: '📥' },
                   ]}
                   value={filterType}
-                  onChange={(val) => setFilterType(val as TransactionType | '')}
+                  onChange={(val) => setFilter('type', val as TransactionType | '')}
                 />
               </div>
 
@@ -910,7 +2073,7 @@ export const WalletDetailPage: React.FC = () => {
                   type="date"
                   id="filterFromDate"
                   value={filterFromDate}
-                  onChange={(e) => setFilterFromDate(e.target.value)}
+                  onChange={(e) => setFilter('fromDate', e.target.value)}
                 />
               </div>
 
@@ -920,27 +2083,76 @@ export const WalletDetailPage: React.FC = () => {
                   type="date"
                   id="filterToDate"
                   value={filterToDate}
-                  onChange={(e) => setFilterToDate(e.target.value)}
+                  onChange={(e) => setFilter('toDate', e.target.value)}
                 />
               </div>
 
               {hasActiveFilters && (
-                <button
-                  type="button"
-                  className="btn-clear-filters"
-                  onClick={clearFilters}
-                >
-                  <svg width="14" height="14" viewBox="0 0 14 14" fill="none">
-                    <path d="M10.5 3.5L3.5 10.5M3.5 3.5L10.5 10.5" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/>
-                  </svg>
-                  {t('transactions.clearFilters')}
-                </button>
+                <>
+                  <button
+                    type="button"
+                    className="btn-clear-filters"
+                    onClick={clearFilters}
+                  >
+                    <svg width="14" height="14" viewBox="0 0 14 14" fill="none">
+                      <path d="M10.5 3.5L3.5 10.5M3.5 3.5L10.5 10.5" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/>
+                    </svg>
+                    {t('transactions.clearFilters')}
+                  </button>
+                  <button
+                    type="button"
+                    className="btn btn-secondary btn-sm"
+                    onClick={() => setShowSaveViewModal(true)}
+                  >
+                    📌 {t('savedViews.save')}
+                  </button>
+                </>
               )}
             </div>
           </div>
         )}
 
-        {transactions.length === 0 ? (
+        {(selectedTransactions.size > 0 || transactions.some(isBulkEditable)) && (
+          <div className={`bulk-bar ${selectedTransactions.size > 0 ? 'active' : ''}`}>
+            <span className="bulk-bar-count">
+              {selectedTransactions.size > 0
+                ? t('bulk.selected', { count: selectedTransactions.size })
+                : t('bulk.hint')}
+            </span>
+            <button
+              type="button"
+              className="btn btn-secondary btn-sm"
+              onClick={handleSelectAllFiltered}
+              disabled={isSelectingAll || isApplyingBulk}
+            >
+              {hasActiveFilters ? t('bulk.selectAllFiltered') : t('bulk.selectAll')}
+            </button>
+            {selectedTransactions.size > 0 && (
+              <div className="bulk-bar-actions">
+                <button type="button" className="btn btn-secondary btn-sm" onClick={() => setBulkEditKind('category')} disabled={isApplyingBulk}>
+                  🏷️ {t('bulk.actions.category')}
+                </button>
+                <button type="button" className="btn btn-secondary btn-sm" onClick={() => setBulkEditKind('subcategory')} disabled={isApplyingBulk}>
+                  📑 {t('bulk.actions.subcategory')}
+                </button>
+                <button type="button" className="btn btn-secondary btn-sm" onClick={() => setBulkEditKind('wallet')} disabled={isApplyingBulk}>
+                  ⇄ {t('bulk.actions.wallet')}
+                </button>
+                <button type="button" className="btn btn-secondary btn-sm" onClick={() => setBulkEditKind('date')} disabled={isApplyingBulk}>
+                  📅 {t('bulk.actions.date')}
+                </button>
+                <button type="button" className="btn btn-danger btn-sm" onClick={handleBulkDelete} disabled={isApplyingBulk}>
+                  {isApplyingBulk ? t('bulk.applying') : t('bulk.actions.delete')}
+                </button>
+                <button type="button" className="btn-clear-filters" onClick={clearSelection} disabled={isApplyingBulk}>
+                  {t('bulk.clearSelection')}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {transactions.length === 0 && pendingTransactions.length === 0 ? (
           <div className="empty-state">
             <div className="empty-state-icon">📝</div>
             <h3>{t('transactions.noTransactions')}</h3>
@@ -951,37 +2163,42 @@ export const WalletDetailPage: React.FC = () => {
           </div>
         ) : (
           <div className="transactions-list">
-            {transactions.map((transaction) => (
+            {/* Transactions queued offline, sent when connectivity returns */}
+            {pendingTransactions.map((entry) => (
               <div
-                key={transaction.id}
-                className={`transaction-item ${transaction.type.toLowerCase()}`}
+                key={`pending-${entry.id}`}
+                className={`transaction-item ${entry.transaction.type.toLowerCase()} pending`}
               >
+                <span className="transaction-select-placeholder" />
                 <div className="transaction-icon-wrapper">
-                  <div className={`transaction-type-icon ${transaction.type.toLowerCase()}`}>
-                    {transaction.type === 'CREDIT' ? '↓' : '↑'}
+                  <div className={`transaction-type-icon ${entry.transaction.type.toLowerCase()}`}>
+                    {entry.transaction.type === 'CREDIT' ? '↓' : '↑'}
                   </div>
                 </div>
                 <div className="transaction-info">
                   <div className="transaction-main">
-                    <span className="transaction-category">{translateCategoryNameByString(transaction.category)}</span>
-                    {transaction.subcategory && (
-                      <span className="transaction-subcategory">• {translateSubcategoryNameByString(transaction.subcategory)}</span>
+                    <span className="transaction-category">{translateCategoryNameByString(entry.transaction.category)}</span>
+                    {entry.transaction.subcategory && (
+                      <span className="transaction-subcategory">• {translateSubcategoryNameByString(entry.transaction.subcategory)}</span>
                     )}
+                    <span className="transaction-pending-badge" title={t('outbox.pendingHint')}>
+                      {t('outbox.pending')}
+                    </span>
                   </div>
-                  {transaction.description && (
-                    <p className="transaction-description">{transaction.description}</p>
+                  {entry.transaction.description && (
+                    <p className="transaction-description">{entry.transaction.description}</p>
                   )}
-                  <span className="transaction-date">{formatDate(transaction.date)}</span>
+                  <span className="transaction-date">{formatDate(entry.transaction.date)}</span>
                 </div>
                 <div className="transaction-actions">
-                  <span className={`transaction-amount ${transaction.type.toLowerCase()}`}>
-                    {transaction.type === 'CREDIT' ? '+' : '-'}
-                    {formatCurrency(transaction.amount, wallet?.currency)}
+                  <span className={`transaction-amount ${entry.transaction.type.toLowerCase()}`}>
+                    {entry.transaction.type === 'CREDIT' ? '+' : '-'}
+                    {formatCurrency(entry.transaction.amount, wallet?.currency)}
                   </span>
                   <button
                     className="btn-icon-action btn-icon-delete"
-                    onClick={() => handleDeleteTransaction(transaction.id)}
-                    title={t('common.delete')}
+                    onClick={() => handleDiscardPending(entry.id)}
+                    title={t('outbox.discard')}
                   >
                     <svg width="18" height="18" viewBox="0 0 18 18" fill="none" xmlns="http://www.w3.org/2000/svg">
                       <path d="M3.75 5.25H14.25" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
@@ -994,16 +2211,131 @@ export const WalletDetailPage: React.FC = () => {
                 </div>
               </div>
             ))}
+            {transactions.map((transaction, index) => (
+              <div
+                key={transaction.id}
+                className={`transaction-item ${transaction.type.toLowerCase()} ${transaction.transferId ? 'transfer' : ''} ${selectedTransactions.has(transaction.id) ? 'selected' : ''}`}
+              >
+                {isBulkEditable(transaction) ? (
+                  <input
+                    type="checkbox"
+                    className="transaction-select"
+                    checked={selectedTransactions.has(transaction.id)}
+                    onClick={(e) => handleToggleSelect(transaction, index, e.shiftKey)}
+                    aria-label={t('bulk.select')}
+                    readOnly
+                  />
+                ) : (
+                  <span className="transaction-select-placeholder" />
+                )}
+                <div className="transaction-icon-wrapper">
+                  <div className={`transaction-type-icon ${transaction.type.toLowerCase()}`}>
+                    {transaction.transferId ? '⇄' : transaction.type === 'CREDIT' ? '↓' : '↑'}
+                  </div>
+                </div>
+                <div className="transaction-info">
+                  <div className="transaction-main">
+                    {transaction.transferId ? (
+                      <span className="transaction-category">
+                        {transaction.type === 'DEBIT'
+                          ? t('transfers.toWalletName', { wallet: getCounterpartWalletName(transaction) })
+                          : t('transfers.fromWalletName', { wallet: getCounterpartWalletName(transaction) })}
+                      </span>
+                    ) : (
+                      <>
+                        <span className="transaction-category">{translateCategoryNameByString(transaction.category)}</span>
+                        {transaction.subcategory && (
+                          <span className="transaction-subcategory">• {translateSubcategoryNameByString(transaction.subcategory)}</span>
+                        )}
+                        {transaction.splits && transaction.splits.length > 0 && (
+                          <span
+                            className="transaction-split-badge"
+                            title={transaction.splits
+                              .map(line => `${translateCategoryNameByString(line.category)}: ${formatCurrency(line.amount, wallet?.currency)}`)
+                              .join('\n')}
+                          >
+                            ✂️ {t('splits.badge', { count: transaction.splits.length })}
+                          </span>
+                        )}
+                      </>
+                    )}
+                  </div>
+                  {transaction.description && (
+                    <p className="transaction-description">{transaction.description}</p>
+                  )}
+                  <span className="transaction-date">
+                    {formatDate(transaction.date)}
+                    {transaction.status === 'CLEARED' && (
+                      <span className="transaction-status-badge cleared" title={t('reconcile.clearedHint')}>
+                        ✓ {t('reconcile.cleared')}
+                      </span>
+                    )}
+                  </span>
+                </div>
+                <div className="transaction-actions">
+                  <span className={`transaction-amount ${transaction.type.toLowerCase()}`}>
+                    {transaction.type === 'CREDIT' ? '+' : '-'}
+                    {formatCurrency(transaction.amount, wallet?.currency)}
+                  </span>
+                  {/* Reconciled transactions are locked against edits and deletes */}
+                  {transaction.status === 'RECONCILED' ? (
+                    <span className="transaction-locked" title={t('reconcile.locked')}>🔒</span>
+                  ) : (
+                    <>
+                      {/* Transfers are linked to the other wallet - they can only be deleted as a whole */}
+                      {!transaction.transferId && (
+                        <button
+                          className="btn-icon-action btn-icon-edit"
+                          onClick={() => openEditModal(transaction)}
+                          title={t('common.edit')}
+                        >
+                          <svg width="18" height="18" viewBox="0 0 18 18" fill="none" xmlns="http://www.w3.org/2000/svg">
+                            <path d="M12.75 2.25L15.75 5.25L6 15H3V12L12.75 2.25Z" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                            <path d="M10.5 4.5L13.5 7.5" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                          </svg>
+                        </button>
+                      )}
+                      <button
+                        className="btn-icon-action btn-icon-delete"
+                        onClick={() => transaction.transferId
+                          ? handleDeleteTransfer(transaction)
+                          : handleDeleteTransaction(transaction.id)}
+                        title={t('common.delete')}
+                      >
+                        <svg width="18" height="18" viewBox="0 0 18 18" fill="none" xmlns="http://www.w3.org/2000/svg">
+                          <path d="M3.75 5.25H14.25" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                          <path d="M7.5 8.25V12.75" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                          <path d="M10.5 8.25V12.75" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                          <path d="M4.5 5.25L5.25 14.25C5.25 14.6478 5.40804 15.0294 5.68934 15.3107C5.97064 15.592 6.35218 15.75 6.75 15.75H11.25C11.6478 15.75 12.0294 15.592 12.3107 15.3107C12.592 15.0294 12.75 14.6478 12.75 14.25L13.5 5.25" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                          <path d="M7.5 5.25V3C7.5 2.80109 7.57902 2.61032 7.71967 2.46967C7.86032 2.32902 8.05109 2.25 8.25 2.25H9.75C9.94891 2.25 10.1397 2.32902 10.2803 2.46967C10.421 2.61032 10.5 2.80109 10.5 3V5.25" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                        </svg>
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {hasMoreTransactions && (
+          <div className="transactions-load-more" ref={loadMoreRef}>
+            <span className="transactions-load-more-info">
+              {t('transactions.showingCount', { shown: transactions.length, total: summary?.count ?? transactions.length })}
+            </span>
+            <button className="btn btn-secondary" onClick={loadMoreTransactions} disabled={isLoadingMore}>
+              {isLoadingMore ? t('common.loading') : t('transactions.loadMore')}
+            </button>
           </div>
         )}
       </div>
 
-      {/* Create Transaction Modal */}
+      {/* Create / Edit Transaction Modal */}
       {showModal && (
-        <div className="modal-overlay" onClick={() => setShowModal(false)}>
+        <div className="modal-overlay" onClick={closeTransactionModal}>
           <div className="modal modal-large" onClick={(e) => e.stopPropagation()}>
-            <h2>{t('transactions.newTransaction')}</h2>
-            <form onSubmit={handleCreateTransaction}>
+            <h2>{editingTransaction ? t('transactions.editTransaction') : t('transactions.newTransaction')}</h2>
+            <form onSubmit={editingTransaction ? handleUpdateTransaction : handleCreateTransaction}>
               <div className="form-row">
                 <div className="form-group">
                   <label>{t('transactions.type')}</label>
@@ -1013,7 +2345,13 @@ export const WalletDetailPage: React.FC = () => {
                       { value: 'CREDIT', label: `${t('transactions.credit')} (${t('transactions.income')})`, icon: '📥' },
                     ]}
                     value={newType}
-                    onChange={(val) => setNewType(val as TransactionType)}
+                    onChange={(val) => {
+                      setNewType(val as TransactionType);
+                      // Categories belong to one type, so split lines start over
+                      if (newSplitLines) {
+                        setNewSplitLines(newSplitLines.map(line => ({ ...line, categoryId: '', subcategoryId: '' })));
+                      }
+                    }}
                     disabled={isSubmitting}
                   />
                 </div>
@@ -1033,59 +2371,86 @@ export const WalletDetailPage: React.FC = () => {
                 </div>
               </div>
 
-              <div className="form-row">
-                <div className="form-group">
-                  <label>{t('transactions.category')} *</label>
-                  <div className="input-with-button">
-                    <Dropdown
-                      options={filteredCategories.map((category): DropdownOption => ({
-                        value: category.id,
-                        label: translateCategoryName(category),
-                        badge: category.isDefault ? t('categories.default') : undefined,
-                      }))}
-                      value={newCategoryId}
-                      onChange={(val) => setNewCategoryId(val as number)}
-                      placeholder={isLoadingCategories ? t('common.loading') : t('transactions.selectCategory')}
-                      disabled={isSubmitting || isLoadingCategories}
-                      searchable
-                    />
-                    <button
-                      type="button"
-                      className="btn btn-secondary"
-                      onClick={() => setShowCategoryModal(true)}
-                      disabled={isSubmitting}
-                      title={t('categories.createCategory')}
-                    >
-                      +
-                    </button>
+              {newSplitLines ? (
+                <SplitLinesEditor
+                  lines={newSplitLines}
+                  onChange={setNewSplitLines}
+                  categories={filteredCategories}
+                  total={parseFloat(newAmount) || 0}
+                  disabled={isSubmitting}
+                  translateCategoryName={translateCategoryName}
+                  translateSubcategoryName={translateSubcategoryName}
+                />
+              ) : (
+                <div className="form-row">
+                  <div className="form-group">
+                    <label>{t('transactions.category')} *</label>
+                    <div className="input-with-button">
+                      <Dropdown
+                        options={filteredCategories.map((category): DropdownOption => ({
+                          value: category.id,
+                          label: translateCategoryName(category),
+                          badge: category.isDefault ? t('categories.default') : undefined,
+                        }))}
+                        value={newCategoryId}
+                        onChange={(val) => selectCategory(val as number)}
+                        placeholder={keptCategoryTransaction
+                          ? translateCategoryNameByString(keptCategoryTransaction.category)
+                          : isLoadingCategories ? t('common.loading') : t('transactions.selectCategory')}
+                        disabled={isSubmitting || isLoadingCategories}
+                        searchable
+                      />
+                      <button
+                        type="button"
+                        className="btn btn-secondary"
+                        onClick={() => setShowCategoryModal(true)}
+                        disabled={isSubmitting}
+                        title={t('categories.createCategory')}
+                      >
+                        +
+                      </button>
+                    </div>
                   </div>
-                </div>
 
-                <div className="form-group">
-                  <label>{t('transactions.subcategory')}</label>
-                  <div className="input-with-button">
-                    <Dropdown
-                      options={selectedCategory ? availableSubcategories.map((subcategory): DropdownOption => ({
-                        value: subcategory.id,
-                        label: translateSubcategoryName(subcategory, selectedCategory),
-                      })) : []}
-                      value={newSubcategoryId}
-                      onChange={(val) => setNewSubcategoryId(val as number)}
-                      placeholder={t('transactions.selectSubcategory')}
-                      disabled={isSubmitting || !newCategoryId}
-                      searchable
-                    />
-                    <button
-                      type="button"
-                      className="btn btn-secondary"
-                      onClick={openSubcategoryModal}
-                      disabled={isSubmitting || !newCategoryId}
-                      title={t('categories.createSubcategory')}
-                    >
-                      +
-                    </button>
+                  <div className="form-group">
+                    <label>{t('transactions.subcategory')}</label>
+                    <div className="input-with-button">
+                      <Dropdown
+                        options={selectedCategory ? availableSubcategories.map((subcategory): DropdownOption => ({
+                          value: subcategory.id,
+                          label: translateSubcategoryName(subcategory, selectedCategory),
+                        })) : []}
+                        value={newSubcategoryId}
+                        onChange={(val) => setNewSubcategoryId(val as number)}
+                        placeholder={keptCategoryTransaction?.subcategory
+                          ? translateSubcategoryNameByString(keptCategoryTransaction.subcategory)
+                          : t('transactions.selectSubcategory')}
+                        disabled={isSubmitting || !newCategoryId}
+                        searchable
+                      />
+                      <button
+                        type="button"
+                        className="btn btn-secondary"
+                        onClick={openSubcategoryModal}
+                        disabled={isSubmitting || !newCategoryId}
+                        title={t('categories.createSubcategory')}
+                      >
+                        +
+                      </button>
+                    </div>
                   </div>
                 </div>
+              )}
+
+              <div className="split-toggle">
+                <button
+                  type="button"
+                  className="btn btn-secondary btn-sm"
+                  onClick={toggleSplit}
+                  disabled={isSubmitting}
+                >
+                  {newSplitLines ? t('splits.unsplit') : `✂️ ${t('splits.split')}`}
+                </button>
               </div>
 
               <div className="form-group">
@@ -1115,7 +2480,7 @@ export const WalletDetailPage: React.FC = () => {
                 <button
                   type="button"
                   className="btn btn-secondary"
-                  onClick={() => setShowModal(false)}
+                  onClick={closeTransactionModal}
                   disabled={isSubmitting}
                 >
                   {t('common.cancel')}
@@ -1125,7 +2490,9 @@ export const WalletDetailPage: React.FC = () => {
                   className="btn btn-primary"
                   disabled={isSubmitting}
                 >
-                  {isSubmitting ? t('transactions.creating') : t('transactions.createTransaction')}
+                  {editingTransaction
+                    ? (isSubmitting ? t('transactions.saving') : t('common.save'))
+                    : (isSubmitting ? t('transactions.creating') : t('transactions.createTransaction'))}
                 </button>
               </div>
             </form>
@@ -1241,8 +2608,88 @@ export const WalletDetailPage: React.FC = () => {
         />
       )}
 
+      {/* Edit Wallet Modal */}
+      {editWalletTransactionCount !== null && wallet && (
+        <WalletFormModal
+          wallet={wallet}
+          canChangeCurrency={editWalletTransactionCount === 0}
+          isSubmitting={isSavingWallet}
+          onSubmit={handleUpdateWallet}
+          onCancel={() => setEditWalletTransactionCount(null)}
+        />
+      )}
+
+      {showCardPaymentModal && wallet && (
+        <CardPaymentModal
+          card={wallet}
+          wallets={wallets}
+          suggestedAmount={cardStatement?.remainingDue ?? 0}
+          isSubmitting={isPayingCard}
+          onSubmit={handleCardPayment}
+          onCancel={() => setShowCardPaymentModal(false)}
+        />
+      )}
+
+      {importPreview && wallet && (
+        <ImportPreviewModal
+          fileName={importPreview.fileName}
+          format={importPreview.format}
+          fileText={importPreview.text}
+          currency={wallet.currency}
+          existingTransactions={importExistingTransactions}
+          isSubmitting={isImporting}
+          result={importResult}
+          onSubmit={handleConfirmImport}
+          onCancel={closeImportPreview}
+        />
+      )}
+
+      {showSaveViewModal && wallet && (
+        <SaveViewModal
+          defaultName={wallet.name}
+          onSave={handleSaveView}
+          onCancel={() => setShowSaveViewModal(false)}
+        />
+      )}
+
+      {bulkEditKind && wallet && (
+        <BulkEditModal
+          kind={bulkEditKind}
+          transactions={Array.from(selectedTransactions.values())}
+          categories={categories}
+          wallets={wallets.filter(w => w.id !== wallet.id && !w.archived && w.currency === wallet.currency)}
+          isSubmitting={isApplyingBulk}
+          onSubmit={handleBulkAction}
+          onCancel={() => setBulkEditKind(null)}
+          translateCategoryName={translateCategoryNameByString}
+          translateSubcategoryName={translateSubcategoryNameByString}
+        />
+      )}
+
+      {showExportModal && wallet && (
+        <ExportModal
+          description={hasActiveFilters
+            ? t('export.walletFilteredDescription', { wallet: wallet.name })
+            : t('export.walletDescription', { wallet: wallet.name })}
+          isExporting={isExporting}
+          onExport={handleExport}
+          onCancel={() => setShowExportModal(false)}
+        />
+      )}
+
+      {/* Transfer Modal */}
+      {showTransferModal && wallet && (
+        <TransferModal
+          sourceWallet={wallet}
+          wallets={wallets}
+          isSubmitting={isTransferring}
+          onSubmit={handleCreateTransfer}
+          onCancel={() => setShowTransferModal(false)}
+        />
+      )}
+
       {toast && (
-        <Toast message={toast.message} type={toast.type} onClose={hideToast} />
+        <Toast message={toast.message} type={toast.type} action={toast.action} onClose={hideToast} />
       )}
     </div>
   );
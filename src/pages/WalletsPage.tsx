@@ -1,13 +1,20 @@
-import React, { useState, useEffect, useCallback, type FormEvent } from 'react';
+import React, { useState, useEffect, useCallback, type MouseEvent } from 'react';
 import { Link } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { getJson, postJson, ApiError } from '../lib/api';
+import { postJson, updateWallet, deleteWallet, ApiError } from '../lib/api';
+import { getWalletsWithSummaries, invalidateWalletData } from '../lib/queries';
+import { invalidateQueries } from '../lib/queryCache';
+import { calculateWalletBalance, getWalletBalance, getWalletTypeIcon, toUpdateWalletDto } from '../lib/wallets';
+import { useCurrency } from '../context/CurrencyContext';
 import { Toast, useToast } from '../components/Toast';
-import type { WalletDto, CreateWalletDto, TransactionDto } from '../types/dtos';
+import { MissingRatesNotice } from '../components/MissingRatesNotice';
+import { WalletFormModal } from '../components/WalletFormModal';
+import type { WalletDto, CreateWalletDto } from '../types/dtos';
 
 // Wallet with calculated balance
 interface WalletWithBalance extends WalletDto {
   calculatedBalance: number;
+  transactionCount: number;
 }
 
 /**
@@ -15,44 +22,29 @@ interface WalletWithBalance extends WalletDto {
  */
 export const WalletsPage: React.FC = () => {
   const { t, i18n } = useTranslation();
+  const { baseCurrency, convert } = useCurrency();
   const [wallets, setWallets] = useState<WalletWithBalance[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showModal, setShowModal] = useState(false);
-  const [newWalletName, setNewWalletName] = useState('');
-  const [newWalletCurrency, setNewWalletCurrency] = useState('EUR');
+  const [editingWallet, setEditingWallet] = useState<WalletWithBalance | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [totalBalance, setTotalBalance] = useState(0);
+  const [showArchived, setShowArchived] = useState(false);
 
   const [toast, showToast, hideToast] = useToast();
 
   const fetchWallets = useCallback(async () => {
     try {
-      const data = await getJson<WalletDto[]>('/api/wallets');
+      // Wallets and the server-side totals of their transactions (fetched in parallel)
+      const data = await getWalletsWithSummaries();
       
-      // Fetch transactions for each wallet to calculate balance
-      const walletsWithBalance: WalletWithBalance[] = [];
-      let total = 0;
-      
-      for (const wallet of data) {
-        try {
-          const transactions = await getJson<TransactionDto[]>(`/api/wallets/${wallet.id}/transactions`);
-          const income = transactions
-            .filter(t => t.type === 'CREDIT')
-            .reduce((sum, t) => sum + (Number(t.amount) || 0), 0);
-          const expenses = transactions
-            .filter(t => t.type === 'DEBIT')
-            .reduce((sum, t) => sum + (Number(t.amount) || 0), 0);
-          const calculatedBalance = income - expenses;
-          
-          walletsWithBalance.push({ ...wallet, calculatedBalance });
-          total += calculatedBalance;
-        } catch {
-          walletsWithBalance.push({ ...wallet, calculatedBalance: 0 });
-        }
-      }
+      // Each wallet's balance is its opening balance plus the balance of its transactions
+      const walletsWithBalance: WalletWithBalance[] = data.map(({ wallet, summary }) => ({
+        ...wallet,
+        calculatedBalance: getWalletBalance(wallet, summary),
+        transactionCount: summary.count,
+      }));
       
       setWallets(walletsWithBalance);
-      setTotalBalance(total);
     } catch (error) {
       if (error instanceof ApiError) {
         showToast(error.message, 'error');
@@ -68,10 +60,8 @@ export const WalletsPage: React.FC = () => {
     fetchWallets();
   }, [fetchWallets]);
 
-  const handleCreateWallet = async (e: FormEvent) => {
-    e.preventDefault();
-
-    if (!newWalletName.trim()) {
+  const handleCreateWallet = async (walletData: CreateWalletDto) => {
+    if (!walletData.name) {
       showToast(t('wallets.nameRequired'), 'error');
       return;
     }
@@ -79,16 +69,14 @@ export const WalletsPage: React.FC = () => {
     setIsSubmitting(true);
 
     try {
-      const walletData: CreateWalletDto = {
-        name: newWalletName.trim(),
-        currency: newWalletCurrency,
-      };
-
       const newWallet = await postJson<WalletDto>('/api/wallets', walletData);
-      setWallets([...wallets, { ...newWallet, calculatedBalance: 0 }]);
+      invalidateQueries('/api/wallets', true);
+      setWallets([...wallets, {
+        ...newWallet,
+        calculatedBalance: calculateWalletBalance(newWallet, []),
+        transactionCount: 0,
+      }]);
       setShowModal(false);
-      setNewWalletName('');
-      setNewWalletCurrency('EUR');
       showToast(t('wallets.createSuccess'), 'success');
     } catch (error) {
       if (error instanceof ApiError) {
@@ -101,6 +89,112 @@ export const WalletsPage: React.FC = () => {
     }
   };
 
+  /**
+   * Save the name and currency of the wallet being edited
+   */
+  const handleUpdateWallet = async (walletData: CreateWalletDto) => {
+    if (!editingWallet) return;
+
+    if (!walletData.name) {
+      showToast(t('wallets.nameRequired'), 'error');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const updated = await updateWallet(editingWallet.id, toUpdateWalletDto(editingWallet, walletData));
+      invalidateWalletData(editingWallet.id);
+      // The opening balance may have changed the wallet's balance
+      setWallets(wallets.map(w => w.id === updated.id ? {
+        ...w,
+        ...updated,
+        calculatedBalance: w.calculatedBalance - (Number(w.openingBalance) || 0) + (Number(updated.openingBalance) || 0),
+      } : w));
+      setEditingWallet(null);
+      showToast(t('wallets.updateSuccess'), 'success');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('wallets.updateError'), 'error');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Archive a wallet (or restore an archived one)
+   * The card is a link - stop the click from opening the wallet
+   */
+  const handleToggleArchive = async (e: MouseEvent, wallet: WalletWithBalance) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    try {
+      const updated = await updateWallet(wallet.id, toUpdateWalletDto(wallet, { archived: !wallet.archived }));
+      invalidateWalletData(wallet.id);
+      setWallets(wallets.map(w => w.id === updated.id ? { ...w, ...updated } : w));
+      showToast(updated.archived ? t('wallets.archiveSuccess') : t('wallets.unarchiveSuccess'), 'success');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('wallets.updateError'), 'error');
+      }
+    }
+  };
+
+  /**
+   * Delete a wallet after confirmation (with a stronger warning when it has transactions)
+   */
+  const handleDeleteWallet = async (e: MouseEvent, wallet: WalletWithBalance) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    const message = wallet.transactionCount > 0
+      ? t('wallets.deleteConfirmWithTransactions', { name: wallet.name, count: wallet.transactionCount })
+      : t('wallets.deleteConfirm', { name: wallet.name });
+    if (!confirm(message)) {
+      return;
+    }
+
+    try {
+      await deleteWallet(wallet.id);
+      invalidateWalletData();
+      setWallets(wallets.filter(w => w.id !== wallet.id));
+      showToast(t('wallets.deletedSuccess'), 'success');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        showToast(error.message, 'error');
+      } else {
+        showToast(t('wallets.deleteError'), 'error');
+      }
+    }
+  };
+
+  const openEditModal = (e: MouseEvent, wallet: WalletWithBalance) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setEditingWallet(wallet);
+  };
+
+  // Archived wallets are hidden unless asked for
+  const archivedCount = wallets.filter(w => w.archived).length;
+  const visibleWallets = showArchived ? wallets : wallets.filter(w => !w.archived);
+
+  // Total of all wallets in the base currency (wallets without an exchange rate are left out)
+  const missingRateCurrencies = new Set<string>();
+  const totalBalance = wallets.reduce((sum, w) => {
+    const converted = convert(w.calculatedBalance, w.currency);
+    if (converted === null) {
+      missingRateCurrencies.add(w.currency);
+      return sum;
+    }
+    return sum + converted;
+  }, 0);
+
   const formatCurrency = (amount: number | undefined | null, currency: string): string => {
     const value = Number(amount) || 0;
     const locale = i18n.language === 'pt' ? 'pt-PT' : 'en-GB';
@@ -136,7 +230,7 @@ export const WalletsPage: React.FC = () => {
           <h1>{t('wallets.title')}</h1>
           <p className="page-subtitle">
             {wallets.length > 0 
-              ? `${t('wallets.totalBalance')}: ${formatCurrency(totalBalance, 'EUR')}`
+              ? `${t('wallets.totalBalance')}: ${formatCurrency(totalBalance, baseCurrency)}`
               : t('wallets.subtitle')}
           </p>
         </div>
@@ -149,6 +243,8 @@ export const WalletsPage: React.FC = () => {
         </button>
       </div>
 
+      <MissingRatesNotice currencies={[...missingRateCurrencies]} />
+
       {wallets.length === 0 ? (
         <div className="empty-state">
           <div className="empty-state-icon">👛</div>
@@ -162,83 +258,104 @@ export const WalletsPage: React.FC = () => {
           </button>
         </div>
       ) : (
-        <div className="wallets-grid">
-          {wallets.map((wallet) => (
-            <Link
-              key={wallet.id}
-              to={`/wallets/${wallet.id}`}
-              className="wallet-card"
-            >
-              <div className="wallet-card-header">
-                <div className="wallet-card-icon">
-                  {getCurrencyIcon(wallet.currency)}
+        <>
+          {archivedCount > 0 && (
+            <div className="wallets-archive-toggle">
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={() => setShowArchived(!showArchived)}
+              >
+                {showArchived
+                  ? t('wallets.hideArchived')
+                  : t('wallets.showArchived', { count: archivedCount })}
+              </button>
+            </div>
+          )}
+          <div className="wallets-grid">
+            {visibleWallets.map((wallet) => (
+              <Link
+                key={wallet.id}
+                to={`/wallets/${wallet.id}`}
+                className={`wallet-card ${wallet.archived ? 'archived' : ''}`}
+              >
+                <div className="wallet-card-header">
+                  <div className="wallet-card-icon">
+                    {wallet.type ? getWalletTypeIcon(wallet.type) : getCurrencyIcon(wallet.currency)}
+                  </div>
+                  <div className="wallet-card-actions">
+                    <button
+                      className="btn-icon-action btn-icon-edit"
+                      onClick={(e) => openEditModal(e, wallet)}
+                      title={t('common.edit')}
+                    >
+                      <svg width="18" height="18" viewBox="0 0 18 18" fill="none" xmlns="http://www.w3.org/2000/svg">
+                        <path d="M12.75 2.25L15.75 5.25L6 15H3V12L12.75 2.25Z" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                        <path d="M10.5 4.5L13.5 7.5" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                      </svg>
+                    </button>
+                    <button
+                      className="btn-icon-action"
+                      onClick={(e) => handleToggleArchive(e, wallet)}
+                      title={wallet.archived ? t('wallets.unarchive') : t('wallets.archive')}
+                    >
+                      <svg width="18" height="18" viewBox="0 0 18 18" fill="none" xmlns="http://www.w3.org/2000/svg">
+                        <path d="M2.25 3.75H15.75V6.75H2.25V3.75Z" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                        <path d="M3.75 6.75V14.25C3.75 14.6478 4.05 15 4.5 15H13.5C13.95 15 14.25 14.6478 14.25 14.25V6.75" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                        <path d="M7.5 9.75H10.5" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                      </svg>
+                    </button>
+                    <button
+                      className="btn-icon-action btn-icon-delete"
+                      onClick={(e) => handleDeleteWallet(e, wallet)}
+                      title={t('common.delete')}
+                    >
+                      <svg width="18" height="18" viewBox="0 0 18 18" fill="none" xmlns="http://www.w3.org/2000/svg">
+                        <path d="M3.75 5.25H14.25" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                        <path d="M7.5 8.25V12.75" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                        <path d="M10.5 8.25V12.75" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                        <path d="M4.5 5.25L5.25 14.25C5.25 14.6478 5.40804 15.0294 5.68934 15.3107C5.97064 15.592 6.35218 15.75 6.75 15.75H11.25C11.6478 15.75 12.0294 15.592 12.3107 15.3107C12.592 15.0294 12.75 14.6478 12.75 14.25L13.5 5.25" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                        <path d="M7.5 5.25V3C7.5 2.80109 7.57902 2.61032 7.71967 2.46967C7.86032 2.32902 8.05109 2.25 8.25 2.25H9.75C9.94891 2.25 10.1397 2.32902 10.2803 2.46967C10.421 2.61032 10.5 2.80109 10.5 3V5.25" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                      </svg>
+                    </button>
+                  </div>
                 </div>
-              </div>
-              <h3>{wallet.name}</h3>
-              <span className="currency-badge">{wallet.currency}</span>
-              <p className={`wallet-card-balance ${(wallet.calculatedBalance || 0) >= 0 ? 'positive' : 'negative'}`}>
-                {formatCurrency(wallet.calculatedBalance, wallet.currency)}
-              </p>
-            </Link>
-          ))}
-        </div>
+                <h3>{wallet.name}</h3>
+                <span className="currency-badge">{wallet.currency}</span>
+              {wallet.type && <span className="wallet-type-label">{t(`wallets.types.${wallet.type}`)}</span>}
+                {wallet.archived && <span className="wallet-archived-badge">{t('wallets.archived')}</span>}
+                <p className={`wallet-card-balance ${(wallet.calculatedBalance || 0) >= 0 ? 'positive' : 'negative'}`}>
+                  {formatCurrency(wallet.calculatedBalance, wallet.currency)}
+                </p>
+                {wallet.currency !== baseCurrency && convert(wallet.calculatedBalance, wallet.currency) !== null && (
+                  <p className="converted-amount">
+                    ≈ {formatCurrency(convert(wallet.calculatedBalance, wallet.currency), baseCurrency)}
+                  </p>
+                )}
+              </Link>
+            ))}
+          </div>
+        </>
       )}
 
       {/* Create Wallet Modal */}
       {showModal && (
-        <div className="modal-overlay" onClick={() => setShowModal(false)}>
-          <div className="modal" onClick={(e) => e.stopPropagation()}>
-            <h2>{t('wallets.createNewWallet')}</h2>
-            <p className="modal-subtitle">{t('wallets.createNewWalletDescription')}</p>
-            <form onSubmit={handleCreateWallet}>
-              <div className="form-group">
-                <label htmlFor="walletName">{t('wallets.walletName')}</label>
-                <input
-                  type="text"
-                  id="walletName"
-                  value={newWalletName}
-                  onChange={(e) => setNewWalletName(e.target.value)}
-                  placeholder={t('wallets.walletNamePlaceholder')}
-                  disabled={isSubmitting}
-                  autoFocus
-                />
-              </div>
-
-              <div className="form-group">
-                <label htmlFor="walletCurrency">{t('wallets.currency')}</label>
-                <select
-                  id="walletCurrency"
-                  value={newWalletCurrency}
-                  onChange={(e) => setNewWalletCurrency(e.target.value)}
-                  disabled={isSubmitting}
-                >
-                  <option value="EUR">🇪🇺 EUR - Euro</option>
-                  <option value="USD">🇺🇸 USD - US Dollar</option>
-                  <option value="GBP">🇬🇧 GBP - British Pound</option>
-                  <option value="BRL">🇧🇷 BRL - Brazilian Real</option>
-                </select>
-              </div>
-
-              <div className="modal-actions">
-                <button
-                  type="button"
-                  className="btn btn-secondary"
-                  onClick={() => setShowModal(false)}
-                  disabled={isSubmitting}
-                >
-                  {t('common.cancel')}
-                </button>
-                <button
-                  type="submit"
-                  className="btn btn-primary"
-                  disabled={isSubmitting}
-                >
-                  {isSubmitting ? t('common.creating') : t('wallets.createWallet')}
-                </button>
-              </div>
-            </form>
-          </div>
-        </div>
+        <WalletFormModal
+          canChangeCurrency
+          isSubmitting={isSubmitting}
+          onSubmit={handleCreateWallet}
+          onCancel={() => setShowModal(false)}
+        />
+      )}
+
+      {/* Edit Wallet Modal */}
+      {editingWallet && (
+        <WalletFormModal
+          wallet={editingWallet}
+          canChangeCurrency={editingWallet.transactionCount === 0}
+          isSubmitting={isSubmitting}
+          onSubmit={handleUpdateWallet}
+          onCancel={() => setEditingWallet(null)}
+        />
       )}
 
       {toast && (
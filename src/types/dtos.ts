@@ -11,6 +11,17 @@ export interface UserDto {
   createdAt?: string;
 }
 
+// Token pair returned by the login and refresh endpoints
+export interface AuthTokensDto {
+  accessToken: string;
+  refreshToken: string;
+  tokenType?: string; // e.g., "Bearer"
+  expiresIn?: number; // Access token lifetime in seconds
+}
+
+// Kind of account a wallet represents
+export type WalletType = 'CASH' | 'CHECKING' | 'SAVINGS' | 'CREDIT_CARD' | 'INVESTMENT';
+
 // Wallet information
 export interface WalletDto {
   id: number;
@@ -18,39 +29,136 @@ export interface WalletDto {
   balance: number;
   currency: string;
   userId: number;
+  type?: WalletType; // Missing on wallets created before types existed
+  openingBalance?: number; // Balance before the first transaction
+  openingDate?: string; // Date of the opening balance (format: YYYY-MM-DD)
+  creditLimit?: number; // Credit cards only
+  statementClosingDay?: number; // Credit cards only - day of the month the statement closes (1-31)
+  paymentDueDay?: number; // Credit cards only - day of the month the payment is due (1-31)
+  archived?: boolean; // Hidden from wallet lists, still included in reports
   createdAt?: string;
 }
 
 // Transaction types - DEBIT decreases balance, CREDIT increases balance
 export type TransactionType = 'DEBIT' | 'CREDIT';
 
+// Reconciliation status - CLEARED transactions were ticked off against a bank statement,
+// RECONCILED ones belong to a finished reconciliation and are locked
+export type TransactionStatus = 'UNCLEARED' | 'CLEARED' | 'RECONCILED';
+
 // Transaction information returned from the API
 export interface TransactionDto {
   id: number;
   type: TransactionType;
-  category: string;
+  category: string; // For a split transaction, the category of its first line
   subcategory?: string;
   amount: number;
+  splits?: TransactionSplitDto[]; // Category lines of a split transaction
   description?: string;
   date: string; // Format: YYYY-MM-DD
   walletId: number;
+  transferId?: number; // Set on both sides of a transfer between wallets
+  counterpartWalletId?: number; // The other wallet of a transfer
+  status?: TransactionStatus; // Missing means UNCLEARED
+  externalId?: string; // Bank transaction ID of an imported transaction
   createdAt?: string;
 }
 
+// One category line of a split transaction - the lines add up to the transaction amount
+export interface TransactionSplitDto {
+  category: string;
+  subcategory?: string;
+  amount: number;
+}
+
+// One page of a paginated list (page numbers start at 0)
+export interface PageDto<T> {
+  content: T[];
+  page: number;
+  size: number;
+  totalElements: number;
+  totalPages: number;
+}
+
+// Server-side totals for a (filtered) set of transactions
+export interface TransactionSummaryDto {
+  count: number;
+  totalIncome: number;
+  totalExpenses: number;
+  balance: number; // totalIncome - totalExpenses
+}
+
 // Data needed to create a new transaction
 export interface CreateTransactionDto {
   type: TransactionType;
   category: string;
   subcategory?: string;
   amount: number;
+  splits?: TransactionSplitDto[]; // At least two lines, adding up to amount
+  description?: string;
+  date: string; // Format: YYYY-MM-DD
+}
+
+// Data needed to update an existing transaction
+export interface UpdateTransactionDto {
+  type: TransactionType;
+  category: string;
+  subcategory?: string;
+  amount: number;
+  splits?: TransactionSplitDto[]; // Leaving it out turns a split transaction back into a single category
   description?: string;
   date: string; // Format: YYYY-MM-DD
 }
 
+// Data needed to finish a reconciliation - the cleared transactions become RECONCILED
+export interface CreateReconciliationDto {
+  statementDate: string; // Format: YYYY-MM-DD
+  endingBalance: number;
+  transactionIds: number[];
+}
+
+// A finished reconciliation of a wallet against a bank statement
+export interface ReconciliationDto {
+  id: number;
+  walletId: number;
+  statementDate: string; // Format: YYYY-MM-DD
+  endingBalance: number;
+  createdAt?: string;
+}
+
+// Data needed to move money from one wallet to another
+export interface CreateTransferDto {
+  fromWalletId: number;
+  toWalletId: number;
+  amount: number; // In the source wallet's currency
+  exchangeRate?: number; // Destination units per source unit, required when the currencies differ
+  date: string; // Format: YYYY-MM-DD
+  description?: string;
+}
+
+// A transfer - a debit on the source wallet linked to a credit on the destination wallet
+export interface TransferDto {
+  id: number;
+  fromTransaction: TransactionDto;
+  toTransaction: TransactionDto;
+  exchangeRate: number;
+}
+
 // Data needed to create a new wallet
 export interface CreateWalletDto {
   name: string;
   currency: string;
+  type: WalletType;
+  openingBalance: number;
+  openingDate: string; // Format: YYYY-MM-DD
+  creditLimit?: number; // Credit cards only
+  statementClosingDay?: number; // Credit cards only (1-31)
+  paymentDueDay?: number; // Credit cards only (1-31)
+}
+
+// Data needed to update a wallet (the currency can only change while it has no transactions)
+export interface UpdateWalletDto extends CreateWalletDto {
+  archived: boolean;
 }
 
 // Data needed for user registration
@@ -89,6 +197,62 @@ export interface CreateSubcategoryDto {
   categoryId: number;
 }
 
+// Monthly budget for a category (optionally narrowed to a subcategory)
+export interface BudgetDto {
+  id: number;
+  category: string;
+  subcategory?: string;
+  amount: number;
+  month: string; // Format: YYYY-MM
+  userId?: number;
+  createdAt?: string;
+}
+
+// Data needed to create a new budget
+export interface CreateBudgetDto {
+  category: string;
+  subcategory?: string;
+  amount: number;
+  month: string; // Format: YYYY-MM
+}
+
+// How often a recurring transaction repeats
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+// AUTO_POST creates the transaction on its date, REMIND only lists it until it is posted manually
+export type RecurrenceMode = 'AUTO_POST' | 'REMIND';
+
+// Recurring transaction template (rent, salary, subscriptions...)
+export interface RecurringTransactionDto {
+  id: number;
+  walletId: number;
+  type: TransactionType;
+  category: string;
+  subcategory?: string;
+  amount: number;
+  description?: string;
+  frequency: RecurrenceFrequency;
+  mode: RecurrenceMode;
+  startDate: string; // Format: YYYY-MM-DD
+  endDate?: string; // Format: YYYY-MM-DD (no end when omitted)
+  nextOccurrence?: string; // Format: YYYY-MM-DD (omitted once the end date has passed)
+  createdAt?: string;
+}
+
+// Data needed to create a recurring transaction
+export interface CreateRecurringTransactionDto {
+  walletId: number;
+  type: TransactionType;
+  category: string;
+  subcategory?: string;
+  amount: number;
+  description?: string;
+  frequency: RecurrenceFrequency;
+  mode: RecurrenceMode;
+  startDate: string; // Format: YYYY-MM-DD
+  endDate?: string; // Format: YYYY-MM-DD
+}
+
 // Response from voice/text parsing endpoint
 export interface VoiceParseResponseDto {
   transaction: TransactionDto;
@@ -99,7 +263,23 @@ export interface VoiceParseResponseDto {
 export interface ImportResultDto {
   created: number;
   skipped: number;
-  errors?: string[];
+  errors?: string[]; // One message per row that couldn't be imported
+}
+
+// A row confirmed in the import preview
+export interface ImportTransactionDto {
+  type: TransactionType;
+  amount: number;
+  date: string; // Format: YYYY-MM-DD
+  description?: string;
+  category?: string; // Classified by the server when missing
+  externalId?: string; // Bank transaction ID (OFX FITID, CAMT.053 reference) - skipped if already imported
+  line?: number; // Line of the row in the file, referenced in error messages
+}
+
+// Data needed to import the rows confirmed in the preview
+export interface ImportTransactionsDto {
+  transactions: ImportTransactionDto[];
 }
 
 // Draft transaction returned from classification endpoint
@@ -108,6 +288,7 @@ export interface TransactionDraftDto {
   amount: number;
   category: string;
   subcategory?: string;
+  splits?: TransactionSplitDto[]; // Set when the draft is split while confirming it
   date: string; // Format: YYYY-MM-DD
   description?: string;
 }